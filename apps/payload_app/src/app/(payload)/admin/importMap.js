@@ -26,6 +26,13 @@ import { MetaTitleComponent as MetaTitleComponent_a8a977ebc872c5d5ea7ee689724c08
 import { MetaDescriptionComponent as MetaDescriptionComponent_a8a977ebc872c5d5ea7ee689724c0860 } from '@payloadcms/plugin-seo/client'
 import { MetaImageComponent as MetaImageComponent_a8a977ebc872c5d5ea7ee689724c0860 } from '@payloadcms/plugin-seo/client'
 import { PreviewComponent as PreviewComponent_a8a977ebc872c5d5ea7ee689724c0860 } from '@payloadcms/plugin-seo/client'
+import { PrintProcessingOrdersButtons as PrintProcessingOrdersButtons_d53f775649045a901ba5e99185e25466 } from '../../../components/OrderPrintButtons'
+import { ShipmentCsvActions as ShipmentCsvActions_a4c50bf1528940a1f773436fb1552542 } from '../../../components/ShipmentCsvActions'
+import { PrintOrderButtons as PrintOrderButtons_d53f775649045a901ba5e99185e25466 } from '../../../components/OrderPrintButtons'
+import { StockMovementHistory as StockMovementHistory_9cc59b2b5f675920151345281a68d2a5 } from '../../../components/StockMovementHistory'
+import { LowStockList as LowStockList_c1a0b6b6074b243610bd1e83810832dc } from '../../../components/LowStockList'
+import { ExpiringLotsReport as ExpiringLotsReport_f7f418c83ae1085d313b85d20c524e65 } from '../../../components/ExpiringLotsReport'
+import { BackInStockDemand as BackInStockDemand_f09036e6e79b23912676154132be0798 } from '../../../components/BackInStockDemand'
 
 export const importMap = {
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalCell": RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e,
@@ -55,5 +62,12 @@ export const importMap = {
   "@payloadcms/plugin-seo/client#MetaTitleComponent": MetaTitleComponent_a8a977ebc872c5d5ea7ee689724c0860,
   "@payloadcms/plugin-seo/client#MetaDescriptionComponent": MetaDescriptionComponent_a8a977ebc872c5d5ea7ee689724c0860,
   "@payloadcms/plugin-seo/client#MetaImageComponent": MetaImageComponent_a8a977ebc872c5d5ea7ee689724c0860,
-  "@payloadcms/plugin-seo/client#PreviewComponent": PreviewComponent_a8a977ebc872c5d5ea7ee689724c0860
+  "@payloadcms/plugin-seo/client#PreviewComponent": PreviewComponent_a8a977ebc872c5d5ea7ee689724c0860,
+  "/components/OrderPrintButtons#PrintProcessingOrdersButtons": PrintProcessingOrdersButtons_d53f775649045a901ba5e99185e25466,
+  "/components/ShipmentCsvActions#ShipmentCsvActions": ShipmentCsvActions_a4c50bf1528940a1f773436fb1552542,
+  "/components/OrderPrintButtons#PrintOrderButtons": PrintOrderButtons_d53f775649045a901ba5e99185e25466,
+  "/components/StockMovementHistory#StockMovementHistory": StockMovementHistory_9cc59b2b5f675920151345281a68d2a5,
+  "/components/LowStockList#LowStockList": LowStockList_c1a0b6b6074b243610bd1e83810832dc,
+  "/components/ExpiringLotsReport#ExpiringLotsReport": ExpiringLotsReport_f7f418c83ae1085d313b85d20c524e65,
+  "/components/BackInStockDemand#BackInStockDemand": BackInStockDemand_f09036e6e79b23912676154132be0798
 }
@@ -0,0 +1,138 @@
+import type { CollectionConfig } from 'payload'
+import { ABANDONED_CHECKOUT_STATUS_OPTIONS } from '../utils/abandonedCheckouts'
+
+/**
+ * Checkout forms customers started but did not submit, saved only when they
+ * agreed to a reminder. The website writes them; a scheduled job emails the
+ * reminder and placed orders close them.
+ *
+ * Reminded drafts that end as `recovered` orders came back through the
+ * reminder link; `completed` ones were ordered without it.
+ */
+const AbandonedCheckouts: CollectionConfig = {
+  slug: 'abandoned-checkouts',
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['email', 'status', 'cartTotal', 'lastActivityAt', 'reminderSentAt'],
+    listSearchableFields: ['email', 'name', 'phone'],
+    description:
+      'Checkouts left unfinished by customers who asked for a reminder. Filter by status to see how many reminders turned into orders.',
+  },
+  defaultSort: '-lastActivityAt',
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'email',
+          type: 'email',
+          required: true,
+          index: true,
+        },
+        {
+          name: 'name',
+          type: 'text',
+        },
+        {
+          name: 'phone',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'open',
+      index: true,
+      options: ABANDONED_CHECKOUT_STATUS_OPTIONS,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'cartItems',
+      type: 'json',
+      required: true,
+      admin: {
+        description:
+          "Product, variant and quantity of each line in the customer's cart. Titles and prices are read from the catalogue.",
+      },
+    },
+    {
+      name: 'cartTotal',
+      type: 'number',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'form',
+      type: 'json',
+      admin: {
+        description: 'Other checkout fields filled in so far, such as the shipping method',
+      },
+    },
+    {
+      name: 'consentedAt',
+      type: 'date',
+      required: true,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'When the customer ticked the reminder box',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'lastActivityAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'reminderSentAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'restoredAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'When the reminder link was first opened',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'order',
+      type: 'relationship',
+      relationTo: 'orders',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+}
+
+export default AbandonedCheckouts
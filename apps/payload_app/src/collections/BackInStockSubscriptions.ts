@@ -0,0 +1,98 @@
+import { randomBytes } from 'crypto'
+import type { CollectionConfig } from 'payload'
+import { BACK_IN_STOCK_STATUS_OPTIONS, backInStockDemandEndpoint } from '../utils/backInStock'
+
+/**
+ * Customers waiting for a sold-out variant. The website writes them from the
+ * product page; a job emails them once the variant is back in stock.
+ */
+const BackInStockSubscriptions: CollectionConfig = {
+  slug: 'back-in-stock-subscriptions',
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['email', 'mapping', 'status', 'createdAt', 'notifiedAt'],
+    listSearchableFields: ['email'],
+    description:
+      'Customers who asked to be emailed when a sold-out variant is restocked. The counts above show demand per variant.',
+    components: {
+      beforeListTable: ['/components/BackInStockDemand#BackInStockDemand'],
+    },
+  },
+  defaultSort: '-createdAt',
+  endpoints: [backInStockDemandEndpoint],
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'email',
+          type: 'email',
+          required: true,
+          index: true,
+        },
+        {
+          name: 'mapping',
+          type: 'relationship',
+          relationTo: 'product-variant-mappings',
+          required: true,
+          index: true,
+          label: 'Variant',
+        },
+      ],
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      defaultValue: 'waiting',
+      index: true,
+      options: BACK_IN_STOCK_STATUS_OPTIONS,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'unsubscribeToken',
+      type: 'text',
+      unique: true,
+      index: true,
+      admin: {
+        hidden: true,
+      },
+      hooks: {
+        beforeValidate: [({ value }) => value || randomBytes(18).toString('base64url')],
+      },
+    },
+    {
+      name: 'notifiedAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'unsubscribedAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+  ],
+  indexes: [
+    {
+      fields: ['mapping', 'email'],
+      unique: true,
+    },
+  ],
+  timestamps: true,
+}
+
+export default BackInStockSubscriptions
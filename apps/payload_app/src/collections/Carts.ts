@@ -0,0 +1,119 @@
+import { randomBytes } from 'crypto'
+import type { CollectionConfig } from 'payload'
+
+export const CART_KIND_OPTIONS = [
+  { label: 'Customer (synced from a browser)', value: 'customer' },
+  { label: 'Shared (built by staff)', value: 'shared' },
+]
+
+/**
+ * Carts kept on the server, found by an unguessable token in their link
+ *
+ * Customers who turn on cart sync get a `customer` cart that follows them
+ * between devices. Staff build `shared` carts here and send the link, e.g. over
+ * LINE; opening it fills the customer's cart but never changes the shared one.
+ * Prices and stock always come from the catalogue when a cart is opened.
+ */
+const Carts: CollectionConfig = {
+  slug: 'carts',
+  admin: {
+    useAsTitle: 'title',
+    defaultColumns: ['title', 'kind', 'shareUrl', 'updatedAt'],
+    description:
+      'Build a cart for a customer and send them its link. Opening the link fills their cart with these items.',
+  },
+  defaultSort: '-updatedAt',
+  fields: [
+    {
+      name: 'title',
+      type: 'text',
+      admin: {
+        description: 'For staff only, e.g. the customer or campaign this cart is for',
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'kind',
+          type: 'select',
+          required: true,
+          defaultValue: 'shared',
+          options: CART_KIND_OPTIONS,
+        },
+        {
+          name: 'token',
+          type: 'text',
+          unique: true,
+          index: true,
+          admin: {
+            readOnly: true,
+            description: 'Generated on save. Anyone with the link can open the cart.',
+          },
+          hooks: {
+            beforeValidate: [({ value }) => value || randomBytes(18).toString('base64url')],
+          },
+        },
+      ],
+    },
+    {
+      name: 'shareUrl',
+      type: 'text',
+      virtual: true,
+      admin: {
+        readOnly: true,
+        description: 'Send this link to the customer',
+      },
+      hooks: {
+        afterRead: [
+          ({ siblingData }) =>
+            process.env.WEBSITE_URL && siblingData?.token
+              ? new URL(`/cart/${siblingData.token}`, process.env.WEBSITE_URL).toString()
+              : null,
+        ],
+      },
+    },
+    {
+      name: 'items',
+      type: 'array',
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'product',
+              type: 'relationship',
+              relationTo: 'products',
+              required: true,
+            },
+            {
+              name: 'variant',
+              type: 'relationship',
+              relationTo: 'product-variant-mappings',
+              admin: {
+                description: "Required when the product has variants; pick one of the product's",
+              },
+              filterOptions: ({ siblingData }) => {
+                const product = (siblingData as { product?: string | { id: string } })?.product
+                if (!product) return false
+                return {
+                  product: { equals: typeof product === 'object' ? product.id : product },
+                }
+              },
+            },
+            {
+              name: 'quantity',
+              type: 'number',
+              required: true,
+              min: 1,
+              defaultValue: 1,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  timestamps: true,
+}
+
+export default Carts
@@ -0,0 +1,172 @@
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Discount codes redeemed at checkout.
+ * Not publicly readable: the website checks codes server-side one at a time.
+ */
+const Coupons: CollectionConfig = {
+  slug: 'coupons',
+  admin: {
+    useAsTitle: 'code',
+    defaultColumns: ['code', 'discountType', 'amount', 'timesUsed', 'usageLimit', 'active'],
+  },
+  fields: [
+    {
+      name: 'code',
+      type: 'text',
+      required: true,
+      unique: true,
+      index: true,
+      admin: {
+        description: 'What customers type at checkout. Stored in upper case.',
+      },
+      hooks: {
+        beforeValidate: [
+          ({ value }) => (typeof value === 'string' ? value.trim().toUpperCase() : value),
+        ],
+      },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'discountType',
+          type: 'select',
+          required: true,
+          defaultValue: 'percentage',
+          options: [
+            { label: 'Percentage off', value: 'percentage' },
+            { label: 'Fixed amount off', value: 'fixed' },
+          ],
+        },
+        {
+          name: 'amount',
+          type: 'number',
+          required: true,
+          min: 0,
+          admin: {
+            description: 'Percent (10 = 10% off) or NT$ amount off',
+          },
+          validate: (value: number | null | undefined, { siblingData }: { siblingData: any }) => {
+            if (typeof value !== 'number' || value <= 0) return 'Enter an amount above 0'
+            if (siblingData?.discountType === 'percentage' && value > 100) {
+              return 'A percentage discount cannot exceed 100'
+            }
+            return true
+          },
+        },
+      ],
+    },
+    {
+      name: 'minimumSpend',
+      type: 'number',
+      min: 0,
+      admin: {
+        description: 'Cart subtotal (before discount and shipping) needed to use the code',
+      },
+    },
+    {
+      name: 'appliesTo',
+      type: 'group',
+      admin: {
+        description:
+          'Limit the discount to matching products. Leave all empty to discount the whole cart.',
+      },
+      fields: [
+        {
+          name: 'products',
+          type: 'relationship',
+          relationTo: 'products',
+          hasMany: true,
+        },
+        {
+          name: 'categories',
+          type: 'relationship',
+          relationTo: 'product-categories',
+          hasMany: true,
+        },
+        {
+          name: 'brands',
+          type: 'relationship',
+          relationTo: 'brands',
+          hasMany: true,
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'usageLimit',
+          type: 'number',
+          min: 1,
+          admin: {
+            description: 'Total uses across all customers. Empty for unlimited.',
+          },
+        },
+        {
+          name: 'usageLimitPerCustomer',
+          type: 'number',
+          min: 1,
+          admin: {
+            description: 'Uses per customer email. Empty for unlimited.',
+          },
+        },
+      ],
+    },
+    {
+      name: 'timesUsed',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Orders currently using this code. Cancelled orders give their use back.',
+      },
+    },
+    {
+      name: 'startsAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'endsAt',
+      type: 'date',
+      admin: {
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'active',
+      type: 'checkbox',
+      defaultValue: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+  hooks: {
+    beforeChange: [
+      // timesUsed is only moved by utils/couponUsage; don't let a stale admin form overwrite it
+      async ({ data, originalDoc, operation }) => {
+        data.timesUsed = operation === 'update' ? (originalDoc?.timesUsed ?? 0) : 0
+        return data
+      },
+    ],
+  },
+}
+
+export default Coupons
@@ -0,0 +1,36 @@
+import type { CollectionConfig } from 'payload'
+
+/**
+ * Per-day counters behind human-readable order numbers.
+ * Incremented atomically by utils/orderNumber; not meant to be edited by hand.
+ */
+const OrderSequences: CollectionConfig = {
+  slug: 'order-sequences',
+  admin: {
+    useAsTitle: 'date',
+    hidden: true,
+  },
+  fields: [
+    {
+      name: 'date',
+      type: 'text',
+      required: true,
+      unique: true,
+      admin: {
+        description: 'Order date in YYYYMMDD (Asia/Taipei)',
+      },
+    },
+    {
+      name: 'value',
+      type: 'number',
+      required: true,
+      defaultValue: 0,
+      admin: {
+        description: 'Last sequence number handed out for this date',
+      },
+    },
+  ],
+  timestamps: true,
+}
+
+export default OrderSequences
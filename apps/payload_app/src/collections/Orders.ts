@@ -1,12 +1,66 @@
-import { CollectionConfig } from 'payload'
+import { CollectionConfig, ValidationError } from 'payload'
+import {
+  applyOrderStockChange,
+  markBackorderedItems,
+  scheduleOrderProductStockRefresh,
+} from '../utils/orderStock'
+import { applyOrderCouponChange } from '../utils/couponUsage'
+import { applyOrderLotChange } from '../utils/stockLots'
+import {
+  queueStockMovements,
+  recordQueuedStockMovements,
+  recordStockMovements,
+} from '../utils/stockMovements'
+import { applyOrderInvoice, INVOICE_TYPE_OPTIONS } from '../utils/invoice'
+import { generateOrderNumber } from '../utils/orderNumber'
+import { notifyOrderShipped } from '../utils/orderNotifications'
+import { printOrderEndpoint, printProcessingOrdersEndpoint } from '../utils/orderDocuments'
+import { CARRIER_OPTIONS } from '../utils/carriers'
+import { exportShipmentsEndpoint, importTrackingEndpoint } from '../utils/shipmentCsv'
+import {
+  canTransitionOrderStatus,
+  getOrderStatusLabel,
+  orderHoldsStock,
+  ORDER_STATUS_OPTIONS,
+  ORDER_STATUS_TIMESTAMP_FIELDS,
+  ORDER_STATUS_TRANSITIONS,
+  type OrderStatus,
+} from '../utils/orderStatus'
 
 const Orders: CollectionConfig = {
   slug: 'orders',
   admin: {
-    useAsTitle: 'name',
-    defaultColumns: ['name', 'email', 'status', 'totalAmount', 'createdAt'],
+    useAsTitle: 'orderNumber',
+    defaultColumns: ['orderNumber', 'name', 'email', 'status', 'totalAmount', 'createdAt'],
+    listSearchableFields: ['orderNumber', 'name', 'email', 'phone'],
+    components: {
+      beforeListTable: [
+        '/components/OrderPrintButtons#PrintProcessingOrdersButtons',
+        '/components/ShipmentCsvActions#ShipmentCsvActions',
+      ],
+      edit: {
+        beforeDocumentControls: ['/components/OrderPrintButtons#PrintOrderButtons'],
+      },
+    },
   },
+  endpoints: [
+    printProcessingOrdersEndpoint,
+    printOrderEndpoint,
+    exportShipmentsEndpoint,
+    importTrackingEndpoint,
+  ],
   fields: [
+    {
+      name: 'orderNumber',
+      type: 'text',
+      unique: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Assigned automatically when the order is created, e.g. PR-20261019-00042',
+      },
+    },
     {
       name: 'name',
       type: 'text',
@@ -16,16 +70,112 @@ const Orders: CollectionConfig = {
       name: 'email',
       type: 'email',
       required: true,
+      index: true,
+      admin: {
+        description: 'Stored in lower case',
+      },
+      hooks: {
+        beforeValidate: [
+          ({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+        ],
+      },
     },
     {
       name: 'phone',
       type: 'text',
       required: true,
+      admin: {
+        description: 'Normalised at checkout, e.g. 0912-345-678 or 02-2345-6789',
+      },
     },
     {
       name: 'address',
       type: 'textarea',
       required: true,
+      admin: {
+        description: 'Delivery address, or the pickup store for convenience store methods',
+      },
+    },
+    {
+      name: 'deliveryAddress',
+      type: 'group',
+      admin: {
+        description: 'Structured address for home delivery; empty for store pickup',
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'postalCode',
+              type: 'text',
+            },
+            {
+              name: 'city',
+              label: 'County / City',
+              type: 'text',
+            },
+            {
+              name: 'district',
+              type: 'text',
+            },
+          ],
+        },
+        {
+          name: 'street',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'shipping',
+      type: 'group',
+      fields: [
+        {
+          name: 'method',
+          type: 'relationship',
+          relationTo: 'shipping-methods',
+        },
+        {
+          name: 'methodName',
+          type: 'text',
+          admin: {
+            description: 'Method name at the time of the order',
+          },
+        },
+        {
+          name: 'storeName',
+          type: 'text',
+        },
+        {
+          name: 'storeCode',
+          type: 'text',
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'carrier',
+              type: 'select',
+              options: CARRIER_OPTIONS,
+            },
+            {
+              name: 'trackingNumber',
+              type: 'text',
+              index: true,
+              admin: {
+                description: 'Shown to the customer and emailed when the order is shipped',
+              },
+            },
+          ],
+        },
+        {
+          name: 'fee',
+          type: 'number',
+          min: 0,
+          defaultValue: 0,
+        },
+      ],
     },
     {
       name: 'cartItems',
@@ -72,6 +222,104 @@ const Orders: CollectionConfig = {
             },
           ],
         },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'backorderedQuantity',
+              type: 'number',
+              min: 0,
+              label: 'Waiting for stock',
+              admin: {
+                description:
+                  'Units sold beyond stock; hold the line until they arrive, then set this to 0',
+              },
+            },
+            {
+              name: 'expectedShipDate',
+              type: 'date',
+              label: 'Preorder ships',
+              admin: {
+                readOnly: true,
+                condition: (_, siblingData) => Boolean(siblingData?.expectedShipDate),
+                date: { pickerAppearance: 'dayOnly' },
+              },
+            },
+          ],
+        },
+        {
+          name: 'lots',
+          type: 'array',
+          admin: {
+            readOnly: true,
+            description: 'Stock lots this line was filled from, earliest expiry first',
+          },
+          fields: [
+            {
+              name: 'lot',
+              type: 'relationship',
+              relationTo: 'stock-lots',
+            },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'lotNumber',
+                  type: 'text',
+                  required: true,
+                  admin: {
+                    description: 'Kept if the lot is later deleted',
+                  },
+                },
+                {
+                  name: 'expiryDate',
+                  type: 'date',
+                  required: true,
+                  admin: {
+                    date: { pickerAppearance: 'dayOnly' },
+                  },
+                },
+                {
+                  name: 'quantity',
+                  type: 'number',
+                  required: true,
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'subtotal',
+      type: 'number',
+      min: 0,
+      admin: {
+        description: 'Sum of cart items, before discount and shipping',
+      },
+    },
+    {
+      name: 'discount',
+      type: 'group',
+      fields: [
+        {
+          name: 'coupon',
+          type: 'relationship',
+          relationTo: 'coupons',
+        },
+        {
+          name: 'code',
+          type: 'text',
+          admin: {
+            description: 'Code as redeemed, kept if the coupon is later deleted',
+          },
+        },
+        {
+          name: 'amount',
+          type: 'number',
+          min: 0,
+          defaultValue: 0,
+        },
       ],
     },
     {
@@ -80,7 +328,7 @@ const Orders: CollectionConfig = {
       required: true,
       min: 0,
       admin: {
-        description: 'Total order amount calculated from cart items',
+        description: 'Amount charged: subtotal minus discount, plus shipping fee',
       },
     },
     {
@@ -88,14 +336,250 @@ const Orders: CollectionConfig = {
       type: 'select',
       required: true,
       defaultValue: 'pending',
-      options: [
-        { label: 'Pending', value: 'pending' },
-        { label: 'Processing', value: 'processing' },
-        { label: 'Shipped', value: 'shipped' },
-        { label: 'Delivered', value: 'delivered' },
-        { label: 'Cancelled', value: 'cancelled' },
+      options: ORDER_STATUS_OPTIONS,
+      admin: {
+        description:
+          'Cash on delivery: Pending → Processing → Shipped → Delivered. Card: Awaiting payment → Paid → Processing → … Orders can be cancelled until shipped, which restocks their items.',
+      },
+    },
+    {
+      name: 'hasBackorders',
+      type: 'checkbox',
+      defaultValue: false,
+      index: true,
+      label: 'Waiting for stock',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description:
+          'Some lines were sold beyond stock. Hold them until stock arrives; filter the list by this to find them.',
+      },
+    },
+    {
+      name: 'statusChangeReason',
+      label: 'Reason for status change (optional)',
+      type: 'text',
+      admin: {
+        description: 'Recorded in the status history with the next status change, then cleared',
+      },
+    },
+    {
+      name: 'statusHistory',
+      type: 'array',
+      admin: {
+        readOnly: true,
+        description: 'Every status change, oldest first. Written automatically.',
+      },
+      fields: [
+        {
+          name: 'fromStatus',
+          type: 'select',
+          options: ORDER_STATUS_OPTIONS,
+        },
+        {
+          name: 'toStatus',
+          type: 'select',
+          required: true,
+          options: ORDER_STATUS_OPTIONS,
+        },
+        {
+          name: 'changedAt',
+          type: 'date',
+          required: true,
+          admin: {
+            date: {
+              pickerAppearance: 'dayAndTime',
+            },
+          },
+        },
+        {
+          name: 'changedBy',
+          type: 'relationship',
+          relationTo: 'users',
+          admin: {
+            description: 'Empty when the change was made by the system (e.g. checkout)',
+          },
+        },
+        {
+          name: 'reason',
+          type: 'text',
+        },
       ],
     },
+    {
+      name: 'payment',
+      type: 'group',
+      fields: [
+        {
+          name: 'method',
+          type: 'select',
+          required: true,
+          defaultValue: 'cod',
+          options: [
+            { label: 'Cash on delivery', value: 'cod' },
+            { label: 'Credit card', value: 'card' },
+          ],
+        },
+        {
+          name: 'merchantTradeNo',
+          type: 'text',
+          admin: {
+            readOnly: true,
+            description: 'Our reference for the successful gateway attempt',
+          },
+        },
+        {
+          name: 'transactionId',
+          type: 'text',
+          admin: {
+            readOnly: true,
+            description: "The gateway's trade number",
+          },
+        },
+        {
+          name: 'paymentType',
+          type: 'text',
+          admin: {
+            readOnly: true,
+            description: 'As reported by the gateway, e.g. Credit_CreditCard',
+          },
+        },
+      ],
+    },
+    {
+      name: 'invoice',
+      type: 'group',
+      admin: {
+        description: 'Taiwan e-invoice (電子發票) details chosen at checkout',
+      },
+      fields: [
+        {
+          name: 'type',
+          type: 'select',
+          required: true,
+          defaultValue: 'personal',
+          options: INVOICE_TYPE_OPTIONS,
+        },
+        {
+          name: 'carrierCode',
+          type: 'text',
+          admin: {
+            description:
+              'Mobile barcode (/ABC+123) or citizen certificate number (AB12345678901234)',
+            condition: (_, siblingData) =>
+              siblingData?.type === 'mobile_carrier' || siblingData?.type === 'citizen_carrier',
+          },
+        },
+        {
+          name: 'donationCode',
+          type: 'text',
+          admin: {
+            description: '愛心碼 of the receiving charity',
+            condition: (_, siblingData) => siblingData?.type === 'donation',
+          },
+        },
+        {
+          type: 'row',
+          admin: {
+            condition: (_, siblingData) => siblingData?.type === 'company',
+          },
+          fields: [
+            {
+              name: 'taxId',
+              type: 'text',
+              label: 'Tax ID (統一編號)',
+            },
+            {
+              name: 'companyName',
+              type: 'text',
+            },
+          ],
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'invoiceNumber',
+              type: 'text',
+              index: true,
+              admin: {
+                readOnly: true,
+              },
+            },
+            {
+              name: 'randomCode',
+              type: 'text',
+              admin: {
+                readOnly: true,
+              },
+            },
+            {
+              name: 'issuedAt',
+              type: 'date',
+              admin: {
+                readOnly: true,
+                date: {
+                  pickerAppearance: 'dayAndTime',
+                },
+              },
+            },
+          ],
+        },
+        {
+          name: 'issueError',
+          type: 'text',
+          admin: {
+            readOnly: true,
+            description: 'Why the last issue attempt failed. Saving the order tries again.',
+            condition: (_, siblingData) => Boolean(siblingData?.issueError),
+          },
+        },
+      ],
+    },
+    {
+      name: 'paidAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'shippedAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'deliveredAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'cancelledAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
     {
       name: 'orderDate',
       type: 'date',
@@ -106,6 +590,39 @@ const Orders: CollectionConfig = {
         },
       },
     },
+    {
+      name: 'idempotencyKey',
+      type: 'text',
+      unique: true,
+      index: true,
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description:
+          'Sent by the checkout form so retried submissions return this order instead of creating a new one',
+      },
+    },
+    {
+      name: 'idempotencyKeyExpiresAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+    },
+    {
+      name: 'recoveredFrom',
+      type: 'relationship',
+      relationTo: 'abandoned-checkouts',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Set when the customer placed this order from an abandoned checkout reminder',
+      },
+    },
     {
       name: 'note',
       label: 'Order Notes (optional)',
@@ -114,6 +631,137 @@ const Orders: CollectionConfig = {
     },
   ],
   timestamps: true,
+  hooks: {
+    beforeChange: [
+      // Order numbers are assigned once, on create, and never change
+      async ({ data, originalDoc, operation, req }) => {
+        if (operation === 'create') {
+          data.orderNumber = await generateOrderNumber(req.payload)
+        } else if (originalDoc?.orderNumber) {
+          data.orderNumber = originalDoc.orderNumber
+        }
+        return data
+      },
+      // Enforce allowed status transitions and record them in the history
+      async ({ data, originalDoc, operation, req }) => {
+        const previousStatus: OrderStatus | undefined =
+          operation === 'update' ? originalDoc?.status : undefined
+        const nextStatus: OrderStatus = data.status ?? previousStatus ?? 'pending'
+
+        if (previousStatus && !canTransitionOrderStatus(previousStatus, nextStatus)) {
+          const allowed = ORDER_STATUS_TRANSITIONS[previousStatus].map(getOrderStatusLabel)
+          throw new ValidationError({
+            collection: 'orders',
+            errors: [
+              {
+                path: 'status',
+                message: `Cannot change status from ${getOrderStatusLabel(previousStatus)} to ${getOrderStatusLabel(nextStatus)}. ${
+                  allowed.length > 0
+                    ? `Allowed next statuses: ${allowed.join(', ')}.`
+                    : 'This status is final.'
+                }`,
+              },
+            ],
+            req,
+          })
+        }
+
+        // History and timestamps are owned by this hook; ignore anything sent by the client
+        data.statusHistory = originalDoc?.statusHistory || []
+        for (const field of Object.values(ORDER_STATUS_TIMESTAMP_FIELDS)) {
+          data[field] = originalDoc?.[field] ?? null
+        }
+
+        if (nextStatus !== previousStatus) {
+          const changedAt = new Date().toISOString()
+          data.statusHistory = [
+            ...data.statusHistory,
+            {
+              fromStatus: previousStatus ?? null,
+              toStatus: nextStatus,
+              changedAt,
+              changedBy: req.user?.collection === 'users' ? req.user.id : null,
+              reason: data.statusChangeReason || null,
+            },
+          ]
+
+          const timestampField = ORDER_STATUS_TIMESTAMP_FIELDS[nextStatus]
+          if (timestampField) {
+            data[timestampField] = changedAt
+          }
+        }
+        data.statusChangeReason = null
+
+        return data
+      },
+      // Reserve or release the difference in held stock and coupon uses in the same transaction
+      // as the order write. Cancelled orders hold nothing, so cancelling restocks every line.
+      async ({ data, originalDoc, operation, req }) => {
+        const previous =
+          operation === 'update' && orderHoldsStock(originalDoc?.status) ? originalDoc : null
+        const next = {
+          ...originalDoc,
+          ...data,
+          cartItems: data.cartItems ?? originalDoc?.cartItems,
+        }
+
+        const holdsStock = orderHoldsStock(next.status)
+        const movements = await applyOrderStockChange(req, previous, holdsStock ? next : null)
+        if (holdsStock) {
+          const cartItems = await markBackorderedItems(req, previous, next.cartItems, movements)
+          next.cartItems = data.cartItems = cartItems
+          data.hasBackorders = cartItems.some((item) => (item.backorderedQuantity || 0) > 0)
+        }
+        const lots = await applyOrderLotChange(req, previous, holdsStock ? next : null)
+        if (lots.cartItems) data.cartItems = lots.cartItems
+        // New orders have no id yet; the ledger rows are written once the order is saved
+        const ledgerKey = operation === 'update' ? String(originalDoc.id) : 'new'
+        queueStockMovements(req, ledgerKey, {
+          reason: !previous ? 'sale' : holdsStock ? 'order_edit' : 'cancel_restock',
+          entries: movements,
+        })
+        queueStockMovements(req, ledgerKey, { reason: 'expired', entries: lots.writtenOff })
+        await applyOrderCouponChange(req, operation === 'update' ? originalDoc : null, next)
+        return data
+      },
+      // Issue the e-invoice once the sale is confirmed
+      async ({ data, originalDoc, req }) => applyOrderInvoice(req, data, originalDoc),
+    ],
+    afterChange: [
+      async ({ doc, operation, previousDoc, req }) => {
+        await recordQueuedStockMovements(
+          req,
+          operation === 'create' ? 'new' : String(doc.id),
+          doc.id,
+        )
+        scheduleOrderProductStockRefresh(req, previousDoc, doc)
+      },
+      async ({ doc, previousDoc, operation, req }) => {
+        if (
+          doc.status === 'shipped' &&
+          (operation === 'create' || previousDoc?.status !== 'shipped')
+        ) {
+          notifyOrderShipped(req.payload, doc)
+        }
+      },
+    ],
+    // Deleting an order gives its stock and coupon use back, unless cancelling already did
+    afterDelete: [
+      async ({ doc, req }) => {
+        if (orderHoldsStock(doc.status)) {
+          const note = `Order ${doc.orderNumber || doc.id} deleted`
+          await recordStockMovements(req, await applyOrderStockChange(req, doc, null), {
+            reason: 'cancel_restock',
+            note,
+          })
+          const { writtenOff } = await applyOrderLotChange(req, doc, null)
+          await recordStockMovements(req, writtenOff, { reason: 'expired', note })
+          await applyOrderCouponChange(req, doc, null)
+        }
+        scheduleOrderProductStockRefresh(req, doc)
+      },
+    ],
+  },
 }
 
 export default Orders
@@ -1,6 +1,16 @@
 import type { CollectionConfig } from 'payload'
+import { APIError } from 'payload'
 import { calculateTotalStock } from '../utils/stockUtils'
 import { debouncedStockUpdate } from '../utils/debouncedStockUpdate'
+import { refreshProductTotalStock } from '../utils/stockReservation'
+import { lowStockEndpoint } from '../utils/lowStock'
+import { isLotTracked } from '../utils/stockLots'
+import { getStockFloor, INVENTORY_POLICY_OPTIONS, sellsBeyondStock } from '../utils/inventoryPolicy'
+import {
+  MANUAL_STOCK_MOVEMENT_REASONS,
+  recordStockMovements,
+  STOCK_MOVEMENT_REASON_OPTIONS,
+} from '../utils/stockMovements'
 
 const ProductVariantMappings: CollectionConfig = {
   slug: 'product-variant-mappings',
@@ -14,7 +24,11 @@ const ProductVariantMappings: CollectionConfig = {
       defaultLimit: 25,
       limits: [10, 25, 50],
     },
+    components: {
+      beforeListTable: ['/components/LowStockList#LowStockList'],
+    },
   },
+  endpoints: [lowStockEndpoint],
   access: {
     // Allow delete only when not accessed from product context
     delete: ({ req }) => {
@@ -61,10 +75,113 @@ const ProductVariantMappings: CollectionConfig = {
       type: 'number',
       required: true,
       defaultValue: 0,
-      min: 0,
       label: 'Stock Quantity',
       admin: {
-        description: 'Available stock for this variant on this product',
+        description:
+          'Available stock for this variant on this product. For variants with stock lots, the sum of their unexpired lots. Below 0 when backorders or preorders are waiting for stock.',
+      },
+      validate: (value: number | null | undefined, { siblingData }: { siblingData: any }) => {
+        if (typeof value !== 'number') return 'Enter a stock quantity'
+        if (value < getStockFloor(siblingData || {})) {
+          return sellsBeyondStock(siblingData || {})
+            ? 'The quantity cannot go below minus the backorder limit'
+            : 'The quantity cannot be below 0 unless the variant allows backorders or preorders'
+        }
+        return true
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'inventoryPolicy',
+          type: 'select',
+          required: true,
+          defaultValue: 'deny',
+          options: INVENTORY_POLICY_OPTIONS,
+          label: 'When out of stock',
+        },
+        {
+          name: 'backorderLimit',
+          type: 'number',
+          min: 0,
+          label: 'Units sellable beyond stock',
+          admin: {
+            condition: (_, siblingData) => sellsBeyondStock(siblingData || {}),
+            description: 'Orders stop once this many units are waiting for stock',
+          },
+        },
+        {
+          name: 'preorderShipDate',
+          type: 'date',
+          label: 'Expected ship date',
+          admin: {
+            condition: (_, siblingData) => siblingData?.inventoryPolicy === 'preorder',
+            date: { pickerAppearance: 'dayOnly' },
+            description: 'Shown to customers on the product page',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'stockChangeReason',
+          type: 'select',
+          virtual: true,
+          label: 'Reason for quantity change',
+          options: STOCK_MOVEMENT_REASON_OPTIONS.filter((option) =>
+            MANUAL_STOCK_MOVEMENT_REASONS.includes(option.value),
+          ),
+          admin: {
+            description: 'Recorded in the stock history with the next quantity change',
+          },
+        },
+        {
+          name: 'stockChangeNote',
+          type: 'text',
+          virtual: true,
+          label: 'Note (optional)',
+          admin: {
+            description: 'e.g. supplier invoice number or why the count was off',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'lowStockThreshold',
+          type: 'number',
+          min: 0,
+          label: 'Low-stock threshold',
+          admin: {
+            description:
+              'Alert the admin when stock falls to this or below. Empty uses the store default (LOW_STOCK_THRESHOLD, 5 unless set).',
+          },
+        },
+        {
+          name: 'lowStockAlertedAt',
+          type: 'date',
+          label: 'Low-stock alert sent',
+          admin: {
+            readOnly: true,
+            date: { pickerAppearance: 'dayAndTime' },
+            description:
+              'Cleared once stock is back above the threshold, so the next drop alerts again',
+          },
+        },
+      ],
+    },
+    {
+      name: 'stockHistory',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: '/components/StockMovementHistory#StockMovementHistory',
+        },
       },
     },
     {
@@ -75,6 +192,30 @@ const ProductVariantMappings: CollectionConfig = {
         description: 'Override the base variant price for this product',
       },
     },
+    {
+      name: 'priceTiers',
+      type: 'array',
+      label: 'Quantity Price Breaks (optional)',
+      admin: {
+        description:
+          'Discount per unit once the customer buys at least this many, e.g. 3 → 10% off, 6 → 15% off. Below the first break the full price applies.',
+      },
+      fields: [
+        {
+          name: 'minQuantity',
+          type: 'number',
+          required: true,
+          min: 2,
+        },
+        {
+          name: 'discountPercent',
+          type: 'number',
+          required: true,
+          min: 0,
+          max: 100,
+        },
+      ],
+    },
     {
       name: 'isDefault',
       type: 'checkbox',
@@ -227,6 +368,32 @@ const ProductVariantMappings: CollectionConfig = {
         }
         return data
       },
+      // A lot-tracked variant's quantity is the sum of its lots, so it follows them
+      async ({ data, originalDoc, operation, req }) => {
+        if (operation !== 'update' || !(await isLotTracked(req, originalDoc.id))) return data
+
+        if (
+          data.quantity !== undefined &&
+          Number(data.quantity) !== Number(originalDoc?.quantity || 0)
+        ) {
+          throw new APIError(
+            'This variant is tracked in stock lots. Change the quantity of its lots instead.',
+            400,
+            undefined,
+            true,
+          )
+        }
+        // Units sold beyond stock are in no lot, so they could not be traced
+        if (sellsBeyondStock({ ...originalDoc, ...data })) {
+          throw new APIError(
+            'Variants tracked in stock lots cannot be backordered or preordered.',
+            400,
+            undefined,
+            true,
+          )
+        }
+        return data
+      },
     ],
     // Generate display name for existing records when reading
     afterRead: [
@@ -256,6 +423,20 @@ const ProductVariantMappings: CollectionConfig = {
       },
     ],
     afterChange: [
+      // Stock ledger row for quantities changed through the admin or the API.
+      // Orders change quantities directly and write their own rows.
+      async ({ data, doc, operation, previousDoc, req }) => {
+        const quantityAfter = Number(doc.quantity || 0)
+        const delta =
+          quantityAfter - (operation === 'update' ? Number(previousDoc?.quantity || 0) : 0)
+        if (delta === 0) return
+
+        await recordStockMovements(req, [{ mappingId: doc.id, delta, quantityAfter }], {
+          reason:
+            data.stockChangeReason || (operation === 'create' ? 'receiving' : 'manual_adjustment'),
+          note: data.stockChangeNote,
+        })
+      },
       async ({ doc, req, operation: _operation }) => {
         try {
           if (!doc.product) return
@@ -267,43 +448,7 @@ const ProductVariantMappings: CollectionConfig = {
           // Use debounced update to prevent excessive database calls
           debouncedStockUpdate(
             productId,
-            async () => {
-              // Use a more efficient approach - calculate from the current mapping
-              // and get only the necessary data
-              const productMappings = await req.payload.find({
-                collection: 'product-variant-mappings',
-                where: {
-                  product: { equals: productId },
-                },
-                limit: 1000,
-                depth: 0,
-                select: {
-                  quantity: true,
-                  isActive: true,
-                },
-              })
-
-              // Calculate total stock from active mappings using centralized function
-              const totalStock = calculateTotalStock(productMappings.docs)
-
-              // Only update if totalStock has changed to avoid unnecessary updates
-              const currentProduct = await req.payload.findByID({
-                collection: 'products',
-                id: productId,
-                select: {
-                  totalStock: true,
-                },
-              })
-
-              if (currentProduct.totalStock !== totalStock) {
-                await req.payload.update({
-                  collection: 'products',
-                  id: productId,
-                  data: { totalStock },
-                  overrideAccess: true,
-                })
-              }
-            },
+            () => refreshProductTotalStock(req.payload, productId),
             500,
           ) // 500ms delay
         } catch (error) {
@@ -0,0 +1,92 @@
+import type { CollectionConfig } from 'payload'
+
+export const REJECTION_REASON_OPTIONS = [
+  { label: 'Honeypot field filled', value: 'honeypot' },
+  { label: 'Missing form token', value: 'missing_token' },
+  { label: 'Invalid form token', value: 'invalid_token' },
+  { label: 'Submitted too fast', value: 'too_fast' },
+  { label: 'Form token expired', value: 'expired' },
+  { label: 'Proof of work missing or wrong', value: 'proof_of_work' },
+  { label: 'Form token posted twice', value: 'replayed' },
+]
+
+/**
+ * Checkout and contact submissions the website's bot checks turned away.
+ * Kept so staff can spot real customers caught by mistake.
+ */
+const RejectedSubmissions: CollectionConfig = {
+  slug: 'rejected-submissions',
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['createdAt', 'form', 'reason', 'email', 'ip', 'reviewed'],
+    description:
+      'Form posts rejected as likely bots. Mark real customers as reviewed after contacting them.',
+  },
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'form',
+          type: 'select',
+          required: true,
+          options: [
+            { label: 'Checkout', value: 'checkout' },
+            { label: 'Contact', value: 'contact' },
+          ],
+        },
+        {
+          name: 'reason',
+          type: 'select',
+          required: true,
+          options: REJECTION_REASON_OPTIONS,
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+        },
+        {
+          name: 'email',
+          type: 'text',
+        },
+        {
+          name: 'phone',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'ip',
+      type: 'text',
+      index: true,
+    },
+    {
+      name: 'userAgent',
+      type: 'text',
+    },
+    {
+      name: 'submission',
+      type: 'json',
+      admin: {
+        description: 'The submitted fields, for following up with the customer',
+      },
+    },
+    {
+      name: 'reviewed',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+  timestamps: true,
+}
+
+export default RejectedSubmissions
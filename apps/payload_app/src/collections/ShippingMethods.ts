@@ -0,0 +1,91 @@
+import type { CollectionConfig } from 'payload'
+
+export const SHIPPING_ADDRESS_FIELD_OPTIONS = [
+  { label: 'Street address (住址)', value: 'address' },
+  { label: 'Store name (門市名稱)', value: 'storeName' },
+  { label: 'Store number (門市店號)', value: 'storeCode' },
+]
+
+/**
+ * Delivery options offered at checkout.
+ * The checkout API reads fee and free-shipping threshold from here, never from the client.
+ */
+const ShippingMethods: CollectionConfig = {
+  slug: 'shipping-methods',
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'fee', 'freeShippingThreshold', 'supportsCod', 'active'],
+  },
+  access: {
+    read: () => true, // Allow public read access for frontend
+  },
+  defaultSort: 'sortOrder',
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+      admin: {
+        description: 'Shown to customers, e.g. 7-11 取貨, 全家取貨, 黑貓宅配',
+      },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+    },
+    {
+      name: 'fee',
+      type: 'number',
+      required: true,
+      min: 0,
+      defaultValue: 0,
+    },
+    {
+      name: 'freeShippingThreshold',
+      type: 'number',
+      min: 0,
+      admin: {
+        description:
+          'Orders whose item subtotal reaches this amount ship free. Leave empty to always charge the fee.',
+      },
+    },
+    {
+      name: 'supportsCod',
+      label: 'Supports cash on delivery',
+      type: 'checkbox',
+      defaultValue: true,
+    },
+    {
+      name: 'requiredAddressFields',
+      type: 'select',
+      hasMany: true,
+      required: true,
+      defaultValue: ['address'],
+      options: SHIPPING_ADDRESS_FIELD_OPTIONS,
+      admin: {
+        description: 'What the customer must fill in at checkout for this method',
+      },
+    },
+    {
+      name: 'active',
+      type: 'checkbox',
+      defaultValue: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Inactive methods are hidden from checkout',
+      },
+    },
+    {
+      name: 'sortOrder',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        position: 'sidebar',
+        description: 'Lower numbers are listed first',
+      },
+    },
+  ],
+  timestamps: true,
+}
+
+export default ShippingMethods
@@ -0,0 +1,157 @@
+import type { CollectionConfig } from 'payload'
+import { APIError } from 'payload'
+import { sellsBeyondStock } from '../utils/inventoryPolicy'
+import { applyLotQuantityChange, expiringLotsEndpoint, isLotTracked } from '../utils/stockLots'
+import type { StockMovementReason } from '../utils/stockMovements'
+
+/**
+ * Batches of a variant's stock, each with its own lot number and expiry date.
+ * Orders draw from the earliest expiry first; see utils/stockLots.
+ */
+const StockLots: CollectionConfig = {
+  slug: 'stock-lots',
+  admin: {
+    useAsTitle: 'lotNumber',
+    defaultColumns: ['lotNumber', 'mapping', 'expiryDate', 'quantity', 'writtenOff'],
+    description:
+      "Once a variant has lots, its stock is the sum of its unexpired lots and is changed here. A variant's first lot can only be entered once its own quantity is 0.",
+    group: 'Product Management',
+    components: {
+      beforeListTable: ['/components/ExpiringLotsReport#ExpiringLotsReport'],
+    },
+  },
+  defaultSort: 'expiryDate',
+  endpoints: [expiringLotsEndpoint],
+  fields: [
+    {
+      name: 'mapping',
+      type: 'relationship',
+      relationTo: 'product-variant-mappings',
+      required: true,
+      index: true,
+      label: 'Variant',
+      admin: {
+        description: 'Cannot be changed after creation',
+      },
+      access: {
+        update: ({ doc }) => !Boolean(doc?.id),
+      },
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'lotNumber',
+          type: 'text',
+          required: true,
+          label: 'Lot number',
+        },
+        {
+          name: 'expiryDate',
+          type: 'date',
+          required: true,
+          index: true,
+          admin: {
+            date: { pickerAppearance: 'dayOnly' },
+          },
+        },
+        {
+          name: 'quantity',
+          type: 'number',
+          required: true,
+          defaultValue: 0,
+          min: 0,
+          admin: {
+            description: 'Units of this lot still in stock',
+          },
+        },
+      ],
+    },
+    {
+      name: 'writtenOff',
+      type: 'checkbox',
+      defaultValue: false,
+      label: 'Expired and written off',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description:
+          'Set automatically once the lot expires; its units no longer count as sellable stock',
+      },
+    },
+  ],
+  indexes: [
+    {
+      fields: ['mapping', 'lotNumber'],
+      unique: true,
+    },
+  ],
+  hooks: {
+    beforeChange: [
+      async ({ data, operation, req }) => {
+        if (operation !== 'create' || !data.mapping) return data
+        const mapping = await req.payload.findByID({
+          collection: 'product-variant-mappings',
+          id: typeof data.mapping === 'object' ? data.mapping.id : data.mapping,
+          depth: 0,
+          select: { inventoryPolicy: true, quantity: true },
+          req,
+        })
+        if (sellsBeyondStock(mapping)) {
+          throw new APIError(
+            'Set the variant to stop selling at 0 before tracking it in lots.',
+            400,
+            undefined,
+            true,
+          )
+        }
+        // The first lot's quantity is added to the variant's; stock outside any lot
+        // would be counted as sellable but could never be allocated to an order
+        if (Number(mapping.quantity || 0) !== 0 && !(await isLotTracked(req, mapping.id))) {
+          throw new APIError(
+            `Set the variant's quantity to 0 before entering its first lot (it is ${mapping.quantity}). Enter the units on hand as lots instead.`,
+            400,
+            undefined,
+            true,
+          )
+        }
+        return data
+      },
+      // A corrected expiry date brings a written-off lot back into stock
+      async ({ data, originalDoc, context }) => {
+        if (
+          originalDoc?.writtenOff &&
+          context.stockChangeReason !== 'expired' &&
+          data.expiryDate &&
+          new Date(data.expiryDate).getTime() > Date.now()
+        ) {
+          data.writtenOff = false
+        }
+        return data
+      },
+    ],
+    afterChange: [
+      async ({ doc, previousDoc, operation, context, req }) => {
+        await applyLotQuantityChange(req, doc, operation === 'update' ? previousDoc : null, {
+          reason:
+            (context.stockChangeReason as StockMovementReason | undefined) ||
+            (operation === 'create' ? 'receiving' : 'stocktake'),
+          note: `Lot ${doc.lotNumber}`,
+        })
+      },
+    ],
+    afterDelete: [
+      async ({ doc, req }) => {
+        // The lot is gone, so the ledger row only names it
+        await applyLotQuantityChange(req, { ...doc, quantity: 0 }, doc, {
+          reason: 'manual_adjustment',
+          note: `Lot ${doc.lotNumber} deleted`,
+          linkLot: false,
+        })
+      },
+    ],
+  },
+  timestamps: true,
+}
+
+export default StockLots
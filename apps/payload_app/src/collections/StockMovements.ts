@@ -0,0 +1,92 @@
+import type { CollectionConfig } from 'payload'
+import { STOCK_MOVEMENT_REASON_OPTIONS } from '../utils/stockMovements'
+import { checkLowStockCrossing } from '../utils/lowStock'
+import { checkBackInStock } from '../utils/backInStock'
+
+/**
+ * Append-only ledger of variant mapping quantity changes.
+ * Written by utils/stockMovements from every path that changes stock; nobody edits it.
+ */
+const StockMovements: CollectionConfig = {
+  slug: 'stock-movements',
+  admin: {
+    defaultColumns: ['createdAt', 'mapping', 'delta', 'quantityAfter', 'reason', 'order', 'user'],
+    description: 'Every stock change, newest first. Rows are written automatically.',
+    group: 'Product Management',
+  },
+  access: {
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  defaultSort: '-createdAt',
+  fields: [
+    {
+      name: 'mapping',
+      type: 'relationship',
+      relationTo: 'product-variant-mappings',
+      required: true,
+      index: true,
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'delta',
+          type: 'number',
+          required: true,
+          label: 'Change',
+        },
+        {
+          name: 'quantityAfter',
+          type: 'number',
+          required: true,
+          label: 'Resulting quantity',
+        },
+        {
+          name: 'reason',
+          type: 'select',
+          required: true,
+          options: STOCK_MOVEMENT_REASON_OPTIONS,
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'lot',
+          type: 'relationship',
+          relationTo: 'stock-lots',
+        },
+        {
+          name: 'order',
+          type: 'relationship',
+          relationTo: 'orders',
+        },
+        {
+          name: 'user',
+          type: 'relationship',
+          relationTo: 'users',
+          label: 'Changed by',
+        },
+      ],
+    },
+    {
+      name: 'note',
+      type: 'text',
+    },
+  ],
+  hooks: {
+    afterChange: [
+      async ({ doc, operation, req }) => {
+        if (operation !== 'create') return
+        await checkLowStockCrossing(req, doc)
+        await checkBackInStock(req, doc)
+      },
+    ],
+  },
+  timestamps: true,
+}
+
+export default StockMovements
@@ -0,0 +1,75 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Button, useConfig } from '@payloadcms/ui'
+import type { BackInStockDemand as Demand } from '../utils/backInStock'
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  borderBottom: '1px solid var(--theme-elevation-100)',
+  textAlign: 'left',
+}
+
+/**
+ * Back-in-stock subscribers per variant, most waiting first, above the subscriptions list
+ */
+export const BackInStockDemand: React.FC = () => {
+  const { config } = useConfig()
+  const [demand, setDemand] = useState<Demand[] | null>(null)
+  const [open, setOpen] = useState(false)
+  const apiUrl = `${config.serverURL}${config.routes.api}/back-in-stock-subscriptions/demand`
+
+  useEffect(() => {
+    fetch(apiUrl, { credentials: 'include' })
+      .then((response) => response.json())
+      .then((result) => setDemand(result.docs || []))
+      .catch(() => setDemand([]))
+  }, [apiUrl])
+
+  if (!demand || demand.length === 0) return null
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <Button
+        buttonStyle="secondary"
+        size="small"
+        margin={false}
+        onClick={() => setOpen((value) => !value)}
+      >
+        {`${open ? 'Hide' : 'Show'} demand for ${demand.length} variants`}
+      </Button>
+      {open && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '0.75rem' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>Variant</th>
+              <th style={cellStyle}>In stock</th>
+              <th style={cellStyle}>Waiting</th>
+              <th style={cellStyle}>Notified</th>
+            </tr>
+          </thead>
+          <tbody>
+            {demand.map((row) => (
+              <tr key={row.id}>
+                <td style={cellStyle}>
+                  <a href={`${config.routes.admin}/collections/product-variant-mappings/${row.id}`}>
+                    {row.displayName}
+                  </a>
+                </td>
+                <td style={cellStyle}>{row.quantity}</td>
+                <td style={cellStyle}>
+                  <a
+                    href={`${config.routes.admin}/collections/back-in-stock-subscriptions?where[mapping][equals]=${row.id}&where[status][equals]=waiting`}
+                  >
+                    {row.waiting}
+                  </a>
+                </td>
+                <td style={cellStyle}>{row.notified}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Button, useConfig } from '@payloadcms/ui'
+import type { ProductVariantMapping, StockLot } from '../payload-types'
+
+const WINDOW_OPTIONS = [30, 60, 90, 180]
+
+const DAY = 24 * 60 * 60 * 1000
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  borderBottom: '1px solid var(--theme-elevation-100)',
+  textAlign: 'left',
+}
+
+/**
+ * Lots in stock that expire within the chosen window, soonest first, above the lots list
+ */
+export const ExpiringLotsReport: React.FC = () => {
+  const { config } = useConfig()
+  const [days, setDays] = useState(90)
+  const [lots, setLots] = useState<StockLot[] | null>(null)
+  const [open, setOpen] = useState(false)
+  const apiUrl = `${config.serverURL}${config.routes.api}/stock-lots/expiring`
+
+  useEffect(() => {
+    fetch(`${apiUrl}?days=${days}`, { credentials: 'include' })
+      .then((response) => response.json())
+      .then((result) => setLots(result.docs || []))
+      .catch(() => setLots([]))
+  }, [apiUrl, days])
+
+  if (!lots) return null
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+        <Button
+          buttonStyle="secondary"
+          size="small"
+          margin={false}
+          disabled={lots.length === 0}
+          onClick={() => setOpen((value) => !value)}
+        >
+          {lots.length === 0
+            ? `No lots expiring within ${days} days`
+            : `${open ? 'Hide' : 'Show'} ${lots.length} lots expiring within ${days} days`}
+        </Button>
+        <select value={days} onChange={(event) => setDays(Number(event.target.value))}>
+          {WINDOW_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {`${option} days`}
+            </option>
+          ))}
+        </select>
+      </div>
+      {open && lots.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '0.75rem' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>Lot</th>
+              <th style={cellStyle}>Variant</th>
+              <th style={cellStyle}>Expires</th>
+              <th style={cellStyle}>Days left</th>
+              <th style={cellStyle}>In stock</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lots.map((lot) => {
+              const mapping = lot.mapping as ProductVariantMapping | string
+              return (
+                <tr key={lot.id}>
+                  <td style={cellStyle}>
+                    <a href={`${config.routes.admin}/collections/stock-lots/${lot.id}`}>
+                      {lot.lotNumber}
+                    </a>
+                  </td>
+                  <td style={cellStyle}>
+                    {typeof mapping === 'object' ? mapping.displayName || mapping.id : mapping}
+                  </td>
+                  <td style={cellStyle}>{new Date(lot.expiryDate).toLocaleDateString()}</td>
+                  <td style={cellStyle}>
+                    {Math.max(
+                      0,
+                      Math.ceil((new Date(lot.expiryDate).getTime() - Date.now()) / DAY),
+                    )}
+                  </td>
+                  <td style={cellStyle}>{lot.quantity}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
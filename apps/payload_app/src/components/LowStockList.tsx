@@ -0,0 +1,79 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Button, useConfig } from '@payloadcms/ui'
+import type { LowStockMapping } from '../utils/lowStock'
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  borderBottom: '1px solid var(--theme-elevation-100)',
+  textAlign: 'left',
+}
+
+/**
+ * Mappings at or below their low-stock threshold, fastest selling first, above the mappings list
+ */
+export const LowStockList: React.FC = () => {
+  const { config } = useConfig()
+  const [mappings, setMappings] = useState<LowStockMapping[] | null>(null)
+  const [salesDays, setSalesDays] = useState(0)
+  const [open, setOpen] = useState(false)
+  const apiUrl = `${config.serverURL}${config.routes.api}/product-variant-mappings/low-stock`
+
+  useEffect(() => {
+    fetch(apiUrl, { credentials: 'include' })
+      .then((response) => response.json())
+      .then((result) => {
+        setMappings(result.docs || [])
+        setSalesDays(result.salesDays)
+      })
+      .catch(() => setMappings([]))
+  }, [apiUrl])
+
+  if (!mappings || mappings.length === 0) return null
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <Button
+        buttonStyle="secondary"
+        size="small"
+        margin={false}
+        onClick={() => setOpen((value) => !value)}
+      >
+        {`${open ? 'Hide' : 'Show'} ${mappings.length} low-stock variants`}
+      </Button>
+      {open && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '0.75rem' }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>Variant</th>
+              <th style={cellStyle}>In stock</th>
+              <th style={cellStyle}>Threshold</th>
+              <th style={cellStyle}>{`Sold, last ${salesDays} days`}</th>
+              <th style={cellStyle}>Per day</th>
+              <th style={cellStyle}>Days left</th>
+            </tr>
+          </thead>
+          <tbody>
+            {mappings.map((mapping) => (
+              <tr key={mapping.id}>
+                <td style={cellStyle}>
+                  <a
+                    href={`${config.routes.admin}/collections/product-variant-mappings/${mapping.id}`}
+                  >
+                    {mapping.displayName}
+                  </a>
+                </td>
+                <td style={cellStyle}>{mapping.quantity}</td>
+                <td style={cellStyle}>{mapping.threshold}</td>
+                <td style={cellStyle}>{mapping.unitsSold}</td>
+                <td style={cellStyle}>{mapping.dailySales}</td>
+                <td style={cellStyle}>{mapping.daysLeft ?? '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
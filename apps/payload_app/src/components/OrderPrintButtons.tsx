@@ -0,0 +1,66 @@
+'use client'
+
+import React from 'react'
+import { Button, useConfig, useDocumentInfo } from '@payloadcms/ui'
+
+const DOCUMENTS = [
+  { kind: 'packing-slip', label: 'Packing slip' },
+  { kind: 'invoice', label: 'Invoice' },
+]
+
+const useOrdersApiUrl = () => {
+  const { config } = useConfig()
+  return `${config.serverURL}${config.routes.api}/orders`
+}
+
+/**
+ * Print buttons on a single order, next to Save
+ */
+export const PrintOrderButtons: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const ordersUrl = useOrdersApiUrl()
+  if (!id) return null
+
+  return (
+    <>
+      {DOCUMENTS.map(({ kind, label }) => (
+        <Button
+          key={kind}
+          el="anchor"
+          url={`${ordersUrl}/${id}/print?document=${kind}`}
+          newTab
+          buttonStyle="secondary"
+          size="medium"
+          margin={false}
+        >
+          {label}
+        </Button>
+      ))}
+    </>
+  )
+}
+
+/**
+ * Batch print every processing order, above the orders list
+ */
+export const PrintProcessingOrdersButtons: React.FC = () => {
+  const ordersUrl = useOrdersApiUrl()
+
+  return (
+    <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+      {DOCUMENTS.map(({ kind, label }) => (
+        <Button
+          key={kind}
+          el="anchor"
+          url={`${ordersUrl}/print?document=${kind}`}
+          newTab
+          buttonStyle="secondary"
+          size="small"
+          margin={false}
+        >
+          {`${label}s for all processing orders`}
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Button, toast, useConfig, useSelection } from '@payloadcms/ui'
+import { CARRIER_OPTIONS, type Carrier } from '../utils/carriers'
+import type { TrackingImportResult } from '../utils/shipmentCsv'
+
+/**
+ * Carrier CSV export of the selected (or filtered) orders, and tracking file import
+ */
+export const ShipmentCsvActions: React.FC = () => {
+  const { config } = useConfig()
+  const { count, getQueryParams } = useSelection()
+  const searchParams = useSearchParams()
+  const [carrier, setCarrier] = useState<Carrier>(CARRIER_OPTIONS[0].value)
+  const [importing, setImporting] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+  const baseUrl = `${config.serverURL}${config.routes.api}/orders/shipments`
+
+  // Selected rows when there are any, otherwise whatever the list is filtered to.
+  // With neither, the endpoint exports the orders in processing.
+  const isFiltered = [...searchParams.keys()].some((key) => key.startsWith('where'))
+  const query = count > 0 ? getQueryParams().slice(1) : isFiltered ? searchParams.toString() : ''
+  const exportUrl = `${baseUrl}/export?carrier=${carrier}${query ? `&${query}` : ''}`
+
+  const importFile = async (file: File) => {
+    setImporting(true)
+    try {
+      const response = await fetch(`${baseUrl}/import?carrier=${carrier}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'text/csv' },
+        body: await file.text(),
+      })
+      const result = (await response.json()) as TrackingImportResult & { error?: string }
+      if (!response.ok) {
+        toast.error(result.error || 'Import failed')
+        return
+      }
+      toast.success(
+        `Tracking numbers added to ${result.updated.length} orders` +
+          (result.notFound.length > 0 ? `. Not found: ${result.notFound.join(', ')}` : ''),
+      )
+    } catch {
+      toast.error('Import failed')
+    } finally {
+      setImporting(false)
+      if (fileInput.current) fileInput.current.value = ''
+    }
+  }
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+      <select
+        value={carrier}
+        onChange={(e) => setCarrier(e.target.value as Carrier)}
+        aria-label="Carrier"
+      >
+        {CARRIER_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <Button el="anchor" url={exportUrl} buttonStyle="secondary" size="small" margin={false}>
+        {count > 0
+          ? `Export ${count} selected`
+          : isFiltered
+            ? 'Export filtered orders'
+            : 'Export processing orders'}
+      </Button>
+      <Button
+        buttonStyle="secondary"
+        size="small"
+        margin={false}
+        disabled={importing}
+        onClick={() => fileInput.current?.click()}
+      >
+        {importing ? 'Importing...' : 'Import tracking numbers'}
+      </Button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".csv,text/csv"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) importFile(file)
+        }}
+      />
+    </div>
+  )
+}
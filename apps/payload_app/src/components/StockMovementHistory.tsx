@@ -0,0 +1,101 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useConfig, useDocumentInfo } from '@payloadcms/ui'
+import type { Order, StockMovement, User } from '../payload-types'
+import { getStockMovementReasonLabel } from '../utils/stockMovements'
+
+const HISTORY_LIMIT = 50
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  borderBottom: '1px solid var(--theme-elevation-100)',
+  textAlign: 'left',
+}
+
+/**
+ * Latest stock movements of the variant mapping being edited
+ */
+export const StockMovementHistory: React.FC = () => {
+  const { id, savedDocumentData } = useDocumentInfo()
+  const { config } = useConfig()
+  const [movements, setMovements] = useState<StockMovement[] | null>(null)
+  const [totalDocs, setTotalDocs] = useState(0)
+  const apiUrl = `${config.serverURL}${config.routes.api}`
+
+  // Reloaded after every save so a new movement shows up straight away
+  useEffect(() => {
+    if (!id) return
+    const query = `where[mapping][equals]=${id}&sort=-createdAt&limit=${HISTORY_LIMIT}&depth=1`
+    fetch(`${apiUrl}/stock-movements?${query}`, { credentials: 'include' })
+      .then((response) => response.json())
+      .then((result) => {
+        setMovements(result.docs || [])
+        setTotalDocs(result.totalDocs || 0)
+      })
+      .catch(() => setMovements([]))
+  }, [id, apiUrl, savedDocumentData])
+
+  if (!id) return null
+
+  return (
+    <div className="field-type" style={{ marginBottom: '1.5rem' }}>
+      <label className="field-label">Stock history</label>
+      {!movements ? (
+        <p>Loading...</p>
+      ) : movements.length === 0 ? (
+        <p>No stock movements yet.</p>
+      ) : (
+        <>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Date</th>
+                <th style={cellStyle}>Change</th>
+                <th style={cellStyle}>Quantity</th>
+                <th style={cellStyle}>Reason</th>
+                <th style={cellStyle}>Order</th>
+                <th style={cellStyle}>By</th>
+                <th style={cellStyle}>Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((movement) => {
+                const order = movement.order as Order | null | undefined
+                const user = movement.user as User | null | undefined
+                return (
+                  <tr key={movement.id}>
+                    <td style={cellStyle}>{new Date(movement.createdAt).toLocaleString()}</td>
+                    <td style={cellStyle}>
+                      {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                    </td>
+                    <td style={cellStyle}>{movement.quantityAfter}</td>
+                    <td style={cellStyle}>{getStockMovementReasonLabel(movement.reason)}</td>
+                    <td style={cellStyle}>
+                      {order && typeof order === 'object' ? (
+                        <a href={`${config.routes.admin}/collections/orders/${order.id}`}>
+                          {order.orderNumber || order.id}
+                        </a>
+                      ) : null}
+                    </td>
+                    <td style={cellStyle}>{user && typeof user === 'object' ? user.email : ''}</td>
+                    <td style={cellStyle}>{movement.note}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          {totalDocs > movements.length && (
+            <p>
+              <a
+                href={`${config.routes.admin}/collections/stock-movements?where[mapping][equals]=${id}`}
+              >
+                {`All ${totalDocs} movements`}
+              </a>
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,2 +1,11 @@
 export { default as config } from './payload.config'
-export * from './payload-types'
\ No newline at end of file
+export * from './payload-types'
+export * from './utils/stockReservation'
+export * from './utils/orderNumber'
+export * from './utils/idempotencyKeys'
+export * from './utils/couponUsage'
+export * from './utils/carriers'
+export * from './utils/orderNotifications'
+export * from './utils/abandonedCheckouts'
+export * from './utils/lowStock'
+export * from './utils/inventoryPolicy'
@@ -74,12 +74,22 @@ export interface Config {
     brands: Brand;
     products: Product;
     orders: Order;
+    'order-sequences': OrderSequence;
+    'shipping-methods': ShippingMethod;
+    coupons: Coupon;
+    'rejected-submissions': RejectedSubmission;
+    'abandoned-checkouts': AbandonedCheckout;
+    carts: Cart;
     'blog-tags': BlogTag;
     'blog-categories': BlogCategory;
     blogs: Blog;
     'hero-slides': HeroSlide;
     'product-variants': ProductVariant;
     'product-variant-mappings': ProductVariantMapping;
+    'stock-movements': StockMovement;
+    'stock-lots': StockLot;
+    'back-in-stock-subscriptions': BackInStockSubscription;
+    'payload-jobs': PayloadJob;
     'payload-locked-documents': PayloadLockedDocument;
     'payload-preferences': PayloadPreference;
     'payload-migrations': PayloadMigration;
@@ -93,12 +103,22 @@ export interface Config {
     brands: BrandsSelect<false> | BrandsSelect<true>;
     products: ProductsSelect<false> | ProductsSelect<true>;
     orders: OrdersSelect<false> | OrdersSelect<true>;
+    'order-sequences': OrderSequencesSelect<false> | OrderSequencesSelect<true>;
+    'shipping-methods': ShippingMethodsSelect<false> | ShippingMethodsSelect<true>;
+    coupons: CouponsSelect<false> | CouponsSelect<true>;
+    'rejected-submissions': RejectedSubmissionsSelect<false> | RejectedSubmissionsSelect<true>;
+    'abandoned-checkouts': AbandonedCheckoutsSelect<false> | AbandonedCheckoutsSelect<true>;
+    carts: CartsSelect<false> | CartsSelect<true>;
     'blog-tags': BlogTagsSelect<false> | BlogTagsSelect<true>;
     'blog-categories': BlogCategoriesSelect<false> | BlogCategoriesSelect<true>;
     blogs: BlogsSelect<false> | BlogsSelect<true>;
     'hero-slides': HeroSlidesSelect<false> | HeroSlidesSelect<true>;
     'product-variants': ProductVariantsSelect<false> | ProductVariantsSelect<true>;
     'product-variant-mappings': ProductVariantMappingsSelect<false> | ProductVariantMappingsSelect<true>;
+    'stock-movements': StockMovementsSelect<false> | StockMovementsSelect<true>;
+    'stock-lots': StockLotsSelect<false> | StockLotsSelect<true>;
+    'back-in-stock-subscriptions': BackInStockSubscriptionsSelect<false> | BackInStockSubscriptionsSelect<true>;
+    'payload-jobs': PayloadJobsSelect<false> | PayloadJobsSelect<true>;
     'payload-locked-documents': PayloadLockedDocumentsSelect<false> | PayloadLockedDocumentsSelect<true>;
     'payload-preferences': PayloadPreferencesSelect<false> | PayloadPreferencesSelect<true>;
     'payload-migrations': PayloadMigrationsSelect<false> | PayloadMigrationsSelect<true>;
@@ -106,14 +126,29 @@ export interface Config {
   db: {
     defaultIDType: string;
   };
-  globals: {};
-  globalsSelect: {};
+  globals: {
+    'payload-jobs-stats': PayloadJobsStat;
+  };
+  globalsSelect: {
+    'payload-jobs-stats': PayloadJobsStatsSelect<false> | PayloadJobsStatsSelect<true>;
+  };
   locale: null;
   user: User & {
     collection: 'users';
   };
   jobs: {
-    tasks: unknown;
+    tasks: {
+      sendAbandonedCheckoutReminders: TaskSendAbandonedCheckoutReminders;
+      sendLowStockAlert: TaskSendLowStockAlert;
+      sendLowStockDigest: TaskSendLowStockDigest;
+      writeOffExpiredLots: TaskWriteOffExpiredLots;
+      sendBackInStockNotifications: TaskSendBackInStockNotifications;
+      cancelUnpaidOrders: TaskCancelUnpaidOrders;
+      inline: {
+        input: unknown;
+        output: unknown;
+      };
+    };
     workflows: unknown;
   };
 }
@@ -321,13 +356,48 @@ export interface ProductVariantMapping {
    */
   variant: string | ProductVariant;
   /**
-   * Available stock for this variant on this product
+   * Available stock for this variant on this product. For variants with stock lots, the sum of their unexpired lots. Below 0 when backorders or preorders are waiting for stock.
    */
   quantity: number;
+  inventoryPolicy: 'deny' | 'backorder' | 'preorder';
+  /**
+   * Orders stop once this many units are waiting for stock
+   */
+  backorderLimit?: number | null;
+  /**
+   * Shown to customers on the product page
+   */
+  preorderShipDate?: string | null;
+  /**
+   * Recorded in the stock history with the next quantity change
+   */
+  stockChangeReason?: ('manual_adjustment' | 'receiving' | 'stocktake') | null;
+  /**
+   * e.g. supplier invoice number or why the count was off
+   */
+  stockChangeNote?: string | null;
+  /**
+   * Alert the admin when stock falls to this or below. Empty uses the store default (LOW_STOCK_THRESHOLD, 5 unless set).
+   */
+  lowStockThreshold?: number | null;
+  /**
+   * Cleared once stock is back above the threshold, so the next drop alerts again
+   */
+  lowStockAlertedAt?: string | null;
   /**
    * Override the base variant price for this product
    */
   priceOverride?: number | null;
+  /**
+   * Discount per unit once the customer buys at least this many, e.g. 3 → 10% off, 6 → 15% off. Below the first break the full price applies.
+   */
+  priceTiers?:
+    | {
+        minQuantity: number;
+        discountPercent: number;
+        id?: string | null;
+      }[]
+    | null;
   /**
    * This variant will be auto-selected for this product
    */
@@ -384,10 +454,47 @@ export interface ProductVariant {
  */
 export interface Order {
   id: string;
+  /**
+   * Assigned automatically when the order is created, e.g. PR-20261019-00042
+   */
+  orderNumber?: string | null;
   name: string;
+  /**
+   * Stored in lower case
+   */
   email: string;
+  /**
+   * Normalised at checkout, e.g. 0912-345-678 or 02-2345-6789
+   */
   phone: string;
+  /**
+   * Delivery address, or the pickup store for convenience store methods
+   */
   address: string;
+  /**
+   * Structured address for home delivery; empty for store pickup
+   */
+  deliveryAddress?: {
+    postalCode?: string | null;
+    city?: string | null;
+    district?: string | null;
+    street?: string | null;
+  };
+  shipping?: {
+    method?: (string | null) | ShippingMethod;
+    /**
+     * Method name at the time of the order
+     */
+    methodName?: string | null;
+    storeName?: string | null;
+    storeCode?: string | null;
+    carrier?: ('tcat' | 'seven_eleven' | 'family_mart') | null;
+    /**
+     * Shown to the customer and emailed when the order is shipped
+     */
+    trackingNumber?: string | null;
+    fee?: number | null;
+  };
   cartItems: {
     product: string | Product;
     quantity: number;
@@ -397,18 +504,367 @@ export interface Order {
       name?: string | null;
       sku?: string | null;
     };
+    /**
+     * Units sold beyond stock; hold the line until they arrive, then set this to 0
+     */
+    backorderedQuantity?: number | null;
+    expectedShipDate?: string | null;
+    /**
+     * Stock lots this line was filled from, earliest expiry first
+     */
+    lots?:
+      | {
+          lot?: (string | null) | StockLot;
+          /**
+           * Kept if the lot is later deleted
+           */
+          lotNumber: string;
+          expiryDate: string;
+          quantity: number;
+          id?: string | null;
+        }[]
+      | null;
     id?: string | null;
   }[];
   /**
-   * Total order amount calculated from cart items
+   * Sum of cart items, before discount and shipping
+   */
+  subtotal?: number | null;
+  discount?: {
+    coupon?: (string | null) | Coupon;
+    /**
+     * Code as redeemed, kept if the coupon is later deleted
+     */
+    code?: string | null;
+    amount?: number | null;
+  };
+  /**
+   * Amount charged: subtotal minus discount, plus shipping fee
    */
   totalAmount: number;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  /**
+   * Cash on delivery: Pending → Processing → Shipped → Delivered. Card: Awaiting payment → Paid → Processing → … Orders can be cancelled until shipped, which restocks their items.
+   */
+  status: 'awaiting_payment' | 'paid' | 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  /**
+   * Some lines were sold beyond stock. Hold them until stock arrives; filter the list by this to find them.
+   */
+  hasBackorders?: boolean | null;
+  /**
+   * Recorded in the status history with the next status change, then cleared
+   */
+  statusChangeReason?: string | null;
+  /**
+   * Every status change, oldest first. Written automatically.
+   */
+  statusHistory?:
+    | {
+        fromStatus?:
+          | ('awaiting_payment' | 'paid' | 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled')
+          | null;
+        toStatus: 'awaiting_payment' | 'paid' | 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+        changedAt: string;
+        /**
+         * Empty when the change was made by the system (e.g. checkout)
+         */
+        changedBy?: (string | null) | User;
+        reason?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  payment: {
+    method: 'cod' | 'card';
+    /**
+     * Our reference for the successful gateway attempt
+     */
+    merchantTradeNo?: string | null;
+    /**
+     * The gateway's trade number
+     */
+    transactionId?: string | null;
+    /**
+     * As reported by the gateway, e.g. Credit_CreditCard
+     */
+    paymentType?: string | null;
+  };
+  /**
+   * Taiwan e-invoice (電子發票) details chosen at checkout
+   */
+  invoice: {
+    type: 'personal' | 'mobile_carrier' | 'citizen_carrier' | 'donation' | 'company';
+    /**
+     * Mobile barcode (/ABC+123) or citizen certificate number (AB12345678901234)
+     */
+    carrierCode?: string | null;
+    /**
+     * 愛心碼 of the receiving charity
+     */
+    donationCode?: string | null;
+    taxId?: string | null;
+    companyName?: string | null;
+    invoiceNumber?: string | null;
+    randomCode?: string | null;
+    issuedAt?: string | null;
+    /**
+     * Why the last issue attempt failed. Saving the order tries again.
+     */
+    issueError?: string | null;
+  };
+  paidAt?: string | null;
+  shippedAt?: string | null;
+  deliveredAt?: string | null;
+  cancelledAt?: string | null;
   orderDate: string;
+  /**
+   * Sent by the checkout form so retried submissions return this order instead of creating a new one
+   */
+  idempotencyKey?: string | null;
+  idempotencyKeyExpiresAt?: string | null;
+  /**
+   * Set when the customer placed this order from an abandoned checkout reminder
+   */
+  recoveredFrom?: (string | null) | AbandonedCheckout;
   note?: string | null;
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "shipping-methods".
+ */
+export interface ShippingMethod {
+  id: string;
+  /**
+   * Shown to customers, e.g. 7-11 取貨, 全家取貨, 黑貓宅配
+   */
+  name: string;
+  description?: string | null;
+  fee: number;
+  /**
+   * Orders whose item subtotal reaches this amount ship free. Leave empty to always charge the fee.
+   */
+  freeShippingThreshold?: number | null;
+  supportsCod?: boolean | null;
+  /**
+   * What the customer must fill in at checkout for this method
+   */
+  requiredAddressFields: ('address' | 'storeName' | 'storeCode')[];
+  /**
+   * Inactive methods are hidden from checkout
+   */
+  active?: boolean | null;
+  /**
+   * Lower numbers are listed first
+   */
+  sortOrder?: number | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Once a variant has lots, its stock is the sum of its unexpired lots and is changed here. A variant's first lot can only be entered once its own quantity is 0.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-lots".
+ */
+export interface StockLot {
+  id: string;
+  /**
+   * Cannot be changed after creation
+   */
+  mapping: string | ProductVariantMapping;
+  lotNumber: string;
+  expiryDate: string;
+  /**
+   * Units of this lot still in stock
+   */
+  quantity: number;
+  /**
+   * Set automatically once the lot expires; its units no longer count as sellable stock
+   */
+  writtenOff?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "coupons".
+ */
+export interface Coupon {
+  id: string;
+  /**
+   * What customers type at checkout. Stored in upper case.
+   */
+  code: string;
+  description?: string | null;
+  discountType: 'percentage' | 'fixed';
+  /**
+   * Percent (10 = 10% off) or NT$ amount off
+   */
+  amount: number;
+  /**
+   * Cart subtotal (before discount and shipping) needed to use the code
+   */
+  minimumSpend?: number | null;
+  /**
+   * Limit the discount to matching products. Leave all empty to discount the whole cart.
+   */
+  appliesTo?: {
+    products?: (string | Product)[] | null;
+    categories?: (string | ProductCategory)[] | null;
+    brands?: (string | Brand)[] | null;
+  };
+  /**
+   * Total uses across all customers. Empty for unlimited.
+   */
+  usageLimit?: number | null;
+  /**
+   * Uses per customer email. Empty for unlimited.
+   */
+  usageLimitPerCustomer?: number | null;
+  /**
+   * Orders currently using this code. Cancelled orders give their use back.
+   */
+  timesUsed?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  active?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Checkouts left unfinished by customers who asked for a reminder. Filter by status to see how many reminders turned into orders.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "abandoned-checkouts".
+ */
+export interface AbandonedCheckout {
+  id: string;
+  email: string;
+  name?: string | null;
+  phone?: string | null;
+  status: 'open' | 'reminded' | 'recovered' | 'completed' | 'expired';
+  /**
+   * Product, variant and quantity of each line in the customer's cart. Titles and prices are read from the catalogue.
+   */
+  cartItems:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  cartTotal?: number | null;
+  /**
+   * Other checkout fields filled in so far, such as the shipping method
+   */
+  form?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * When the customer ticked the reminder box
+   */
+  consentedAt: string;
+  lastActivityAt: string;
+  reminderSentAt?: string | null;
+  /**
+   * When the reminder link was first opened
+   */
+  restoredAt?: string | null;
+  order?: (string | null) | Order;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "order-sequences".
+ */
+export interface OrderSequence {
+  id: string;
+  /**
+   * Order date in YYYYMMDD (Asia/Taipei)
+   */
+  date: string;
+  /**
+   * Last sequence number handed out for this date
+   */
+  value: number;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Form posts rejected as likely bots. Mark real customers as reviewed after contacting them.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "rejected-submissions".
+ */
+export interface RejectedSubmission {
+  id: string;
+  form: 'checkout' | 'contact';
+  reason: 'honeypot' | 'missing_token' | 'invalid_token' | 'too_fast' | 'expired' | 'proof_of_work' | 'replayed';
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  /**
+   * The submitted fields, for following up with the customer
+   */
+  submission?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  reviewed?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Build a cart for a customer and send them its link. Opening the link fills their cart with these items.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "carts".
+ */
+export interface Cart {
+  id: string;
+  /**
+   * For staff only, e.g. the customer or campaign this cart is for
+   */
+  title?: string | null;
+  kind: 'customer' | 'shared';
+  /**
+   * Generated on save. Anyone with the link can open the cart.
+   */
+  token?: string | null;
+  /**
+   * Send this link to the customer
+   */
+  shareUrl?: string | null;
+  items?:
+    | {
+        product: string | Product;
+        /**
+         * Required when the product has variants; pick one of the product's
+         */
+        variant?: (string | null) | ProductVariantMapping;
+        quantity: number;
+        id?: string | null;
+      }[]
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "blog-tags".
@@ -493,6 +949,160 @@ export interface HeroSlide {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Every stock change, newest first. Rows are written automatically.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-movements".
+ */
+export interface StockMovement {
+  id: string;
+  mapping: string | ProductVariantMapping;
+  delta: number;
+  quantityAfter: number;
+  reason: 'sale' | 'cancel_restock' | 'order_edit' | 'manual_adjustment' | 'receiving' | 'stocktake' | 'expired';
+  lot?: (string | null) | StockLot;
+  order?: (string | null) | Order;
+  user?: (string | null) | User;
+  note?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Customers who asked to be emailed when a sold-out variant is restocked. The counts above show demand per variant.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "back-in-stock-subscriptions".
+ */
+export interface BackInStockSubscription {
+  id: string;
+  email: string;
+  mapping: string | ProductVariantMapping;
+  status: 'waiting' | 'notified' | 'unsubscribed';
+  unsubscribeToken?: string | null;
+  notifiedAt?: string | null;
+  unsubscribedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs".
+ */
+export interface PayloadJob {
+  id: string;
+  /**
+   * Input data provided to the job
+   */
+  input?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  taskStatus?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  completedAt?: string | null;
+  totalTried?: number | null;
+  /**
+   * If hasError is true this job will not be retried
+   */
+  hasError?: boolean | null;
+  /**
+   * If hasError is true, this is the error that caused it
+   */
+  error?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Task execution log
+   */
+  log?:
+    | {
+        executedAt: string;
+        completedAt: string;
+        taskSlug:
+          | 'inline'
+          | 'sendAbandonedCheckoutReminders'
+          | 'sendLowStockAlert'
+          | 'sendLowStockDigest'
+          | 'writeOffExpiredLots'
+          | 'sendBackInStockNotifications'
+          | 'cancelUnpaidOrders';
+        taskID: string;
+        input?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        output?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        state: 'failed' | 'succeeded';
+        error?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        id?: string | null;
+      }[]
+    | null;
+  taskSlug?:
+    | (
+        | 'inline'
+        | 'sendAbandonedCheckoutReminders'
+        | 'sendLowStockAlert'
+        | 'sendLowStockDigest'
+        | 'writeOffExpiredLots'
+        | 'sendBackInStockNotifications'
+        | 'cancelUnpaidOrders'
+      )
+    | null;
+  queue?: string | null;
+  waitUntil?: string | null;
+  processing?: boolean | null;
+  meta?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents".
@@ -528,6 +1138,30 @@ export interface PayloadLockedDocument {
         relationTo: 'orders';
         value: string | Order;
       } | null)
+    | ({
+        relationTo: 'order-sequences';
+        value: string | OrderSequence;
+      } | null)
+    | ({
+        relationTo: 'shipping-methods';
+        value: string | ShippingMethod;
+      } | null)
+    | ({
+        relationTo: 'coupons';
+        value: string | Coupon;
+      } | null)
+    | ({
+        relationTo: 'rejected-submissions';
+        value: string | RejectedSubmission;
+      } | null)
+    | ({
+        relationTo: 'abandoned-checkouts';
+        value: string | AbandonedCheckout;
+      } | null)
+    | ({
+        relationTo: 'carts';
+        value: string | Cart;
+      } | null)
     | ({
         relationTo: 'blog-tags';
         value: string | BlogTag;
@@ -551,6 +1185,22 @@ export interface PayloadLockedDocument {
     | ({
         relationTo: 'product-variant-mappings';
         value: string | ProductVariantMapping;
+      } | null)
+    | ({
+        relationTo: 'stock-movements';
+        value: string | StockMovement;
+      } | null)
+    | ({
+        relationTo: 'stock-lots';
+        value: string | StockLot;
+      } | null)
+    | ({
+        relationTo: 'back-in-stock-subscriptions';
+        value: string | BackInStockSubscription;
+      } | null)
+    | ({
+        relationTo: 'payload-jobs';
+        value: string | PayloadJob;
       } | null);
   globalSlug?: string | null;
   user: {
@@ -715,10 +1365,30 @@ export interface ProductsSelect<T extends boolean = true> {
  * via the `definition` "orders_select".
  */
 export interface OrdersSelect<T extends boolean = true> {
+  orderNumber?: T;
   name?: T;
   email?: T;
   phone?: T;
   address?: T;
+  deliveryAddress?:
+    | T
+    | {
+        postalCode?: T;
+        city?: T;
+        district?: T;
+        street?: T;
+      };
+  shipping?:
+    | T
+    | {
+        method?: T;
+        methodName?: T;
+        storeName?: T;
+        storeCode?: T;
+        carrier?: T;
+        trackingNumber?: T;
+        fee?: T;
+      };
   cartItems?:
     | T
     | {
@@ -732,15 +1402,183 @@ export interface OrdersSelect<T extends boolean = true> {
               name?: T;
               sku?: T;
             };
+        backorderedQuantity?: T;
+        expectedShipDate?: T;
+        lots?:
+          | T
+          | {
+              lot?: T;
+              lotNumber?: T;
+              expiryDate?: T;
+              quantity?: T;
+              id?: T;
+            };
         id?: T;
       };
+  subtotal?: T;
+  discount?:
+    | T
+    | {
+        coupon?: T;
+        code?: T;
+        amount?: T;
+      };
   totalAmount?: T;
   status?: T;
+  hasBackorders?: T;
+  statusChangeReason?: T;
+  statusHistory?:
+    | T
+    | {
+        fromStatus?: T;
+        toStatus?: T;
+        changedAt?: T;
+        changedBy?: T;
+        reason?: T;
+        id?: T;
+      };
+  payment?:
+    | T
+    | {
+        method?: T;
+        merchantTradeNo?: T;
+        transactionId?: T;
+        paymentType?: T;
+      };
+  invoice?:
+    | T
+    | {
+        type?: T;
+        carrierCode?: T;
+        donationCode?: T;
+        taxId?: T;
+        companyName?: T;
+        invoiceNumber?: T;
+        randomCode?: T;
+        issuedAt?: T;
+        issueError?: T;
+      };
+  paidAt?: T;
+  shippedAt?: T;
+  deliveredAt?: T;
+  cancelledAt?: T;
   orderDate?: T;
+  idempotencyKey?: T;
+  idempotencyKeyExpiresAt?: T;
+  recoveredFrom?: T;
   note?: T;
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "order-sequences_select".
+ */
+export interface OrderSequencesSelect<T extends boolean = true> {
+  date?: T;
+  value?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "shipping-methods_select".
+ */
+export interface ShippingMethodsSelect<T extends boolean = true> {
+  name?: T;
+  description?: T;
+  fee?: T;
+  freeShippingThreshold?: T;
+  supportsCod?: T;
+  requiredAddressFields?: T;
+  active?: T;
+  sortOrder?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "coupons_select".
+ */
+export interface CouponsSelect<T extends boolean = true> {
+  code?: T;
+  description?: T;
+  discountType?: T;
+  amount?: T;
+  minimumSpend?: T;
+  appliesTo?:
+    | T
+    | {
+        products?: T;
+        categories?: T;
+        brands?: T;
+      };
+  usageLimit?: T;
+  usageLimitPerCustomer?: T;
+  timesUsed?: T;
+  startsAt?: T;
+  endsAt?: T;
+  active?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "rejected-submissions_select".
+ */
+export interface RejectedSubmissionsSelect<T extends boolean = true> {
+  form?: T;
+  reason?: T;
+  name?: T;
+  email?: T;
+  phone?: T;
+  ip?: T;
+  userAgent?: T;
+  submission?: T;
+  reviewed?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "abandoned-checkouts_select".
+ */
+export interface AbandonedCheckoutsSelect<T extends boolean = true> {
+  email?: T;
+  name?: T;
+  phone?: T;
+  status?: T;
+  cartItems?: T;
+  cartTotal?: T;
+  form?: T;
+  consentedAt?: T;
+  lastActivityAt?: T;
+  reminderSentAt?: T;
+  restoredAt?: T;
+  order?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "carts_select".
+ */
+export interface CartsSelect<T extends boolean = true> {
+  title?: T;
+  kind?: T;
+  token?: T;
+  shareUrl?: T;
+  items?:
+    | T
+    | {
+        product?: T;
+        variant?: T;
+        quantity?: T;
+        id?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "blog-tags_select".
@@ -820,13 +1658,102 @@ export interface ProductVariantMappingsSelect<T extends boolean = true> {
   product?: T;
   variant?: T;
   quantity?: T;
+  inventoryPolicy?: T;
+  backorderLimit?: T;
+  preorderShipDate?: T;
+  stockChangeReason?: T;
+  stockChangeNote?: T;
+  lowStockThreshold?: T;
+  lowStockAlertedAt?: T;
   priceOverride?: T;
+  priceTiers?:
+    | T
+    | {
+        minQuantity?: T;
+        discountPercent?: T;
+        id?: T;
+      };
   isDefault?: T;
   isActive?: T;
   displayName?: T;
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-movements_select".
+ */
+export interface StockMovementsSelect<T extends boolean = true> {
+  mapping?: T;
+  delta?: T;
+  quantityAfter?: T;
+  reason?: T;
+  lot?: T;
+  order?: T;
+  user?: T;
+  note?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "stock-lots_select".
+ */
+export interface StockLotsSelect<T extends boolean = true> {
+  mapping?: T;
+  lotNumber?: T;
+  expiryDate?: T;
+  quantity?: T;
+  writtenOff?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "back-in-stock-subscriptions_select".
+ */
+export interface BackInStockSubscriptionsSelect<T extends boolean = true> {
+  email?: T;
+  mapping?: T;
+  status?: T;
+  unsubscribeToken?: T;
+  notifiedAt?: T;
+  unsubscribedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs_select".
+ */
+export interface PayloadJobsSelect<T extends boolean = true> {
+  input?: T;
+  taskStatus?: T;
+  completedAt?: T;
+  totalTried?: T;
+  hasError?: T;
+  error?: T;
+  log?:
+    | T
+    | {
+        executedAt?: T;
+        completedAt?: T;
+        taskSlug?: T;
+        taskID?: T;
+        input?: T;
+        output?: T;
+        state?: T;
+        error?: T;
+        id?: T;
+      };
+  taskSlug?: T;
+  queue?: T;
+  waitUntil?: T;
+  processing?: T;
+  meta?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents_select".
@@ -859,6 +1786,101 @@ export interface PayloadMigrationsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats".
+ */
+export interface PayloadJobsStat {
+  id: string;
+  stats?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats_select".
+ */
+export interface PayloadJobsStatsSelect<T extends boolean = true> {
+  stats?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskSendAbandonedCheckoutReminders".
+ */
+export interface TaskSendAbandonedCheckoutReminders {
+  input?: unknown;
+  output: {
+    notified: number;
+    failed: number;
+    deleted: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskSendLowStockAlert".
+ */
+export interface TaskSendLowStockAlert {
+  input: {
+    mapping: string;
+  };
+  output: {
+    sent: boolean;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskSendLowStockDigest".
+ */
+export interface TaskSendLowStockDigest {
+  input?: unknown;
+  output: {
+    mappings: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskWriteOffExpiredLots".
+ */
+export interface TaskWriteOffExpiredLots {
+  input?: unknown;
+  output: {
+    writtenOff: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskSendBackInStockNotifications".
+ */
+export interface TaskSendBackInStockNotifications {
+  input: {
+    mapping: string;
+  };
+  output: {
+    notified: number;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskCancelUnpaidOrders".
+ */
+export interface TaskCancelUnpaidOrders {
+  input?: unknown;
+  output: {
+    cancelled: number;
+    failed: number;
+  };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
@@ -12,6 +12,12 @@ import { Users } from './collections/Users'
 import { Media } from './collections/Media'
 import Products from './collections/Products'
 import Orders from './collections/Orders'
+import OrderSequences from './collections/OrderSequences'
+import ShippingMethods from './collections/ShippingMethods'
+import Coupons from './collections/Coupons'
+import RejectedSubmissions from './collections/RejectedSubmissions'
+import AbandonedCheckouts from './collections/AbandonedCheckouts'
+import Carts from './collections/Carts'
 import ProductCategories from './collections/ProductCategories'
 import ProductTags from './collections/ProductTags'
 import Brands from './collections/Brands'
@@ -20,9 +26,20 @@ import BlogCategories from './collections/BlogCategories'
 import Blogs from './collections/Blogs'
 import ProductVariants from './collections/ProductVariants'
 import ProductVariantMappings from './collections/ProductVariantMappings'
+import StockMovements from './collections/StockMovements'
+import StockLots from './collections/StockLots'
+import BackInStockSubscriptions from './collections/BackInStockSubscriptions'
 import { seoPlugin } from '@payloadcms/plugin-seo'
 import { uploadthingStorage } from '@payloadcms/storage-uploadthing'
 import HeroSlides from './collections/HeroSlider'
+import {
+  ABANDONED_CHECKOUT_QUEUE,
+  sendAbandonedCheckoutRemindersTask,
+} from './utils/abandonedCheckouts'
+import { LOW_STOCK_QUEUE, sendLowStockAlertTask, sendLowStockDigestTask } from './utils/lowStock'
+import { STOCK_LOTS_QUEUE, writeOffExpiredLotsTask } from './utils/stockLots'
+import { BACK_IN_STOCK_QUEUE, sendBackInStockNotificationsTask } from './utils/backInStock'
+import { cancelUnpaidOrdersTask, UNPAID_ORDERS_QUEUE } from './utils/unpaidOrders'
 import 'dotenv/config'
 
 console.log(process.env.DATABASE_URI)
@@ -31,7 +48,7 @@ const dirname = path.dirname(filename)
 
 // Determine which database adapter to use based on environment variable
 const useMongoDB = process.env.USE_MONGODB === 'true'
-const databaseAdapter = useMongoDB 
+const databaseAdapter = useMongoDB
   ? mongooseAdapter({
       url: process.env.DATABASE_URI || '',
     })
@@ -60,13 +77,41 @@ export default buildConfig({
     Brands,
     Products,
     Orders,
+    OrderSequences,
+    ShippingMethods,
+    Coupons,
+    RejectedSubmissions,
+    AbandonedCheckouts,
+    Carts,
     BlogTags,
     BlogCategories,
     Blogs,
     HeroSlides,
     ProductVariants,
     ProductVariantMappings,
+    StockMovements,
+    StockLots,
+    BackInStockSubscriptions,
   ],
+  jobs: {
+    tasks: [
+      sendAbandonedCheckoutRemindersTask,
+      sendLowStockAlertTask,
+      sendLowStockDigestTask,
+      writeOffExpiredLotsTask,
+      sendBackInStockNotificationsTask,
+      cancelUnpaidOrdersTask,
+    ],
+    // Started only by the admin app; the website's local API never runs jobs
+    autoRun: [
+      { cron: '* * * * *', queue: ABANDONED_CHECKOUT_QUEUE },
+      { cron: '* * * * *', queue: LOW_STOCK_QUEUE },
+      { cron: '* * * * *', queue: STOCK_LOTS_QUEUE },
+      { cron: '* * * * *', queue: BACK_IN_STOCK_QUEUE },
+      { cron: '* * * * *', queue: UNPAID_ORDERS_QUEUE },
+    ],
+    deleteJobOnComplete: true,
+  },
   editor: lexicalEditor(),
   secret: process.env.PAYLOAD_SECRET || '',
   typescript: {
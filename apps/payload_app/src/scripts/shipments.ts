@@ -0,0 +1,62 @@
+/**
+ * Carrier CSV export and tracking number import from the command line
+ *
+ *   pnpm shipments export <carrier> [output.csv]   orders in processing, to a file or stdout
+ *   pnpm shipments import <carrier> <tracking.csv>
+ *
+ * Carriers: tcat, seven_eleven, family_mart
+ */
+
+import { readFile, writeFile } from 'fs/promises'
+import { getPayload } from 'payload'
+import config from '../payload.config'
+import { CARRIER_OPTIONS, isCarrier } from '../utils/carriers'
+import {
+  buildShipmentCsv,
+  findOrdersForShipment,
+  importTrackingNumbers,
+} from '../utils/shipmentCsv'
+
+const [command, carrier, file] = process.argv.slice(2)
+
+if (
+  !['export', 'import'].includes(command) ||
+  !isCarrier(carrier) ||
+  (command === 'import' && !file)
+) {
+  console.error('Usage: pnpm shipments export <carrier> [output.csv]')
+  console.error('       pnpm shipments import <carrier> <tracking.csv>')
+  console.error(`Carriers: ${CARRIER_OPTIONS.map((option) => option.value).join(', ')}`)
+  process.exit(1)
+}
+
+const payload = await getPayload({ config: await config })
+
+try {
+  if (command === 'export') {
+    const orders = await findOrdersForShipment(payload, { status: { equals: 'processing' } })
+    const csv = buildShipmentCsv(orders, carrier)
+    if (file) {
+      await writeFile(file, csv)
+      console.log(`Exported ${orders.length} orders to ${file}`)
+    } else {
+      process.stdout.write(csv)
+    }
+  } else {
+    const result = await importTrackingNumbers(payload, await readFile(file, 'utf8'), carrier)
+    console.log(`Tracking numbers added to ${result.updated.length} orders`)
+    if (result.notFound.length > 0) {
+      console.warn(`Orders not found: ${result.notFound.join(', ')}`)
+    }
+    if (result.skipped > 0) {
+      console.warn(`Skipped ${result.skipped} incomplete rows`)
+    }
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+} finally {
+  await payload.destroy()
+}
+
+process.exit()
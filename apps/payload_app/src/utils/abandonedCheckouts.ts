@@ -0,0 +1,116 @@
+/**
+ * Reminder emails for abandoned checkouts
+ *
+ * The website saves a checkout draft while a customer who agreed to a reminder
+ * fills in the form. Every 15 minutes a scheduled job picks the drafts that have
+ * been idle for ABANDONED_CHECKOUT_REMINDER_MINUTES (default 60) and asks the
+ * website, through the signed /api/webhooks/abandoned-checkout, to send each
+ * one a single reminder with a link that restores the cart. Drafts that never
+ * became orders are deleted after ABANDONED_CHECKOUT_RETENTION_DAYS (default 30).
+ *
+ * Jobs run in the admin app's process only; the website loads this config
+ * without starting the job runner.
+ */
+
+import type { TaskConfig } from 'payload'
+import type { AbandonedCheckout } from '../payload-types'
+import { postWebsiteWebhook } from './orderNotifications'
+
+export type AbandonedCheckoutStatus = AbandonedCheckout['status']
+
+export const ABANDONED_CHECKOUT_STATUS_OPTIONS: {
+  label: string
+  value: AbandonedCheckoutStatus
+}[] = [
+  { label: 'Open', value: 'open' },
+  { label: 'Reminded', value: 'reminded' },
+  { label: 'Recovered (ordered from the reminder)', value: 'recovered' },
+  { label: 'Completed (ordered without the reminder)', value: 'completed' },
+  { label: 'Expired (nothing left to order)', value: 'expired' },
+]
+
+export const ABANDONED_CHECKOUT_QUEUE = 'abandoned-checkouts'
+
+const ABANDONED_CHECKOUT_WEBHOOK_PATH = '/api/webhooks/abandoned-checkout'
+
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+// Older drafts are not worth a reminder any more
+const MAX_REMINDER_AGE_MS = 7 * DAY
+
+// One run sends at most this many; the rest wait for the next run
+const REMINDER_BATCH_SIZE = 50
+
+const readNumberEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export const sendAbandonedCheckoutRemindersTask: TaskConfig<{
+  input: object
+  output: { notified: number; failed: number; deleted: number }
+}> = {
+  slug: 'sendAbandonedCheckoutReminders',
+  label: 'Send abandoned checkout reminders',
+  schedule: [{ cron: '*/15 * * * *', queue: ABANDONED_CHECKOUT_QUEUE }],
+  outputSchema: [
+    { name: 'notified', type: 'number', required: true },
+    { name: 'failed', type: 'number', required: true },
+    { name: 'deleted', type: 'number', required: true },
+  ],
+  handler: async ({ req }) => {
+    const { payload } = req
+    const now = Date.now()
+    const idleFor = readNumberEnv('ABANDONED_CHECKOUT_REMINDER_MINUTES', 60) * MINUTE
+    const retention = readNumberEnv('ABANDONED_CHECKOUT_RETENTION_DAYS', 30) * DAY
+
+    const { docs: due } = await payload.find({
+      collection: 'abandoned-checkouts',
+      where: {
+        and: [
+          { status: { equals: 'open' } },
+          { lastActivityAt: { less_than: new Date(now - idleFor).toISOString() } },
+          { lastActivityAt: { greater_than: new Date(now - MAX_REMINDER_AGE_MS).toISOString() } },
+        ],
+      },
+      sort: 'lastActivityAt',
+      limit: REMINDER_BATCH_SIZE,
+      depth: 0,
+      req,
+    })
+
+    let notified = 0
+    let failed = 0
+    // The website re-reads the draft, sends the email and marks it reminded
+    for (const draft of due) {
+      try {
+        await postWebsiteWebhook(ABANDONED_CHECKOUT_WEBHOOK_PATH, {
+          event: 'checkout.abandoned',
+          id: draft.id,
+        })
+        notified++
+      } catch (error) {
+        failed++
+        payload.logger.error(
+          `[AbandonedCheckouts] Reminder for ${draft.id} not sent: ${error instanceof Error ? error.message : error}`,
+        )
+      }
+    }
+
+    const { docs: deleted } = await payload.delete({
+      collection: 'abandoned-checkouts',
+      // Drafts that became orders are kept for conversion figures; the order holds the same details
+      where: {
+        and: [
+          { status: { not_in: ['recovered', 'completed'] } },
+          { lastActivityAt: { less_than: new Date(now - retention).toISOString() } },
+        ],
+      },
+      depth: 0,
+      req,
+    })
+
+    return { output: { notified, failed, deleted: deleted.length } }
+  },
+}
@@ -0,0 +1,195 @@
+/**
+ * Back-in-stock notifications
+ *
+ * Customers leave their email on a sold-out variant from the product page.
+ * When a stock movement takes that variant's mapping from 0 to a positive
+ * quantity, a job asks the website, through the signed /api/webhooks/back-in-stock,
+ * to email each waiting subscriber. The website marks each one notified, so
+ * nobody hears about the same restock twice; signing up again waits for the
+ * next one.
+ *
+ * The job runs in the admin app's process only, like the low-stock alerts.
+ */
+
+import type { Endpoint, PayloadRequest, TaskConfig } from 'payload'
+import type { BackInStockSubscription, StockMovement } from '../payload-types'
+import { postWebsiteWebhook } from './orderNotifications'
+
+export type BackInStockStatus = BackInStockSubscription['status']
+
+export const BACK_IN_STOCK_STATUS_OPTIONS: { label: string; value: BackInStockStatus }[] = [
+  { label: 'Waiting', value: 'waiting' },
+  { label: 'Notified', value: 'notified' },
+  { label: 'Unsubscribed', value: 'unsubscribed' },
+]
+
+export const BACK_IN_STOCK_QUEUE = 'back-in-stock'
+
+const BACK_IN_STOCK_WEBHOOK_PATH = '/api/webhooks/back-in-stock'
+
+export interface BackInStockDemand {
+  id: string
+  displayName: string
+  quantity: number
+  /** Subscribers still waiting for a restock */
+  waiting: number
+  /** Subscribers already told about a restock */
+  notified: number
+}
+
+const relationId = (value: unknown): string | undefined => {
+  if (value === null || value === undefined || value === '') return undefined
+  if (typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return String(value)
+}
+
+/**
+ * Queue the notifications when a new stock movement brought a sold-out mapping
+ * back into stock. Runs in the request's transaction, like the low-stock check.
+ */
+export async function checkBackInStock(
+  req: PayloadRequest,
+  movement: Pick<StockMovement, 'mapping' | 'delta' | 'quantityAfter'>,
+): Promise<void> {
+  const mappingId = relationId(movement.mapping)
+  const quantityBefore = movement.quantityAfter - movement.delta
+  if (!mappingId || quantityBefore > 0 || movement.quantityAfter <= 0) return
+
+  const { totalDocs } = await req.payload.count({
+    collection: 'back-in-stock-subscriptions',
+    where: {
+      and: [{ mapping: { equals: mappingId } }, { status: { equals: 'waiting' } }],
+    },
+    req,
+  })
+  if (totalDocs === 0) return
+
+  await req.payload.jobs.queue({
+    task: 'sendBackInStockNotifications',
+    input: { mapping: mappingId },
+    queue: BACK_IN_STOCK_QUEUE,
+    req,
+  })
+}
+
+export const sendBackInStockNotificationsTask: TaskConfig<{
+  input: { mapping: string }
+  output: { notified: number }
+}> = {
+  slug: 'sendBackInStockNotifications',
+  label: 'Send back-in-stock notifications',
+  retries: 3,
+  inputSchema: [{ name: 'mapping', type: 'text', required: true }],
+  outputSchema: [{ name: 'notified', type: 'number', required: true }],
+  handler: async ({ input, req }) => {
+    const { payload } = req
+    const mapping = await payload
+      .findByID({
+        collection: 'product-variant-mappings',
+        id: input.mapping,
+        depth: 0,
+        select: { quantity: true, isActive: true },
+        req,
+      })
+      .catch(() => null)
+
+    // Deleted, hidden, or sold out again before the job ran
+    if (!mapping || mapping.isActive === false || mapping.quantity <= 0) {
+      return { output: { notified: 0 } }
+    }
+
+    const { docs: waiting } = await payload.find({
+      collection: 'back-in-stock-subscriptions',
+      where: {
+        and: [{ mapping: { equals: mapping.id } }, { status: { equals: 'waiting' } }],
+      },
+      sort: 'createdAt',
+      depth: 0,
+      pagination: false,
+      select: { status: true },
+      req,
+    })
+
+    let notified = 0
+    let failed = 0
+    // The website re-reads the subscription, sends the email and marks it notified
+    for (const subscription of waiting) {
+      try {
+        await postWebsiteWebhook(BACK_IN_STOCK_WEBHOOK_PATH, {
+          event: 'stock.back_in_stock',
+          id: subscription.id,
+        })
+        notified++
+      } catch (error) {
+        failed++
+        payload.logger.error(
+          `[BackInStock] Notification for ${subscription.id} not sent: ${error instanceof Error ? error.message : error}`,
+        )
+      }
+    }
+
+    // Throwing leaves the job to be retried; subscribers already notified are skipped then
+    if (failed > 0) {
+      throw new Error(`${failed} of ${waiting.length} back-in-stock notifications failed`)
+    }
+    return { output: { notified } }
+  },
+}
+
+/**
+ * Subscribers per mapping, most waiting first
+ */
+export async function getBackInStockDemand(req: PayloadRequest): Promise<BackInStockDemand[]> {
+  const { docs: subscriptions } = await req.payload.find({
+    collection: 'back-in-stock-subscriptions',
+    where: { status: { in: ['waiting', 'notified'] } },
+    depth: 0,
+    pagination: false,
+    select: { mapping: true, status: true },
+    req,
+  })
+
+  const counts = new Map<string, { waiting: number; notified: number }>()
+  for (const subscription of subscriptions) {
+    const mappingId = relationId(subscription.mapping)
+    if (!mappingId) continue
+    const count = counts.get(mappingId) || { waiting: 0, notified: 0 }
+    if (subscription.status === 'waiting') count.waiting++
+    else count.notified++
+    counts.set(mappingId, count)
+  }
+  if (counts.size === 0) return []
+
+  const { docs: mappings } = await req.payload.find({
+    collection: 'product-variant-mappings',
+    where: { id: { in: [...counts.keys()] } },
+    depth: 0,
+    pagination: false,
+    select: { displayName: true, quantity: true },
+    req,
+  })
+
+  return mappings
+    .map((mapping) => ({
+      id: mapping.id,
+      displayName: mapping.displayName || mapping.id,
+      quantity: mapping.quantity,
+      ...(counts.get(String(mapping.id)) as { waiting: number; notified: number }),
+    }))
+    .sort((a, b) => b.waiting - a.waiting || b.notified - a.notified)
+}
+
+/**
+ * GET /api/back-in-stock-subscriptions/demand
+ * Subscriber counts per variant, for planning restocks
+ */
+export const backInStockDemandEndpoint: Endpoint = {
+  path: '/demand',
+  method: 'get',
+  handler: async (req) => {
+    if (!req.user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return Response.json({ docs: await getBackInStockDemand(req) })
+  },
+}
@@ -0,0 +1,40 @@
+/**
+ * Shipping carriers orders can be booked with
+ * Kept free of server imports so admin components can use it too.
+ */
+
+import type { Order } from '../payload-types'
+
+export type Carrier = NonNullable<NonNullable<Order['shipping']>['carrier']>
+
+export const CARRIER_OPTIONS: { label: string; value: Carrier }[] = [
+  { label: '黑貓宅急便 (T-cat)', value: 'tcat' },
+  { label: '7-ELEVEN 交貨便', value: 'seven_eleven' },
+  { label: '全家店到店 (FamilyMart)', value: 'family_mart' },
+]
+
+export const isCarrier = (value: unknown): value is Carrier =>
+  CARRIER_OPTIONS.some((option) => option.value === value)
+
+/**
+ * Where customers follow a parcel. T-cat links straight to the parcel; the
+ * convenience store chains only offer a search page for the tracking number.
+ */
+const TRACKING_URLS: Record<Carrier, (trackingNumber: string) => string> = {
+  tcat: (trackingNumber) =>
+    `https://www.t-cat.com.tw/Inquire/TraceDetail.aspx?BillID=${encodeURIComponent(trackingNumber)}`,
+  seven_eleven: () => 'https://eservice.7-11.com.tw/e-tracking/search.aspx',
+  family_mart: () => 'https://fmec.famiport.com.tw/FP_Entrance/QueryBox',
+}
+
+export function getCarrierLabel(carrier: Carrier | null | undefined): string | null {
+  return CARRIER_OPTIONS.find((option) => option.value === carrier)?.label ?? null
+}
+
+export function getCarrierTrackingUrl(
+  carrier: Carrier | null | undefined,
+  trackingNumber: string | null | undefined,
+): string | null {
+  if (!carrier || !trackingNumber) return null
+  return TRACKING_URLS[carrier](trackingNumber)
+}
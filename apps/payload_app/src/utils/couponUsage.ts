@@ -0,0 +1,178 @@
+/**
+ * Coupon usage counting for orders
+ *
+ * A coupon's `timesUsed` counts the live orders that redeemed it. Orders claim a
+ * use in the same transaction that writes them, with the usage limit checked in
+ * the same statement as the increment, so two checkouts cannot both take the
+ * last use. Cancelled and deleted orders give their use back.
+ *
+ * The per-customer limit is checked in the same transaction, right after the
+ * claim: claiming writes the coupon, so a second checkout with the same coupon
+ * waits for (Postgres) or conflicts with (MongoDB) the first instead of both
+ * counting the customer's earlier orders at once.
+ */
+
+import type { Payload, PayloadRequest } from 'payload'
+import { APIError } from 'payload'
+import { sql } from '@payloadcms/db-postgres'
+import type { Order } from '../payload-types'
+import { orderHoldsStock } from './orderStatus'
+import { resolveTransactionID } from './transaction'
+
+type CouponId = string | number
+type OrderLike = Partial<Pick<Order, 'id' | 'email' | 'discount' | 'status'>> | null | undefined
+
+/**
+ * Thrown when a coupon has no uses left
+ */
+export class CouponUsageLimitError extends APIError {
+  constructor(code?: string | null) {
+    super(
+      code ? `Coupon ${code} has reached its usage limit` : 'Coupon has reached its usage limit',
+      409,
+      { code },
+      true,
+    )
+  }
+}
+
+/**
+ * Thrown when the customer has used a coupon as often as it allows
+ */
+export class CouponCustomerLimitError extends APIError {
+  constructor(code?: string | null) {
+    super(
+      code
+        ? `Coupon ${code} has reached its usage limit for this customer`
+        : 'Coupon has reached its usage limit for this customer',
+      409,
+      { code },
+      true,
+    )
+  }
+}
+
+const COUPONS_SLUG = 'coupons'
+
+/**
+ * Add one use (delta 1) or give one back (delta -1) in a single statement.
+ * Claims only succeed below the usage limit; releases never take the count below 0.
+ *
+ * @returns Whether the coupon was updated
+ */
+async function adjustCouponUses(
+  req: PayloadRequest,
+  couponId: CouponId,
+  delta: 1 | -1,
+): Promise<boolean> {
+  const db = req.payload.db as any
+  const transactionID = await resolveTransactionID(req)
+
+  if (db.name === 'mongoose') {
+    const Model = db.collections[COUPONS_SLUG]
+    const session = transactionID ? db.sessions[transactionID] : undefined
+    const filter: Record<string, unknown> = { _id: couponId }
+    if (delta > 0) {
+      filter.$or = [
+        { usageLimit: null },
+        { $expr: { $lt: [{ $ifNull: ['$timesUsed', 0] }, '$usageLimit'] } },
+      ]
+    } else {
+      filter.timesUsed = { $gt: 0 }
+    }
+
+    const updated = await Model.findOneAndUpdate(
+      filter,
+      { $inc: { timesUsed: delta }, $set: { updatedAt: new Date() } },
+      { new: true, session, lean: true },
+    )
+    return Boolean(updated)
+  }
+
+  if (db.name === 'postgres') {
+    const drizzle = (transactionID && db.sessions[transactionID]?.db) || db.drizzle
+    const table = sql.identifier(db.tableNameMap.get(COUPONS_SLUG) || COUPONS_SLUG)
+    const condition =
+      delta > 0
+        ? sql` AND ("usage_limit" IS NULL OR COALESCE("times_used", 0) < "usage_limit")`
+        : sql` AND COALESCE("times_used", 0) > 0`
+
+    const result = await drizzle.execute(
+      sql`UPDATE ${table} SET "times_used" = COALESCE("times_used", 0) + ${delta}, "updated_at" = now() WHERE "id" = ${couponId}${condition} RETURNING "id"`,
+    )
+    return Boolean(result.rows?.[0])
+  }
+
+  throw new APIError(`Atomic coupon updates are not supported for the "${db.name}" adapter`, 500)
+}
+
+const getCouponId = (order: OrderLike): CouponId | undefined => {
+  const coupon = order?.discount?.coupon
+  if (!coupon) return undefined
+  return typeof coupon === 'object' ? coupon.id : coupon
+}
+
+/**
+ * Live orders (not cancelled) that redeemed the coupon with this email.
+ * Order emails are stored in lower case, so the match is exact.
+ */
+export async function countCustomerCouponUses(
+  payload: Payload,
+  couponId: CouponId,
+  email: string,
+  { req, excludeOrderId }: { req?: PayloadRequest; excludeOrderId?: CouponId } = {},
+): Promise<number> {
+  const { totalDocs } = await payload.count({
+    collection: 'orders',
+    where: {
+      and: [
+        { 'discount.coupon': { equals: couponId } },
+        { status: { not_equals: 'cancelled' } },
+        { email: { equals: email.trim().toLowerCase() } },
+        ...(excludeOrderId ? [{ id: { not_equals: excludeOrderId } }] : []),
+      ],
+    },
+    req,
+  })
+  return totalDocs
+}
+
+/**
+ * Move a coupon use from `previous` to `next` inside the request's transaction.
+ * Orders only hold a use while they also hold stock, so cancelling frees both.
+ */
+export async function applyOrderCouponChange(
+  req: PayloadRequest,
+  previous: OrderLike,
+  next: OrderLike,
+): Promise<void> {
+  const previousId = orderHoldsStock(previous?.status) ? getCouponId(previous) : undefined
+  const nextId = orderHoldsStock(next?.status) ? getCouponId(next) : undefined
+  if (String(previousId) === String(nextId)) return
+
+  if (previousId) {
+    await adjustCouponUses(req, previousId, -1)
+  }
+  if (!nextId) return
+  if (!(await adjustCouponUses(req, nextId, 1))) {
+    throw new CouponUsageLimitError(next?.discount?.code)
+  }
+
+  const coupon = await req.payload.findByID({
+    collection: COUPONS_SLUG,
+    id: nextId as string,
+    depth: 0,
+    select: { usageLimitPerCustomer: true },
+    req,
+  })
+  if (
+    coupon.usageLimitPerCustomer &&
+    next?.email &&
+    (await countCustomerCouponUses(req.payload, nextId, next.email, {
+      req,
+      excludeOrderId: next.id,
+    })) >= coupon.usageLimitPerCustomer
+  ) {
+    throw new CouponCustomerLimitError(next.discount?.code)
+  }
+}
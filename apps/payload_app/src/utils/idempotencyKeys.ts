@@ -0,0 +1,48 @@
+/**
+ * Idempotency keys on orders
+ *
+ * `idempotencyKey` is unique. Orders placed without a key leave the field out
+ * rather than storing null: MongoDB's sparse unique index still indexes explicit
+ * nulls, so a second keyless order would collide with the first.
+ */
+
+import type { Payload } from 'payload'
+import { APIError } from 'payload'
+import { sql } from '@payloadcms/db-postgres'
+
+const ORDERS_SLUG = 'orders'
+const ORDERS_TABLE = 'orders'
+
+/**
+ * Detach an expired key from its order so the key can be used again. Writes the
+ * row directly: clearing bookkeeping fields must not run the order's stock,
+ * coupon and notification hooks.
+ *
+ * @returns Whether the order still held the key
+ */
+export async function releaseIdempotencyKey(
+  payload: Payload,
+  orderId: string | number,
+  key: string,
+): Promise<boolean> {
+  const db = payload.db as any
+
+  if (db.name === 'mongoose') {
+    const Model = db.collections[ORDERS_SLUG]
+    const result = await Model.updateOne(
+      { _id: orderId, idempotencyKey: key },
+      { $unset: { idempotencyKey: 1, idempotencyKeyExpiresAt: 1 } },
+    )
+    return result.modifiedCount > 0
+  }
+
+  if (db.name === 'postgres') {
+    const table = sql.identifier(db.tableNameMap.get(ORDERS_TABLE) || ORDERS_TABLE)
+    const result = await db.drizzle.execute(
+      sql`UPDATE ${table} SET "idempotency_key" = NULL, "idempotency_key_expires_at" = NULL WHERE "id" = ${orderId} AND "idempotency_key" = ${key} RETURNING "id"`,
+    )
+    return Boolean(result.rows?.[0])
+  }
+
+  throw new APIError(`Idempotency keys are not supported for the "${db.name}" adapter`, 500)
+}
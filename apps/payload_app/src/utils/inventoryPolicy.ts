@@ -0,0 +1,48 @@
+/**
+ * What a variant mapping may sell once its stock runs out
+ *
+ * - `deny`: nothing; the quantity never goes below 0.
+ * - `backorder`: up to `backorderLimit` units more, shipped when stock arrives.
+ * - `preorder`: the same, for stock that has not been released yet, with the
+ *   expected ship date shown to customers.
+ *
+ * Units sold beyond stock take the mapping's quantity below 0, so the next
+ * delivery fills them before anything else can be sold.
+ * Free of server imports, so the website can use it too.
+ */
+
+import type { ProductVariantMapping } from '../payload-types'
+
+export type InventoryPolicy = NonNullable<ProductVariantMapping['inventoryPolicy']>
+
+export const INVENTORY_POLICY_OPTIONS: { label: string; value: InventoryPolicy }[] = [
+  { label: 'Stop selling at 0', value: 'deny' },
+  { label: 'Backorder up to a limit', value: 'backorder' },
+  { label: 'Preorder with an expected ship date', value: 'preorder' },
+]
+
+type PolicyFields = Partial<
+  Pick<ProductVariantMapping, 'quantity' | 'inventoryPolicy' | 'backorderLimit'>
+>
+
+export const sellsBeyondStock = (mapping: PolicyFields): boolean =>
+  mapping.inventoryPolicy === 'backorder' || mapping.inventoryPolicy === 'preorder'
+
+/**
+ * The lowest quantity orders may take the mapping to
+ */
+export const getStockFloor = (mapping: PolicyFields): number =>
+  sellsBeyondStock(mapping) ? -Math.max(0, Number(mapping.backorderLimit) || 0) : 0
+
+/**
+ * Units physically in stock
+ */
+export const getOnHandQuantity = (mapping: PolicyFields): number =>
+  Math.max(0, Number(mapping.quantity) || 0)
+
+/**
+ * Units that can be ordered now: what is in stock plus what is left of the
+ * backorder or preorder limit
+ */
+export const getSellableQuantity = (mapping: PolicyFields): number =>
+  Math.max(0, (Number(mapping.quantity) || 0) - getStockFloor(mapping))
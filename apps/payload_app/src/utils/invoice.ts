@@ -0,0 +1,109 @@
+/**
+ * Taiwan e-invoice (電子發票) issuance for orders
+ *
+ * The customer picks how they want the invoice at checkout; the website
+ * validates the carrier, donation code and tax ID. The invoice itself is issued
+ * by an InvoiceIssuer when the sale is confirmed: on payment for online
+ * payments, or when a cash on delivery order starts processing. Select the
+ * issuer with INVOICE_ISSUER; only the offline `stub` issuer ships for now.
+ */
+
+import { randomInt } from 'crypto'
+import type { PayloadRequest } from 'payload'
+import type { Order } from '../payload-types'
+import type { OrderStatus } from './orderStatus'
+
+export type InvoiceType = NonNullable<Order['invoice']>['type']
+
+export const INVOICE_TYPE_OPTIONS: { label: string; value: InvoiceType }[] = [
+  { label: 'Personal (emailed)', value: 'personal' },
+  { label: 'Mobile barcode carrier', value: 'mobile_carrier' },
+  { label: 'Citizen certificate carrier', value: 'citizen_carrier' },
+  { label: 'Donation', value: 'donation' },
+  { label: 'Company (統一編號)', value: 'company' },
+]
+
+export interface IssuedInvoice {
+  /** Two letter track and eight digits, e.g. AB12345678 */
+  invoiceNumber: string
+  /** Four digit 隨機碼 printed on the invoice */
+  randomCode: string
+  issuedAt: string
+}
+
+export interface InvoiceIssuer {
+  name: string
+  issue(order: Partial<Order>): Promise<IssuedInvoice>
+}
+
+/**
+ * Issues made-up invoice numbers without calling out, for development and tests.
+ * Numbers use the ZZ track, which the tax authority never assigns.
+ */
+export const stubInvoiceIssuer: InvoiceIssuer = {
+  name: 'stub',
+  async issue(order) {
+    const invoiceNumber = `ZZ${String(randomInt(0, 100_000_000)).padStart(8, '0')}`
+    console.log(`[Invoice] Stub issued ${invoiceNumber} for order ${order.orderNumber}`)
+    return {
+      invoiceNumber,
+      randomCode: String(randomInt(0, 10_000)).padStart(4, '0'),
+      issuedAt: new Date().toISOString(),
+    }
+  },
+}
+
+const ISSUERS: InvoiceIssuer[] = [stubInvoiceIssuer]
+
+export function getInvoiceIssuer(): InvoiceIssuer {
+  const name = process.env.INVOICE_ISSUER || 'stub'
+  const issuer = ISSUERS.find((candidate) => candidate.name === name)
+  if (!issuer) {
+    throw new Error(`Unknown invoice issuer "${name}"`)
+  }
+  return issuer
+}
+
+// Statuses in which the sale is confirmed and the order must carry an invoice
+const INVOICED_STATUSES: OrderStatus[] = ['paid', 'processing', 'shipped', 'delivered']
+
+/**
+ * Keep issued invoice details out of client hands, and issue the invoice when an
+ * order reaches a confirmed status without one. A failed issue does not block the
+ * status change; the error is kept on the order and the next save retries.
+ */
+export async function applyOrderInvoice(
+  req: PayloadRequest,
+  data: Partial<Order>,
+  originalDoc: Partial<Order> | undefined,
+): Promise<Partial<Order>> {
+  const issued = originalDoc?.invoice
+  const invoice = {
+    type: 'personal' as InvoiceType,
+    ...issued,
+    ...data.invoice,
+    invoiceNumber: issued?.invoiceNumber ?? null,
+    randomCode: issued?.randomCode ?? null,
+    issuedAt: issued?.issuedAt ?? null,
+    issueError: issued?.issueError ?? null,
+  }
+  data.invoice = invoice
+
+  const status = data.status ?? originalDoc?.status
+  if (invoice.invoiceNumber || !status || !INVOICED_STATUSES.includes(status)) {
+    return data
+  }
+
+  try {
+    const result = await getInvoiceIssuer().issue({ ...originalDoc, ...data })
+    Object.assign(invoice, result, { issueError: null })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    req.payload.logger.error(
+      `[Invoice] Could not issue invoice for order ${data.orderNumber ?? originalDoc?.orderNumber}: ${message}`,
+    )
+    invoice.issueError = message
+  }
+
+  return data
+}
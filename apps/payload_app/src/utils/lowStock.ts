@@ -0,0 +1,258 @@
+/**
+ * Low-stock alerts
+ *
+ * Each variant mapping has a `lowStockThreshold`; mappings without one use
+ * LOW_STOCK_THRESHOLD (default 5). When a stock movement takes a mapping from
+ * above its threshold to at or below it, a job asks the website, through the
+ * signed /api/webhooks/low-stock, to email the admin once. The mapping is
+ * marked alerted until it is restocked above the threshold again. A daily job
+ * sends a digest of every mapping that is still low.
+ *
+ * Both jobs run in the admin app's process only, like the abandoned checkout reminders.
+ */
+
+import type { Endpoint, PayloadRequest, TaskConfig } from 'payload'
+import type { Order, ProductVariantMapping, StockMovement } from '../payload-types'
+import { postWebsiteWebhook } from './orderNotifications'
+import { orderHoldsStock } from './orderStatus'
+
+export const LOW_STOCK_QUEUE = 'stock-alerts'
+
+const LOW_STOCK_WEBHOOK_PATH = '/api/webhooks/low-stock'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Sales over this many days set how fast a mapping is selling
+export const SALES_VELOCITY_DAYS = 30
+
+export interface LowStockMapping {
+  id: string
+  displayName: string
+  quantity: number
+  threshold: number
+  /** Units sold over the last SALES_VELOCITY_DAYS days */
+  unitsSold: number
+  /** Average units sold per day over the same period */
+  dailySales: number
+  /** Days until it runs out at that pace; null when nothing sold */
+  daysLeft: number | null
+}
+
+export function getDefaultLowStockThreshold(): number {
+  const value = Number(process.env.LOW_STOCK_THRESHOLD)
+  return Number.isFinite(value) && value >= 0 ? value : 5
+}
+
+export const getLowStockThreshold = (
+  mapping: Pick<ProductVariantMapping, 'lowStockThreshold'>,
+  defaultThreshold = getDefaultLowStockThreshold(),
+): number => mapping.lowStockThreshold ?? defaultThreshold
+
+const relationId = (value: unknown): string | undefined => {
+  if (value === null || value === undefined || value === '') return undefined
+  if (typeof value === 'object' && 'id' in value) return String((value as { id: unknown }).id)
+  return String(value)
+}
+
+/**
+ * Units sold per mapping over the last SALES_VELOCITY_DAYS days, from orders
+ * that still hold their stock. Keyed by mapping id.
+ */
+async function getUnitsSoldByMapping(
+  req: PayloadRequest,
+  mappings: Pick<ProductVariantMapping, 'id' | 'product' | 'variant' | 'isDefault'>[],
+): Promise<Map<string, number>> {
+  // Order lines name the product and variant; lines without a variant sell the default mapping
+  const mappingByLine = new Map<string, string>()
+  for (const mapping of mappings) {
+    const productId = relationId(mapping.product)
+    mappingByLine.set(`${productId}:${relationId(mapping.variant)}`, mapping.id)
+    if (mapping.isDefault) mappingByLine.set(`${productId}:`, mapping.id)
+  }
+
+  const { docs: orders } = await req.payload.find({
+    collection: 'orders',
+    where: {
+      createdAt: { greater_than: new Date(Date.now() - SALES_VELOCITY_DAYS * DAY).toISOString() },
+    },
+    depth: 0,
+    pagination: false,
+    select: { status: true, cartItems: true },
+    req,
+  })
+
+  const unitsSold = new Map<string, number>()
+  for (const order of orders as Pick<Order, 'status' | 'cartItems'>[]) {
+    if (!orderHoldsStock(order.status)) continue
+    for (const item of order.cartItems || []) {
+      const mappingId = mappingByLine.get(`${relationId(item.product)}:${item.variant?.id || ''}`)
+      if (!mappingId) continue
+      unitsSold.set(mappingId, (unitsSold.get(mappingId) || 0) + (Number(item.quantity) || 0))
+    }
+  }
+  return unitsSold
+}
+
+/**
+ * Every active mapping at or below its threshold, fastest selling first
+ */
+export async function findLowStockMappings(req: PayloadRequest): Promise<LowStockMapping[]> {
+  const { docs: mappings } = await req.payload.find({
+    collection: 'product-variant-mappings',
+    where: { isActive: { not_equals: false } },
+    depth: 0,
+    pagination: false,
+    select: {
+      product: true,
+      variant: true,
+      displayName: true,
+      quantity: true,
+      lowStockThreshold: true,
+      isDefault: true,
+    },
+    req,
+  })
+
+  const defaultThreshold = getDefaultLowStockThreshold()
+  const low = mappings.filter(
+    (mapping) => mapping.quantity <= getLowStockThreshold(mapping, defaultThreshold),
+  )
+  if (low.length === 0) return []
+
+  const unitsSold = await getUnitsSoldByMapping(req, mappings)
+  return low
+    .map((mapping) => {
+      const sold = unitsSold.get(mapping.id) || 0
+      const dailySales = sold / SALES_VELOCITY_DAYS
+      return {
+        id: mapping.id,
+        displayName: mapping.displayName || mapping.id,
+        quantity: mapping.quantity,
+        threshold: getLowStockThreshold(mapping, defaultThreshold),
+        unitsSold: sold,
+        dailySales: Math.round(dailySales * 100) / 100,
+        daysLeft: dailySales > 0 ? Math.max(0, Math.floor(mapping.quantity / dailySales)) : null,
+      }
+    })
+    .sort((a, b) => b.dailySales - a.dailySales || a.quantity - b.quantity)
+}
+
+/**
+ * React to a new stock movement: queue an alert when it took the mapping down
+ * to its threshold, and re-arm the alert once it is restocked above it.
+ * Runs in the request's transaction, so a rolled back order queues nothing.
+ */
+export async function checkLowStockCrossing(
+  req: PayloadRequest,
+  movement: Pick<StockMovement, 'mapping' | 'delta' | 'quantityAfter'>,
+): Promise<void> {
+  const mappingId = relationId(movement.mapping)
+  if (!mappingId || movement.delta === 0) return
+
+  const mapping = await req.payload
+    .findByID({
+      collection: 'product-variant-mappings',
+      id: mappingId,
+      depth: 0,
+      select: { lowStockThreshold: true, lowStockAlertedAt: true, isActive: true },
+      req,
+    })
+    .catch(() => null)
+  if (!mapping || mapping.isActive === false) return
+
+  const threshold = getLowStockThreshold(mapping)
+  const quantityBefore = movement.quantityAfter - movement.delta
+
+  if (movement.quantityAfter <= threshold && quantityBefore > threshold) {
+    await req.payload.jobs.queue({
+      task: 'sendLowStockAlert',
+      input: { mapping: mappingId },
+      queue: LOW_STOCK_QUEUE,
+      req,
+    })
+  } else if (movement.quantityAfter > threshold && mapping.lowStockAlertedAt) {
+    await req.payload.update({
+      collection: 'product-variant-mappings',
+      id: mappingId,
+      data: { lowStockAlertedAt: null },
+      depth: 0,
+      req,
+    })
+  }
+}
+
+export const sendLowStockAlertTask: TaskConfig<{
+  input: { mapping: string }
+  output: { sent: boolean }
+}> = {
+  slug: 'sendLowStockAlert',
+  label: 'Send low-stock alert',
+  retries: 3,
+  inputSchema: [{ name: 'mapping', type: 'text', required: true }],
+  outputSchema: [{ name: 'sent', type: 'checkbox', required: true }],
+  handler: async ({ input, req }) => {
+    const mapping = await req.payload
+      .findByID({
+        collection: 'product-variant-mappings',
+        id: input.mapping,
+        depth: 0,
+        req,
+      })
+      .catch(() => null)
+
+    // Deleted, already alerted, or restocked before the job ran
+    if (!mapping || mapping.lowStockAlertedAt || mapping.quantity > getLowStockThreshold(mapping)) {
+      return { output: { sent: false } }
+    }
+
+    const lowStock = (await findLowStockMappings(req)).find((row) => row.id === mapping.id)
+    if (!lowStock) return { output: { sent: false } }
+
+    // Throwing leaves the job to be retried
+    await postWebsiteWebhook(LOW_STOCK_WEBHOOK_PATH, { event: 'stock.low', mapping: lowStock })
+    await req.payload.update({
+      collection: 'product-variant-mappings',
+      id: mapping.id,
+      data: { lowStockAlertedAt: new Date().toISOString() },
+      depth: 0,
+      req,
+    })
+    return { output: { sent: true } }
+  },
+}
+
+export const sendLowStockDigestTask: TaskConfig<{
+  input: object
+  output: { mappings: number }
+}> = {
+  slug: 'sendLowStockDigest',
+  label: 'Send daily low-stock digest',
+  // 01:00 UTC, 09:00 in Taipei
+  schedule: [{ cron: '0 1 * * *', queue: LOW_STOCK_QUEUE }],
+  outputSchema: [{ name: 'mappings', type: 'number', required: true }],
+  handler: async ({ req }) => {
+    const mappings = await findLowStockMappings(req)
+    if (mappings.length > 0) {
+      await postWebsiteWebhook(LOW_STOCK_WEBHOOK_PATH, { event: 'stock.digest', mappings })
+    }
+    return { output: { mappings: mappings.length } }
+  },
+}
+
+/**
+ * GET /api/product-variant-mappings/low-stock
+ * Mappings at or below their threshold, for the admin list
+ */
+export const lowStockEndpoint: Endpoint = {
+  path: '/low-stock',
+  method: 'get',
+  handler: async (req) => {
+    if (!req.user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    return Response.json({
+      docs: await findLowStockMappings(req),
+      salesDays: SALES_VELOCITY_DAYS,
+    })
+  },
+}
@@ -0,0 +1,293 @@
+/**
+ * Printable order documents: packing slips and invoices rendered to PDF
+ *
+ * Documents are plain HTML printed by headless Chrome through puppeteer, one
+ * order per A4 page, so a batch of orders comes out as a single PDF. Set
+ * STORE_NAME and STORE_LOGO_URL to brand them.
+ */
+
+import type { Endpoint, PayloadRequest } from 'payload'
+import type { Order, Product } from '../payload-types'
+
+export type OrderDocumentKind = 'packing-slip' | 'invoice'
+
+export const ORDER_DOCUMENT_KINDS: OrderDocumentKind[] = ['packing-slip', 'invoice']
+
+const DOCUMENT_TITLES: Record<OrderDocumentKind, string> = {
+  'packing-slip': '出貨單 Packing slip',
+  invoice: '銷貨明細 Invoice',
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const formatMoney = (amount: number | null | undefined) => `NT$${Number(amount || 0)}`
+
+const formatDate = (value: string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString('zh-TW', { timeZone: 'Asia/Taipei' }) : ''
+
+// What the carrier collects on delivery; nothing for orders paid online
+export const getCodAmount = (order: Order): number =>
+  (order.payment?.method ?? 'cod') === 'cod' ? order.totalAmount : 0
+
+// Lot numbers and expiry dates, so a recalled lot can be traced to the parcels it went out in
+function renderLots(item: Order['cartItems'][number]): string {
+  return (item.lots || [])
+    .map(
+      (lot) =>
+        `<div class="muted">批號 Lot ${escapeHtml(lot.lotNumber)} × ${lot.quantity}, 效期 Exp ${escapeHtml(lot.expiryDate.slice(0, 10))}</div>`,
+    )
+    .join('')
+}
+
+// Units the packer must hold back until stock arrives
+function renderBackorder(item: Order['cartItems'][number]): string {
+  if (!item.backorderedQuantity) return ''
+  const shipDate = item.expectedShipDate
+    ? `, 預計 ${escapeHtml(item.expectedShipDate.slice(0, 10))} 出貨 Ships`
+    : ''
+  return `<div><strong>待補貨 Backordered × ${item.backorderedQuantity}${shipDate}</strong></div>`
+}
+
+function renderItems(order: Order, withPrices: boolean): string {
+  const rows = order.cartItems
+    .map((item) => {
+      const title =
+        typeof item.product === 'object' ? (item.product as Product).title : `#${item.product}`
+      return `<tr>
+        <td>${escapeHtml(title)}${item.variant?.name ? `<div class="muted">${escapeHtml(item.variant.name)}</div>` : ''}${renderLots(item)}${renderBackorder(item)}</td>
+        <td>${escapeHtml(item.variant?.sku || '')}</td>
+        <td class="num">${item.quantity}</td>
+        ${
+          withPrices
+            ? `<td class="num">${formatMoney(item.priceAtPurchase)}</td>
+        <td class="num">${formatMoney(item.priceAtPurchase * item.quantity)}</td>`
+            : ''
+        }
+      </tr>`
+    })
+    .join('')
+
+  return `<table class="items">
+    <thead><tr>
+      <th>品項 Item</th><th>SKU</th><th class="num">數量 Qty</th>
+      ${withPrices ? '<th class="num">單價 Price</th><th class="num">小計 Subtotal</th>' : ''}
+    </tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`
+}
+
+function renderTotals(order: Order): string {
+  const lines: [string, string][] = []
+  if (order.subtotal !== null && order.subtotal !== undefined) {
+    lines.push(['小計 Subtotal', formatMoney(order.subtotal)])
+  }
+  if (order.discount?.amount) {
+    lines.push([`折扣 Discount (${order.discount.code})`, `-${formatMoney(order.discount.amount)}`])
+  }
+  if (order.shipping?.methodName) {
+    lines.push([`運費 Shipping (${order.shipping.methodName})`, formatMoney(order.shipping.fee)])
+  }
+  lines.push(['總計 Total', formatMoney(order.totalAmount)])
+
+  return `<table class="totals">${lines
+    .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="num">${value}</td></tr>`)
+    .join('')}</table>`
+}
+
+function renderOrder(order: Order, kind: OrderDocumentKind, storeName: string, logoUrl?: string) {
+  const codAmount = getCodAmount(order)
+  const invoiceNumber = order.invoice?.invoiceNumber
+
+  return `<section class="page">
+    <header>
+      <div>
+        ${logoUrl ? `<img class="logo" src="${escapeHtml(logoUrl)}" alt="">` : ''}
+        <div class="store">${escapeHtml(storeName)}</div>
+      </div>
+      <div class="right">
+        <h1>${DOCUMENT_TITLES[kind]}</h1>
+        <div class="order-number">${escapeHtml(order.orderNumber)}</div>
+        <div class="muted">${formatDate(order.orderDate)}</div>
+      </div>
+    </header>
+
+    <div class="columns">
+      <div>
+        <h2>收件人 Ship to</h2>
+        <div>${escapeHtml(order.name)}</div>
+        <div>${escapeHtml(order.phone)}</div>
+        <div>${escapeHtml(order.address)}</div>
+        ${order.shipping?.methodName ? `<div class="muted">${escapeHtml(order.shipping.methodName)}</div>` : ''}
+      </div>
+      <div class="cod">
+        <h2>代收金額 COD amount</h2>
+        <div class="cod-amount">${codAmount > 0 ? formatMoney(codAmount) : '無需代收 (已付款)'}</div>
+      </div>
+    </div>
+
+    ${renderItems(order, kind === 'invoice')}
+    ${kind === 'invoice' ? renderTotals(order) : ''}
+    ${
+      kind === 'invoice' && invoiceNumber
+        ? `<p class="muted">電子發票 ${escapeHtml(invoiceNumber)} 隨機碼 ${escapeHtml(order.invoice?.randomCode)}</p>`
+        : ''
+    }
+    ${order.note ? `<p><strong>備註 Note:</strong> ${escapeHtml(order.note)}</p>` : ''}
+  </section>`
+}
+
+export function renderOrderDocumentHtml(orders: Order[], kind: OrderDocumentKind): string {
+  const storeName = process.env.STORE_NAME || '必利勁藥局'
+  const logoUrl = process.env.STORE_LOGO_URL
+
+  return `<!doctype html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<style>
+  body { font-family: "Noto Sans TC", "PingFang TC", "Microsoft JhengHei", sans-serif; font-size: 12px; color: #111; margin: 0; }
+  .page { padding: 24px; page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  header { display: flex; justify-content: space-between; border-bottom: 2px solid #111; padding-bottom: 12px; margin-bottom: 16px; }
+  .logo { max-height: 40px; display: block; margin-bottom: 4px; }
+  .store { font-size: 18px; font-weight: bold; }
+  h1 { font-size: 16px; margin: 0; }
+  h2 { font-size: 12px; margin: 0 0 4px; color: #555; }
+  .order-number { font-size: 20px; font-weight: bold; letter-spacing: 1px; }
+  .right { text-align: right; }
+  .muted { color: #666; font-size: 11px; }
+  .columns { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 16px; }
+  .cod { text-align: right; }
+  .cod-amount { font-size: 18px; font-weight: bold; }
+  table { width: 100%; border-collapse: collapse; }
+  .items th, .items td { border-bottom: 1px solid #ccc; padding: 6px 4px; text-align: left; vertical-align: top; }
+  .num { text-align: right !important; white-space: nowrap; }
+  .totals { width: 50%; margin: 12px 0 0 auto; }
+  .totals td { padding: 3px 4px; }
+  .totals tr:last-child td { font-weight: bold; border-top: 1px solid #111; }
+</style>
+</head>
+<body>
+${orders.map((order) => renderOrder(order, kind, storeName, logoUrl)).join('\n')}
+</body>
+</html>`
+}
+
+/**
+ * Render orders to a PDF, one order per page
+ */
+export async function renderOrderDocumentPdf(
+  orders: Order[],
+  kind: OrderDocumentKind,
+): Promise<Uint8Array> {
+  // Loaded on demand: the website imports this config too and never prints
+  const { default: puppeteer } = await import('puppeteer')
+  const browser = await puppeteer.launch({
+    headless: true,
+    // Containers usually run without a user namespace for Chrome's sandbox
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+  })
+  try {
+    const page = await browser.newPage()
+    await page.setContent(renderOrderDocumentHtml(orders, kind), { waitUntil: 'load' })
+    return await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '10mm', bottom: '10mm', left: '10mm', right: '10mm' },
+    })
+  } finally {
+    await browser.close()
+  }
+}
+
+const parseDocumentKind = (req: PayloadRequest): OrderDocumentKind | null => {
+  const kind = req.searchParams.get('document') || 'packing-slip'
+  return ORDER_DOCUMENT_KINDS.includes(kind as OrderDocumentKind)
+    ? (kind as OrderDocumentKind)
+    : null
+}
+
+const pdfResponse = (pdf: Uint8Array, filename: string) =>
+  new Response(Buffer.from(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  })
+
+/**
+ * GET /api/orders/:id/print?document=packing-slip|invoice
+ */
+export const printOrderEndpoint: Endpoint = {
+  path: '/:id/print',
+  method: 'get',
+  handler: async (req) => {
+    if (!req.user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const kind = parseDocumentKind(req)
+    if (!kind) {
+      return Response.json({ error: 'Unknown document type' }, { status: 400 })
+    }
+
+    const order = await req.payload
+      .findByID({
+        collection: 'orders',
+        id: String(req.routeParams?.id),
+        depth: 1,
+        overrideAccess: false,
+        user: req.user,
+        req,
+      })
+      .catch(() => null)
+    if (!order) {
+      return Response.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const pdf = await renderOrderDocumentPdf([order], kind)
+    return pdfResponse(pdf, `${kind}-${order.orderNumber || order.id}.pdf`)
+  },
+}
+
+/**
+ * GET /api/orders/print?document=packing-slip|invoice
+ * Every order currently in processing, oldest first, in one PDF.
+ */
+export const printProcessingOrdersEndpoint: Endpoint = {
+  path: '/print',
+  method: 'get',
+  handler: async (req) => {
+    if (!req.user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const kind = parseDocumentKind(req)
+    if (!kind) {
+      return Response.json({ error: 'Unknown document type' }, { status: 400 })
+    }
+
+    const { docs } = await req.payload.find({
+      collection: 'orders',
+      where: { status: { equals: 'processing' } },
+      sort: 'orderDate',
+      depth: 1,
+      pagination: false,
+      overrideAccess: false,
+      user: req.user,
+      req,
+    })
+    if (docs.length === 0) {
+      return Response.json({ error: 'No orders are processing' }, { status: 404 })
+    }
+
+    const pdf = await renderOrderDocumentPdf(docs, kind)
+    const date = new Date().toISOString().slice(0, 10)
+    return pdfResponse(pdf, `${kind}-processing-${date}.pdf`)
+  },
+}
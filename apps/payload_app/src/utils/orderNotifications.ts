@@ -0,0 +1,89 @@
+/**
+ * Customer notifications for order status changes
+ *
+ * Customer emails are sent by the website, while orders are usually shipped
+ * from the admin. When an order becomes shipped, this posts a signed webhook to
+ * the website's /api/webhooks/order-shipped, which re-reads the order and sends
+ * the email. Set WEBSITE_URL to enable it. The body is signed with
+ * ORDER_WEBHOOK_SECRET (defaults to PAYLOAD_SECRET), which both apps share,
+ * together with the time it was sent, so the website can refuse old deliveries
+ * replayed later.
+ */
+
+import { createHmac } from 'crypto'
+import type { Payload } from 'payload'
+import type { Order } from '../payload-types'
+
+export const ORDER_WEBHOOK_SIGNATURE_HEADER = 'x-order-webhook-signature'
+// Unix seconds when the delivery was signed
+export const ORDER_WEBHOOK_TIMESTAMP_HEADER = 'x-order-webhook-timestamp'
+
+const SHIPPED_WEBHOOK_PATH = '/api/webhooks/order-shipped'
+
+// The website answers 409 until our transaction has committed and it can see the shipped status
+const RETRY_DELAYS_MS = [1_000, 5_000, 30_000]
+
+const getWebhookSecret = () => process.env.ORDER_WEBHOOK_SECRET || process.env.PAYLOAD_SECRET
+
+export function signOrderWebhook(body: string, timestamp: string): string | null {
+  const secret = getWebhookSecret()
+  return secret ? createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex') : null
+}
+
+/**
+ * POST a signed event to one of the website's webhooks
+ *
+ * @throws Error when WEBSITE_URL or the secret is missing, or the website does not answer 2xx
+ */
+export async function postWebsiteWebhook(path: string, event: Record<string, unknown>) {
+  const websiteUrl = process.env.WEBSITE_URL
+  if (!websiteUrl) throw new Error('WEBSITE_URL is not set')
+
+  const body = JSON.stringify(event)
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const signature = signOrderWebhook(body, timestamp)
+  if (!signature) throw new Error('No webhook secret set')
+
+  const response = await fetch(new URL(path, websiteUrl), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [ORDER_WEBHOOK_SIGNATURE_HEADER]: signature,
+      [ORDER_WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    },
+    body,
+  })
+  if (!response.ok) throw new Error(`website answered ${response.status}`)
+}
+
+/**
+ * Ask the website to email the customer that their order has shipped.
+ * Runs in the background; failures are logged and never block the order update.
+ */
+export function notifyOrderShipped(payload: Payload, order: Pick<Order, 'orderNumber'>): void {
+  if (!process.env.WEBSITE_URL || !order.orderNumber) return
+  if (!getWebhookSecret()) {
+    payload.logger.warn('[Orders] No webhook secret set; shipped emails are disabled')
+    return
+  }
+
+  const send = async (attempt: number): Promise<void> => {
+    try {
+      await postWebsiteWebhook(SHIPPED_WEBHOOK_PATH, {
+        event: 'order.shipped',
+        orderNumber: order.orderNumber,
+      })
+    } catch (error) {
+      const delay = RETRY_DELAYS_MS[attempt + 1]
+      if (delay === undefined) {
+        payload.logger.error(
+          `[Orders] Shipped email for ${order.orderNumber} not sent: ${error instanceof Error ? error.message : error}`,
+        )
+        return
+      }
+      setTimeout(() => void send(attempt + 1), delay)
+    }
+  }
+
+  setTimeout(() => void send(0), RETRY_DELAYS_MS[0])
+}
@@ -0,0 +1,67 @@
+/**
+ * Human-readable order numbers, e.g. PR-20261019-00042
+ *
+ * The daily sequence is taken with a single atomic upsert on the
+ * `order-sequences` collection, so concurrent checkouts never share a number.
+ * It deliberately runs outside the order's transaction: a rolled back order
+ * leaves a gap in the sequence instead of holding a lock on the day's counter.
+ */
+
+import type { Payload } from 'payload'
+import { APIError } from 'payload'
+import { sql } from '@payloadcms/db-postgres'
+
+export const ORDER_NUMBER_PREFIX = 'PR'
+export const ORDER_NUMBER_PATTERN = /^PR-\d{8}-\d{5,}$/
+
+const SEQUENCES_SLUG = 'order-sequences'
+const SEQUENCES_TABLE = 'order_sequences'
+const ORDER_TIME_ZONE = 'Asia/Taipei'
+
+/**
+ * Order date as YYYYMMDD in the shop's time zone
+ */
+export function formatOrderDate(date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: ORDER_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || ''
+  return `${part('year')}${part('month')}${part('day')}`
+}
+
+/**
+ * Increment and return the counter for `date`, creating it on first use
+ */
+async function nextSequenceValue(payload: Payload, date: string): Promise<number> {
+  const db = payload.db as any
+
+  if (db.name === 'mongoose') {
+    const Model = db.collections[SEQUENCES_SLUG]
+    const now = new Date()
+    const counter = await Model.findOneAndUpdate(
+      { date },
+      { $inc: { value: 1 }, $set: { updatedAt: now }, $setOnInsert: { createdAt: now } },
+      { new: true, upsert: true, lean: true },
+    )
+    return Number(counter.value)
+  }
+
+  if (db.name === 'postgres') {
+    const table = sql.identifier(db.tableNameMap.get(SEQUENCES_TABLE) || SEQUENCES_TABLE)
+    const result = await db.drizzle.execute(
+      sql`INSERT INTO ${table} ("date", "value") VALUES (${date}, 1) ON CONFLICT ("date") DO UPDATE SET "value" = ${table}."value" + 1, "updated_at" = now() RETURNING "value"`,
+    )
+    return Number(result.rows[0].value)
+  }
+
+  throw new APIError(`Order numbers are not supported for the "${db.name}" adapter`, 500)
+}
+
+export async function generateOrderNumber(payload: Payload, date: Date = new Date()) {
+  const day = formatOrderDate(date)
+  const sequence = await nextSequenceValue(payload, day)
+  return `${ORDER_NUMBER_PREFIX}-${day}-${String(sequence).padStart(5, '0')}`
+}
@@ -0,0 +1,61 @@
+/**
+ * Order status state machine
+ * Shared by the Orders collection hooks and anything that displays or changes order status
+ */
+
+import type { Order } from '../payload-types'
+
+export type OrderStatus = Order['status']
+
+export const ORDER_STATUS_OPTIONS: { label: string; value: OrderStatus }[] = [
+  { label: 'Awaiting payment', value: 'awaiting_payment' },
+  { label: 'Paid', value: 'paid' },
+  { label: 'Pending', value: 'pending' },
+  { label: 'Processing', value: 'processing' },
+  { label: 'Shipped', value: 'shipped' },
+  { label: 'Delivered', value: 'delivered' },
+  { label: 'Cancelled', value: 'cancelled' },
+]
+
+/**
+ * Statuses each status may move to. Anything not listed is rejected.
+ * Cash on delivery orders start as pending; online payments start awaiting payment.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  awaiting_payment: ['paid', 'cancelled'],
+  paid: ['processing', 'cancelled'],
+  pending: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+}
+
+/**
+ * Date field stamped on the order when it enters a status
+ */
+export const ORDER_STATUS_TIMESTAMP_FIELDS: Partial<
+  Record<OrderStatus, 'paidAt' | 'shippedAt' | 'deliveredAt' | 'cancelledAt'>
+> = {
+  paid: 'paidAt',
+  shipped: 'shippedAt',
+  delivered: 'deliveredAt',
+  cancelled: 'cancelledAt',
+}
+
+export function getOrderStatusLabel(status: string | null | undefined): string {
+  return ORDER_STATUS_OPTIONS.find((option) => option.value === status)?.label || String(status)
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || ORDER_STATUS_TRANSITIONS[from]?.includes(to) === true
+}
+
+/**
+ * Whether an order in this status keeps its items' stock reserved.
+ * Cancelled orders hand their stock back; orders left awaiting payment are
+ * cancelled by the cancelUnpaidOrders job.
+ */
+export function orderHoldsStock(status: string | null | undefined): boolean {
+  return status !== 'cancelled'
+}
@@ -0,0 +1,212 @@
+/**
+ * Stock bookkeeping for orders
+ *
+ * An order "holds" the stock of its cart items. Hooks on the Orders collection
+ * compare what the order held before and after a change and reserve or release
+ * the difference, so every path that writes orders (checkout, admin, REST,
+ * GraphQL) keeps variant mapping quantities in step.
+ */
+
+import type { PayloadRequest } from 'payload'
+import type { Order } from '../payload-types'
+import { debouncedStockUpdate } from './debouncedStockUpdate'
+import { getStockFloor } from './inventoryPolicy'
+import type { StockMovementEntry } from './stockMovements'
+import {
+  refreshProductTotalStock,
+  releaseStock,
+  reserveStock,
+  type MappingId,
+  type StockLine,
+} from './stockReservation'
+
+type OrderCartItem = Order['cartItems'][number]
+type OrderLike = Partial<Pick<Order, 'cartItems'>> | null | undefined
+
+const relationId = (value: unknown): MappingId | undefined => {
+  if (value === null || value === undefined || value === '') return undefined
+  if (typeof value === 'object' && 'id' in value) return (value as { id: MappingId }).id
+  return value as MappingId
+}
+
+/**
+ * Find the variant mapping a cart line draws stock from.
+ * Lines without a variant use the product's default mapping.
+ */
+export async function findLineMapping(req: PayloadRequest, item: OrderCartItem) {
+  const productId = relationId(item.product)
+  if (!productId) return null
+
+  const variantId = item.variant?.id
+  const result = await req.payload.find({
+    collection: 'product-variant-mappings',
+    where: {
+      and: [
+        { product: { equals: productId } },
+        variantId ? { variant: { equals: variantId } } : { isDefault: { equals: true } },
+      ],
+    },
+    depth: 0,
+    limit: 1,
+    select: {
+      displayName: true,
+      inventoryPolicy: true,
+      backorderLimit: true,
+      preorderShipDate: true,
+    },
+    req,
+  })
+
+  return result.docs[0] || null
+}
+
+/**
+ * Stock held by an order, merged per variant mapping
+ */
+export async function getOrderStockLines(
+  req: PayloadRequest,
+  order: OrderLike,
+): Promise<StockLine[]> {
+  const lines = new Map<string, StockLine>()
+
+  for (const item of order?.cartItems || []) {
+    const quantity = Number(item.quantity) || 0
+    if (quantity <= 0) continue
+
+    const mapping = await findLineMapping(req, item)
+    // Products without variant mappings have no tracked stock
+    if (!mapping) continue
+
+    const key = String(mapping.id)
+    const existing = lines.get(key)
+    if (existing) {
+      existing.quantity += quantity
+    } else {
+      lines.set(key, {
+        mappingId: mapping.id,
+        quantity,
+        label: mapping.displayName || undefined,
+        floor: getStockFloor(mapping),
+      })
+    }
+  }
+
+  return [...lines.values()]
+}
+
+/**
+ * Split the change between two sets of held stock into what to reserve and what to give back
+ */
+export function diffStockLines(
+  previous: StockLine[],
+  next: StockLine[],
+): { reserve: StockLine[]; release: StockLine[] } {
+  const previousByMapping = new Map(previous.map((line) => [String(line.mappingId), line]))
+  const nextByMapping = new Map(next.map((line) => [String(line.mappingId), line]))
+  const reserve: StockLine[] = []
+  const release: StockLine[] = []
+
+  for (const [key, line] of nextByMapping) {
+    const delta = line.quantity - (previousByMapping.get(key)?.quantity || 0)
+    if (delta > 0) reserve.push({ ...line, quantity: delta })
+    if (delta < 0) release.push({ ...line, quantity: -delta })
+  }
+
+  for (const [key, line] of previousByMapping) {
+    if (!nextByMapping.has(key)) release.push(line)
+  }
+
+  return { reserve, release }
+}
+
+/**
+ * Move stock from `previous` to `next` inside the request's transaction.
+ * Releases run first so swapping a line for a smaller one never fails spuriously.
+ *
+ * @returns Every quantity change made, for the stock ledger
+ */
+export async function applyOrderStockChange(
+  req: PayloadRequest,
+  previous: OrderLike,
+  next: OrderLike,
+): Promise<StockMovementEntry[]> {
+  const { reserve, release } = diffStockLines(
+    await getOrderStockLines(req, previous),
+    await getOrderStockLines(req, next),
+  )
+
+  return [...(await releaseStock(req, release)), ...(await reserveStock(req, reserve))]
+}
+
+// Array rows keep their id across edits; new rows fall back to what they sell
+export const getOrderLineKey = (item: OrderCartItem) =>
+  item.id || `${relationId(item.product)}:${item.variant?.id || ''}`
+
+/**
+ * Flag the units of each line that were sold beyond stock, so fulfilment holds
+ * them until stock arrives. Pass the movements applyOrderStockChange made for
+ * `items`: whatever a reservation took below 0 was backordered. Counts staff
+ * set on the lines themselves are kept, so clearing one releases the line.
+ *
+ * @returns `items` with `backorderedQuantity` and `expectedShipDate` set
+ */
+export async function markBackorderedItems(
+  req: PayloadRequest,
+  previous: OrderLike,
+  items: OrderCartItem[],
+  movements: StockMovementEntry[],
+): Promise<OrderCartItem[]> {
+  const shortfall = new Map<string, number>()
+  for (const movement of movements) {
+    if (movement.delta >= 0) continue
+    const belowZero = Math.min(-movement.delta, Math.max(0, -movement.quantityAfter))
+    const key = String(movement.mappingId)
+    if (belowZero > 0) shortfall.set(key, (shortfall.get(key) || 0) + belowZero)
+  }
+  const held = new Map((previous?.cartItems || []).map((item) => [getOrderLineKey(item), item]))
+
+  const marked: OrderCartItem[] = []
+  for (const item of items) {
+    const quantity = Number(item.quantity) || 0
+    let backordered = Math.min(
+      quantity,
+      item.backorderedQuantity ?? held.get(getOrderLineKey(item))?.backorderedQuantity ?? 0,
+    )
+
+    const mapping = await findLineMapping(req, item)
+    const key = String(mapping?.id)
+    const added = Math.min(quantity - backordered, shortfall.get(key) || 0)
+    if (added > 0) {
+      backordered += added
+      shortfall.set(key, (shortfall.get(key) || 0) - added)
+    }
+
+    marked.push({
+      ...item,
+      backorderedQuantity: backordered,
+      expectedShipDate:
+        backordered > 0 && mapping?.inventoryPolicy === 'preorder'
+          ? mapping.preorderShipDate
+          : null,
+    })
+  }
+  return marked
+}
+
+/**
+ * Schedule totalStock recalculation for every product on the given orders.
+ * Debounced so it runs once the surrounding transaction has committed.
+ */
+export function scheduleOrderProductStockRefresh(req: PayloadRequest, ...orders: OrderLike[]) {
+  const productIds = new Set<string>()
+  for (const order of orders) {
+    for (const item of order?.cartItems || []) {
+      const productId = relationId(item.product)
+      if (productId) productIds.add(String(productId))
+    }
+  }
+
+  for (const productId of productIds) {
+    debouncedStockUpdate(productId, () => refreshProductTotalStock(req.payload, productId), 500)
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Carrier CSV files for booking shipments in bulk
+ *
+ * Each carrier's booking portal takes its own column layout. Exports write one
+ * row per order in that layout; imports read the file the portal gives back
+ * and attach the tracking numbers to the matching orders. Files are UTF-8 with
+ * a byte order mark so Excel opens them with the Chinese intact.
+ */
+
+import type { Endpoint, Payload, PayloadRequest, Where } from 'payload'
+import type { Order, Product } from '../payload-types'
+import { isCarrier, type Carrier } from './carriers'
+import { getCodAmount } from './orderDocuments'
+
+interface CarrierCsvLayout {
+  /** Export columns in the portal's order */
+  columns: [header: string, value: (order: Order) => string | number][]
+  /** Accepted headers for each column of the portal's tracking file */
+  trackingFile: { orderNumber: string[]; trackingNumber: string[] }
+}
+
+// Carriers cap the description length; SHIPMENT_ITEM_DESCRIPTION replaces it for discreet parcels
+function describeItems(order: Order, maxLength: number): string {
+  const override = process.env.SHIPMENT_ITEM_DESCRIPTION
+  if (override) return override
+
+  return order.cartItems
+    .map((item) => {
+      const title = typeof item.product === 'object' ? (item.product as Product).title : '商品'
+      return `${title}${item.variant?.name ? ` ${item.variant.name}` : ''} x${item.quantity}`
+    })
+    .join('; ')
+    .slice(0, maxLength)
+}
+
+const CARRIER_LAYOUTS: Record<Carrier, CarrierCsvLayout> = {
+  tcat: {
+    columns: [
+      ['訂單編號', (order) => order.orderNumber || ''],
+      ['收件人姓名', (order) => order.name],
+      ['收件人電話', (order) => order.phone],
+      ['郵遞區號', (order) => order.deliveryAddress?.postalCode || ''],
+      ['收件人地址', (order) => order.address],
+      ['代收金額', (order) => getCodAmount(order)],
+      ['品名', (order) => describeItems(order, 20)],
+      ['備註', (order) => order.note || ''],
+    ],
+    trackingFile: {
+      orderNumber: ['訂單編號', '客戶單號'],
+      trackingNumber: ['託運單號', '查詢號碼'],
+    },
+  },
+  seven_eleven: {
+    columns: [
+      ['訂單編號', (order) => order.orderNumber || ''],
+      ['取件人姓名', (order) => order.name],
+      ['取件人手機', (order) => order.phone],
+      ['取件門市店號', (order) => order.shipping?.storeCode || ''],
+      ['取件門市名稱', (order) => order.shipping?.storeName || ''],
+      ['代收金額', (order) => getCodAmount(order)],
+      ['商品名稱', (order) => describeItems(order, 30)],
+    ],
+    trackingFile: {
+      orderNumber: ['訂單編號'],
+      trackingNumber: ['寄件代碼', '配送編號'],
+    },
+  },
+  family_mart: {
+    columns: [
+      ['訂單編號', (order) => order.orderNumber || ''],
+      ['收件人姓名', (order) => order.name],
+      ['收件人手機', (order) => order.phone],
+      ['門市店號', (order) => order.shipping?.storeCode || ''],
+      ['門市名稱', (order) => order.shipping?.storeName || ''],
+      ['代收金額', (order) => getCodAmount(order)],
+      ['商品名稱', (order) => describeItems(order, 30)],
+    ],
+    trackingFile: {
+      orderNumber: ['訂單編號'],
+      trackingNumber: ['配送單號', '寄件編號'],
+    },
+  },
+}
+
+const escapeCsvValue = (value: string | number): string => {
+  const text = String(value ?? '')
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Orders in the carrier's booking layout, header row first
+ */
+export function buildShipmentCsv(orders: Order[], carrier: Carrier): string {
+  const { columns } = CARRIER_LAYOUTS[carrier]
+  const rows = [
+    columns.map(([header]) => header),
+    ...orders.map((order) => columns.map(([, value]) => value(order))),
+  ]
+  return `\uFEFF${rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n')}\r\n`
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF or LF line ends
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''))
+}
+
+export interface TrackingImportResult {
+  updated: string[]
+  notFound: string[]
+  /** Rows without an order number or tracking number */
+  skipped: number
+}
+
+/**
+ * Read a carrier's tracking file and store each tracking number on its order.
+ * Importing the same file again is harmless.
+ *
+ * @throws Error when the file does not have the carrier's columns
+ */
+export async function importTrackingNumbers(
+  payload: Payload,
+  text: string,
+  carrier: Carrier,
+  req?: PayloadRequest,
+): Promise<TrackingImportResult> {
+  const [header = [], ...rows] = parseCsv(text)
+  const { trackingFile } = CARRIER_LAYOUTS[carrier]
+  const findColumn = (names: string[]) => header.findIndex((cell) => names.includes(cell.trim()))
+  const orderColumn = findColumn(trackingFile.orderNumber)
+  const trackingColumn = findColumn(trackingFile.trackingNumber)
+
+  if (orderColumn === -1 || trackingColumn === -1) {
+    throw new Error(
+      `Expected columns ${trackingFile.orderNumber[0]} and ${trackingFile.trackingNumber[0]} in the tracking file`,
+    )
+  }
+
+  const result: TrackingImportResult = { updated: [], notFound: [], skipped: 0 }
+  for (const row of rows) {
+    const orderNumber = row[orderColumn]?.trim().toUpperCase()
+    const trackingNumber = row[trackingColumn]?.trim()
+    if (!orderNumber || !trackingNumber) {
+      result.skipped++
+      continue
+    }
+
+    const { docs } = await payload.find({
+      collection: 'orders',
+      where: { orderNumber: { equals: orderNumber } },
+      depth: 0,
+      limit: 1,
+      req,
+    })
+    const order = docs[0]
+    if (!order) {
+      result.notFound.push(orderNumber)
+      continue
+    }
+
+    await payload.update({
+      collection: 'orders',
+      id: order.id,
+      data: { shipping: { ...order.shipping, carrier, trackingNumber } },
+      depth: 0,
+      req,
+    })
+    result.updated.push(orderNumber)
+  }
+
+  return result
+}
+
+/**
+ * Orders to export, oldest first
+ */
+export async function findOrdersForShipment(
+  payload: Payload,
+  where: Where,
+  req?: PayloadRequest,
+): Promise<Order[]> {
+  const { docs } = await payload.find({
+    collection: 'orders',
+    where,
+    sort: 'orderDate',
+    depth: 1,
+    pagination: false,
+    ...(req ? { req, user: req.user, overrideAccess: false } : {}),
+  })
+  return docs
+}
+
+/**
+ * GET /api/orders/shipments/export?carrier=tcat&where[...]
+ * Exports the orders matching `where`: the admin list's selection or filters.
+ */
+export const exportShipmentsEndpoint: Endpoint = {
+  path: '/shipments/export',
+  method: 'get',
+  handler: async (req) => {
+    if (!req.user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const carrier = req.searchParams.get('carrier')
+    if (!isCarrier(carrier)) {
+      return Response.json({ error: 'Unknown carrier' }, { status: 400 })
+    }
+
+    const where = (req.query?.where as Where | undefined) || {
+      status: { equals: 'processing' },
+    }
+    const orders = await findOrdersForShipment(req.payload, where, req)
+    const date = new Date().toISOString().slice(0, 10)
+
+    return new Response(buildShipmentCsv(orders, carrier), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${carrier}-${date}.csv"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  },
+}
+
+/**
+ * POST /api/orders/shipments/import?carrier=tcat with the tracking file as the body
+ */
+export const importTrackingEndpoint: Endpoint = {
+  path: '/shipments/import',
+  method: 'post',
+  handler: async (req) => {
+    if (!req.user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const carrier = req.searchParams.get('carrier')
+    if (!isCarrier(carrier) || !req.text) {
+      return Response.json({ error: 'Unknown carrier' }, { status: 400 })
+    }
+
+    try {
+      const result = await importTrackingNumbers(req.payload, await req.text(), carrier, req)
+      return Response.json(result)
+    } catch (error) {
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Could not read the tracking file' },
+        { status: 400 },
+      )
+    }
+  },
+}
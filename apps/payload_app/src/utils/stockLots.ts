@@ -0,0 +1,349 @@
+/**
+ * Lot-tracked stock: lot numbers, expiry dates and first-expiry-first-out
+ *
+ * Batches of a medicine with different expiry dates are not interchangeable,
+ * so a variant mapping's stock can be split into `stock-lots`. The mapping's
+ * `quantity` stays the sellable total that checkout reserves against; for a
+ * lot-tracked mapping it is the sum of its lots that have not been written off.
+ *
+ * - Orders take stock from the lots that expire first and record the lots used
+ *   on each cart item, for traceability and recalls.
+ * - Lots received, counted or deleted in the admin move the mapping's quantity
+ *   with them.
+ * - An hourly job writes expired lots off, which takes them out of the
+ *   sellable quantity and so out of the product's totalStock.
+ */
+
+import type { Endpoint, PayloadRequest, TaskConfig } from 'payload'
+import { APIError } from 'payload'
+import type { Order, StockLot } from '../payload-types'
+import { debouncedStockUpdate } from './debouncedStockUpdate'
+import { findLineMapping, getOrderLineKey } from './orderStock'
+import {
+  recordStockMovements,
+  type StockMovementEntry,
+  type StockMovementReason,
+} from './stockMovements'
+import {
+  adjustLotQuantity,
+  adjustMappingQuantity,
+  InsufficientStockError,
+  refreshProductTotalStock,
+  type MappingId,
+} from './stockReservation'
+
+export const STOCK_LOTS_QUEUE = 'stock-lots'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// What the expiring lots report shows unless asked for another window
+export const DEFAULT_EXPIRY_WINDOW_DAYS = 90
+
+type OrderCartItem = Order['cartItems'][number]
+type LotAllocation = NonNullable<OrderCartItem['lots']>[number]
+type OrderLike = Partial<Pick<Order, 'cartItems'>> | null | undefined
+
+const relationId = (value: unknown): MappingId | undefined => {
+  if (value === null || value === undefined || value === '') return undefined
+  if (typeof value === 'object' && 'id' in value) return (value as { id: MappingId }).id
+  return value as MappingId
+}
+
+const sumQuantities = (allocations: LotAllocation[]) =>
+  allocations.reduce((total, allocation) => total + allocation.quantity, 0)
+
+/**
+ * The part of a lot that counts towards its mapping's sellable quantity
+ */
+export const getSellableLotQuantity = (
+  lot: Partial<Pick<StockLot, 'quantity' | 'writtenOff'>> | null | undefined,
+): number => (lot && !lot.writtenOff ? Number(lot.quantity || 0) : 0)
+
+/**
+ * Take `quantity` from the mapping's unexpired lots, earliest expiry first
+ *
+ * @returns The lots taken from; they hold less than asked when the lots run short
+ */
+async function allocateLots(
+  req: PayloadRequest,
+  mappingId: MappingId,
+  quantity: number,
+): Promise<LotAllocation[]> {
+  const { docs: lots } = await req.payload.find({
+    collection: 'stock-lots',
+    where: {
+      and: [
+        { mapping: { equals: mappingId } },
+        { quantity: { greater_than: 0 } },
+        { writtenOff: { not_equals: true } },
+        { expiryDate: { greater_than: new Date().toISOString() } },
+      ],
+    },
+    sort: 'expiryDate',
+    depth: 0,
+    pagination: false,
+    req,
+  })
+
+  const allocations: LotAllocation[] = []
+  let needed = quantity
+  for (const lot of lots) {
+    let available = lot.quantity
+    // Another order may have taken from the lot since it was read: take what it has left
+    while (needed > 0 && available > 0) {
+      const take = Math.min(needed, available)
+      if ((await adjustLotQuantity(req, lot.id, -take)) !== null) {
+        allocations.push({
+          lot: lot.id,
+          lotNumber: lot.lotNumber,
+          expiryDate: lot.expiryDate,
+          quantity: take,
+        })
+        needed -= take
+        break
+      }
+      const current = await req.payload
+        .findByID({ collection: 'stock-lots', id: lot.id, depth: 0, req })
+        .catch(() => null)
+      available = getSellableLotQuantity(current)
+    }
+    if (needed <= 0) break
+  }
+  return allocations
+}
+
+/**
+ * Put `quantity` back into the lots it was taken from, latest expiry first.
+ * Stock that goes back into a written-off lot cannot be sold, so it is taken
+ * out of the mapping's quantity again.
+ *
+ * @returns The allocations still held, and ledger entries for the written-off returns
+ */
+async function returnLots(
+  req: PayloadRequest,
+  mappingId: MappingId | undefined,
+  allocations: LotAllocation[],
+  quantity: number,
+): Promise<{ kept: LotAllocation[]; writtenOff: StockMovementEntry[] }> {
+  const kept = allocations.map((allocation) => ({ ...allocation }))
+  const writtenOff: StockMovementEntry[] = []
+  let remaining = quantity
+
+  const latestExpiryFirst = [...kept].sort((a, b) =>
+    String(b.expiryDate).localeCompare(String(a.expiryDate)),
+  )
+  for (const allocation of latestExpiryFirst) {
+    if (remaining <= 0) break
+    const amount = Math.min(remaining, allocation.quantity)
+    remaining -= amount
+    allocation.quantity -= amount
+
+    const lotId = relationId(allocation.lot)
+    // Null when the lot has been deleted since
+    if (!lotId || (await adjustLotQuantity(req, lotId, amount)) === null) continue
+
+    const lot = await req.payload
+      .findByID({ collection: 'stock-lots', id: lotId as string, depth: 0, req })
+      .catch(() => null)
+    if (lot?.writtenOff && mappingId) {
+      const quantityAfter = await adjustMappingQuantity(req, mappingId, -amount)
+      if (quantityAfter !== null) {
+        writtenOff.push({ mappingId, delta: -amount, quantityAfter, lot: lotId })
+      }
+    }
+  }
+
+  return { kept: kept.filter((allocation) => allocation.quantity > 0), writtenOff }
+}
+
+/**
+ * Keep the lots recorded on an order's cart items in step with the stock it
+ * holds. Call after applyOrderStockChange with the same `previous` and `next`.
+ * An order that stops holding stock gives its lots back but keeps them on
+ * its cart items for the record.
+ *
+ * @returns `next`'s cart items with their lots, and ledger entries for stock
+ *   that went back into written-off lots
+ * @throws InsufficientStockError when a lot-tracked variant's unexpired lots run short
+ */
+export async function applyOrderLotChange(
+  req: PayloadRequest,
+  previous: OrderLike,
+  next: OrderLike,
+): Promise<{ cartItems?: OrderCartItem[]; writtenOff: StockMovementEntry[] }> {
+  const writtenOff: StockMovementEntry[] = []
+  const held = new Map((previous?.cartItems || []).map((item) => [getOrderLineKey(item), item]))
+
+  const cartItems: OrderCartItem[] = []
+  for (const item of next?.cartItems || []) {
+    const key = getOrderLineKey(item)
+    let lots = held.get(key)?.lots || []
+    held.delete(key)
+
+    const wanted = Number(item.quantity) || 0
+    const heldQuantity = sumQuantities(lots)
+    const mapping = await findLineMapping(req, item)
+    if (mapping && wanted > heldQuantity) {
+      const allocated = await allocateLots(req, mapping.id, wanted - heldQuantity)
+      // The mapping's quantity can still count a lot that expired since the last write-off run
+      if (
+        sumQuantities(allocated) < wanted - heldQuantity &&
+        (await isLotTracked(req, mapping.id))
+      ) {
+        throw new InsufficientStockError([
+          {
+            mappingId: mapping.id,
+            label: mapping.displayName || undefined,
+            requested: wanted - heldQuantity,
+          },
+        ])
+      }
+      lots = [...lots, ...allocated]
+    } else if (wanted < heldQuantity) {
+      const result = await returnLots(req, mapping?.id, lots, heldQuantity - wanted)
+      lots = result.kept
+      writtenOff.push(...result.writtenOff)
+    }
+    cartItems.push({ ...item, lots })
+  }
+
+  // Lines removed from the order, or every line when it no longer holds stock
+  for (const item of held.values()) {
+    if (!item.lots?.length) continue
+    const mapping = await findLineMapping(req, item)
+    const result = await returnLots(req, mapping?.id, item.lots, sumQuantities(item.lots))
+    writtenOff.push(...result.writtenOff)
+  }
+
+  return { cartItems: next ? cartItems : undefined, writtenOff }
+}
+
+/**
+ * Move the mapping's quantity by the change in a lot's sellable quantity, and
+ * log it. Runs from the StockLots hooks, inside the lot's transaction.
+ */
+export async function applyLotQuantityChange(
+  req: PayloadRequest,
+  lot: StockLot,
+  previous: StockLot | null,
+  {
+    reason,
+    note,
+    linkLot = true,
+  }: { reason: StockMovementReason; note: string; linkLot?: boolean },
+): Promise<void> {
+  const delta = getSellableLotQuantity(lot) - getSellableLotQuantity(previous)
+  const mappingId = relationId(lot.mapping)
+  if (delta === 0 || !mappingId) return
+
+  const quantityAfter = await adjustMappingQuantity(req, mappingId, delta)
+  if (quantityAfter === null) {
+    throw new APIError(
+      `Lot ${lot.lotNumber}: the variant has less stock than this change removes. Count its other lots first.`,
+      409,
+      undefined,
+      true,
+    )
+  }
+  await recordStockMovements(
+    req,
+    [{ mappingId, delta, quantityAfter, lot: linkLot ? lot.id : null }],
+    { reason, note },
+  )
+
+  const mapping = await req.payload.findByID({
+    collection: 'product-variant-mappings',
+    id: mappingId as string,
+    depth: 0,
+    select: { product: true },
+    req,
+  })
+  const productId = relationId(mapping.product)
+  if (productId) {
+    debouncedStockUpdate(productId, () => refreshProductTotalStock(req.payload, productId), 500)
+  }
+}
+
+/**
+ * Whether a mapping's stock is split into lots
+ */
+export async function isLotTracked(req: PayloadRequest, mappingId: MappingId): Promise<boolean> {
+  const { totalDocs } = await req.payload.count({
+    collection: 'stock-lots',
+    where: { mapping: { equals: mappingId } },
+    req,
+  })
+  return totalDocs > 0
+}
+
+export const writeOffExpiredLotsTask: TaskConfig<{
+  input: object
+  output: { writtenOff: number }
+}> = {
+  slug: 'writeOffExpiredLots',
+  label: 'Write off expired stock lots',
+  schedule: [{ cron: '0 * * * *', queue: STOCK_LOTS_QUEUE }],
+  outputSchema: [{ name: 'writtenOff', type: 'number', required: true }],
+  handler: async ({ req }) => {
+    const { docs: expired } = await req.payload.find({
+      collection: 'stock-lots',
+      where: {
+        and: [
+          { writtenOff: { not_equals: true } },
+          { expiryDate: { less_than_equal: new Date().toISOString() } },
+        ],
+      },
+      depth: 0,
+      pagination: false,
+      req,
+    })
+
+    // The StockLots hooks take each lot out of its mapping's quantity and log it
+    for (const lot of expired) {
+      await req.payload.update({
+        collection: 'stock-lots',
+        id: lot.id,
+        data: { writtenOff: true },
+        context: { stockChangeReason: 'expired' },
+        depth: 0,
+        req,
+      })
+    }
+    return { output: { writtenOff: expired.length } }
+  },
+}
+
+/**
+ * GET /api/stock-lots/expiring?days=90
+ * Lots still in stock that expire within `days`, soonest first
+ */
+export const expiringLotsEndpoint: Endpoint = {
+  path: '/expiring',
+  method: 'get',
+  handler: async (req) => {
+    if (!req.user) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    const requested = Number(req.searchParams.get('days'))
+    const days =
+      Number.isInteger(requested) && requested > 0 ? requested : DEFAULT_EXPIRY_WINDOW_DAYS
+
+    const { docs } = await req.payload.find({
+      collection: 'stock-lots',
+      where: {
+        and: [
+          { writtenOff: { not_equals: true } },
+          { quantity: { greater_than: 0 } },
+          { expiryDate: { less_than_equal: new Date(Date.now() + days * DAY).toISOString() } },
+        ],
+      },
+      sort: 'expiryDate',
+      depth: 1,
+      pagination: false,
+      overrideAccess: false,
+      user: req.user,
+      req,
+    })
+    return Response.json({ days, docs })
+  },
+}
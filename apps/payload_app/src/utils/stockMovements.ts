@@ -0,0 +1,109 @@
+/**
+ * Stock movement ledger
+ *
+ * Every change to a variant mapping's quantity adds one row to
+ * `stock-movements`: the change, the quantity it left and why. Rows are only
+ * ever appended, so the history of a count can be read back line by line.
+ */
+
+import type { PayloadRequest } from 'payload'
+import type { StockMovement } from '../payload-types'
+import type { MappingId } from './stockReservation'
+
+export const STOCK_MOVEMENT_REASON_OPTIONS = [
+  { label: 'Sale', value: 'sale' },
+  { label: 'Cancellation restock', value: 'cancel_restock' },
+  { label: 'Order edited', value: 'order_edit' },
+  { label: 'Manual adjustment', value: 'manual_adjustment' },
+  { label: 'Receiving', value: 'receiving' },
+  { label: 'Stocktake', value: 'stocktake' },
+  { label: 'Lot expired', value: 'expired' },
+]
+
+/** Reasons staff choose from when they change a quantity themselves */
+export const MANUAL_STOCK_MOVEMENT_REASONS = ['manual_adjustment', 'receiving', 'stocktake']
+
+export type StockMovementReason = StockMovement['reason']
+
+export interface StockMovementEntry {
+  mappingId: MappingId
+  delta: number
+  /** The mapping's quantity once the change was applied */
+  quantityAfter: number
+  /** Stock lot the change came from or went to, for lot-tracked variants */
+  lot?: MappingId | null
+}
+
+export interface StockMovementSource {
+  reason: StockMovementReason
+  order?: MappingId | null
+  note?: string | null
+}
+
+export const getStockMovementReasonLabel = (reason: string | null | undefined) =>
+  STOCK_MOVEMENT_REASON_OPTIONS.find((option) => option.value === reason)?.label || reason || ''
+
+/**
+ * Append one ledger row per entry, in the request's transaction
+ */
+export async function recordStockMovements(
+  req: PayloadRequest,
+  entries: StockMovementEntry[],
+  { reason, order, note }: StockMovementSource,
+): Promise<void> {
+  for (const entry of entries) {
+    if (entry.delta === 0) continue
+    await req.payload.create({
+      collection: 'stock-movements',
+      data: {
+        mapping: entry.mappingId as string,
+        delta: entry.delta,
+        quantityAfter: entry.quantityAfter,
+        reason,
+        lot: (entry.lot as string) ?? null,
+        order: (order as string) ?? null,
+        user: req.user?.collection === 'users' ? req.user.id : null,
+        note: note || null,
+      },
+      depth: 0,
+      req,
+    })
+  }
+}
+
+interface QueuedStockMovements extends StockMovementSource {
+  entries: StockMovementEntry[]
+}
+
+const getQueue = (req: PayloadRequest) =>
+  (req.context.pendingStockMovements ??= {}) as Record<string, QueuedStockMovements[]>
+
+/**
+ * Hold ledger rows until the document they belong to is saved.
+ * Order hooks move stock before a new order has an id to link to.
+ */
+export function queueStockMovements(
+  req: PayloadRequest,
+  key: string,
+  movements: QueuedStockMovements,
+): void {
+  const queue = getQueue(req)
+  ;(queue[key] ||= []).push(movements)
+}
+
+/**
+ * Write the rows queued under `key`, linked to `order`
+ */
+export async function recordQueuedStockMovements(
+  req: PayloadRequest,
+  key: string,
+  order: MappingId,
+): Promise<void> {
+  const queue = getQueue(req)
+  const pending = queue[key] || []
+  delete queue[key]
+
+  for (const { entries, ...source } of pending) {
+    await recordStockMovements(req, entries, { ...source, order })
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Atomic stock reservation for product variant mappings and their lots
+ *
+ * Reading `quantity` and writing `quantity - n` in two calls lets concurrent
+ * checkouts oversell the last unit. These helpers push the check and the
+ * decrement into a single conditional statement on the database, and join the
+ * transaction attached to `req` so they commit or roll back with the order.
+ */
+
+import type { Payload, PayloadRequest } from 'payload'
+import { APIError } from 'payload'
+import { sql } from '@payloadcms/db-postgres'
+import { calculateTotalStock } from './stockUtils'
+import type { StockMovementEntry } from './stockMovements'
+import { resolveTransactionID } from './transaction'
+
+export type MappingId = string | number
+
+export interface StockLine {
+  mappingId: MappingId
+  quantity: number
+  /** Human readable name used in error messages, e.g. "Product - Variant" */
+  label?: string
+  /** Lowest quantity a reservation may leave; below 0 for backorders and preorders */
+  floor?: number
+}
+
+export interface StockShortage {
+  mappingId: MappingId
+  label?: string
+  requested: number
+}
+
+/**
+ * Thrown when one or more lines cannot be reserved
+ */
+export class InsufficientStockError extends APIError {
+  shortages: StockShortage[]
+
+  constructor(shortages: StockShortage[]) {
+    const details = shortages
+      .map((s) => `${s.label || `mapping ${s.mappingId}`}: requested ${s.requested}`)
+      .join(', ')
+    super(`Insufficient stock for the following items: ${details}`, 409, { shortages }, true)
+    this.shortages = shortages
+  }
+}
+
+const MAPPINGS_SLUG = 'product-variant-mappings'
+const MAPPINGS_TABLE = 'product_variant_mappings'
+const LOTS_SLUG = 'stock-lots'
+const LOTS_TABLE = 'stock_lots'
+
+/**
+ * Apply `delta` to a document's `quantity` in one statement.
+ * Negative deltas only succeed when enough is left, so the quantity never goes below `floor`.
+ *
+ * @returns The resulting quantity, or null when the condition did not match
+ */
+async function adjustQuantity(
+  req: PayloadRequest,
+  slug: string,
+  tableName: string,
+  id: MappingId,
+  delta: number,
+  floor = 0,
+): Promise<number | null> {
+  const { payload } = req
+  const db = payload.db as any
+  const transactionID = await resolveTransactionID(req)
+
+  if (db.name === 'mongoose') {
+    const Model = db.collections[slug]
+    const session = transactionID ? db.sessions[transactionID] : undefined
+    const filter: Record<string, unknown> = { _id: id }
+    if (delta < 0) filter.quantity = { $gte: floor - delta }
+
+    const updated = await Model.findOneAndUpdate(
+      filter,
+      { $inc: { quantity: delta }, $set: { updatedAt: new Date() } },
+      { new: true, session, lean: true },
+    )
+    return updated ? Number(updated.quantity) : null
+  }
+
+  if (db.name === 'postgres') {
+    const drizzle = (transactionID && db.sessions[transactionID]?.db) || db.drizzle
+    const table = sql.identifier(db.tableNameMap.get(tableName) || tableName)
+    const condition = delta < 0 ? sql` AND "quantity" >= ${floor - delta}` : sql``
+
+    const result = await drizzle.execute(
+      sql`UPDATE ${table} SET "quantity" = "quantity" + ${delta}, "updated_at" = now() WHERE "id" = ${id}${condition} RETURNING "quantity"`,
+    )
+    const row = result.rows?.[0]
+    return row ? Number(row.quantity) : null
+  }
+
+  throw new APIError(`Atomic stock updates are not supported for the "${db.name}" adapter`, 500)
+}
+
+/**
+ * Apply `delta` to a mapping's quantity in one statement; never below `floor`.
+ *
+ * @returns The resulting quantity, or null when not enough stock was left
+ */
+export const adjustMappingQuantity = (
+  req: PayloadRequest,
+  mappingId: MappingId,
+  delta: number,
+  floor = 0,
+) => adjustQuantity(req, MAPPINGS_SLUG, MAPPINGS_TABLE, mappingId, delta, floor)
+
+/**
+ * Apply `delta` to a stock lot's quantity in one statement; never below 0.
+ *
+ * @returns The resulting quantity, or null when the lot did not hold enough
+ */
+export const adjustLotQuantity = (req: PayloadRequest, lotId: MappingId, delta: number) =>
+  adjustQuantity(req, LOTS_SLUG, LOTS_TABLE, lotId, delta)
+
+/**
+ * Decrement stock for every line, or none of them.
+ * Inside a transaction the caller rolls back on error; without one, lines that
+ * were already taken are given back before throwing.
+ *
+ * @returns What changed, for the stock ledger
+ */
+export async function reserveStock(
+  req: PayloadRequest,
+  lines: StockLine[],
+): Promise<StockMovementEntry[]> {
+  const reserved: StockLine[] = []
+  const movements: StockMovementEntry[] = []
+  const shortages: StockShortage[] = []
+
+  for (const line of lines) {
+    if (line.quantity <= 0) continue
+
+    const remaining = await adjustMappingQuantity(
+      req,
+      line.mappingId,
+      -line.quantity,
+      line.floor ?? 0,
+    )
+    if (remaining === null) {
+      shortages.push({ mappingId: line.mappingId, label: line.label, requested: line.quantity })
+      // Keep checking the other lines so the customer sees every problem at once
+      continue
+    }
+    reserved.push(line)
+    movements.push({ mappingId: line.mappingId, delta: -line.quantity, quantityAfter: remaining })
+  }
+
+  if (shortages.length > 0) {
+    if (!(await resolveTransactionID(req))) {
+      await releaseStock(req, reserved)
+    }
+    throw new InsufficientStockError(shortages)
+  }
+  return movements
+}
+
+/**
+ * Give stock back for every line (cancellations, failed orders)
+ *
+ * @returns What changed, for the stock ledger
+ */
+export async function releaseStock(
+  req: PayloadRequest,
+  lines: StockLine[],
+): Promise<StockMovementEntry[]> {
+  const movements: StockMovementEntry[] = []
+  for (const line of lines) {
+    if (line.quantity <= 0) continue
+    const quantityAfter = await adjustMappingQuantity(req, line.mappingId, line.quantity)
+    // Null only when the mapping was deleted in the meantime
+    if (quantityAfter !== null) {
+      movements.push({ mappingId: line.mappingId, delta: line.quantity, quantityAfter })
+    }
+  }
+  return movements
+}
+
+/**
+ * Recalculate a product's stored totalStock from its active mappings.
+ * Raw quantity updates bypass collection hooks, so call this once they are committed.
+ */
+export async function refreshProductTotalStock(
+  payload: Payload,
+  productId: MappingId,
+): Promise<void> {
+  const productMappings = await payload.find({
+    collection: MAPPINGS_SLUG,
+    where: {
+      product: { equals: productId },
+    },
+    limit: 1000,
+    depth: 0,
+    select: {
+      quantity: true,
+      isActive: true,
+    },
+  })
+
+  const totalStock = calculateTotalStock(productMappings.docs)
+
+  // Only update if totalStock has changed to avoid unnecessary updates
+  const currentProduct = await payload.findByID({
+    collection: 'products',
+    id: productId as string,
+    select: {
+      totalStock: true,
+    },
+  })
+
+  if (currentProduct.totalStock !== totalStock) {
+    await payload.update({
+      collection: 'products',
+      id: productId as string,
+      data: { totalStock },
+      overrideAccess: true,
+    })
+  }
+}
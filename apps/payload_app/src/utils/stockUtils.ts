@@ -23,9 +23,12 @@ export function calculateTotalStock(mappings: VariantMapping[]): number {
     return 0
   }
 
-  return mappings
-    .filter((mapping) => mapping.isActive === true)
-    .reduce((total, mapping) => total + (mapping.quantity || 0), 0)
+  return (
+    mappings
+      .filter((mapping) => mapping.isActive === true)
+      // Backorders take a quantity below 0; they never cancel out another variant's stock
+      .reduce((total, mapping) => total + Math.max(0, mapping.quantity || 0), 0)
+  )
 }
 
 /**
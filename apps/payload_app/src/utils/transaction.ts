@@ -0,0 +1,12 @@
+import type { PayloadRequest } from 'payload'
+
+/**
+ * ID of the transaction attached to `req`, if any.
+ * Raw database statements pass it to the adapter's session so they commit with the request.
+ */
+export async function resolveTransactionID(
+  req: PayloadRequest,
+): Promise<string | number | undefined> {
+  const transactionID = req.transactionID
+  return transactionID instanceof Promise ? await transactionID : transactionID
+}
@@ -0,0 +1,80 @@
+/**
+ * Cancel card orders whose payment never arrived
+ *
+ * Card orders reserve stock and coupon uses while they await payment. A customer
+ * who closes the gateway page never pays, so a job that runs every 5 minutes
+ * cancels orders still awaiting payment after PAYMENT_TIMEOUT_MINUTES (default
+ * 60). Cancelling runs the Orders hooks, which give the stock and the coupon
+ * use back. A payment the gateway reports after that is refused and logged by
+ * the website, for staff to refund.
+ */
+
+import type { TaskConfig } from 'payload'
+
+export const UNPAID_ORDERS_QUEUE = 'unpaid-orders'
+
+const MINUTE = 60 * 1000
+
+// One run cancels at most this many; the rest wait for the next run
+const CANCEL_BATCH_SIZE = 50
+
+const getPaymentTimeoutMinutes = (): number => {
+  const minutes = Number(process.env.PAYMENT_TIMEOUT_MINUTES)
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : 60
+}
+
+export const cancelUnpaidOrdersTask: TaskConfig<{
+  input: object
+  output: { cancelled: number; failed: number }
+}> = {
+  slug: 'cancelUnpaidOrders',
+  label: 'Cancel orders whose payment timed out',
+  schedule: [{ cron: '*/5 * * * *', queue: UNPAID_ORDERS_QUEUE }],
+  outputSchema: [
+    { name: 'cancelled', type: 'number', required: true },
+    { name: 'failed', type: 'number', required: true },
+  ],
+  handler: async ({ req }) => {
+    const { payload } = req
+    const timeout = getPaymentTimeoutMinutes()
+
+    const { docs: due } = await payload.find({
+      collection: 'orders',
+      where: {
+        and: [
+          { status: { equals: 'awaiting_payment' } },
+          { createdAt: { less_than: new Date(Date.now() - timeout * MINUTE).toISOString() } },
+        ],
+      },
+      sort: 'createdAt',
+      limit: CANCEL_BATCH_SIZE,
+      depth: 0,
+      req,
+    })
+
+    let cancelled = 0
+    let failed = 0
+    // Each in its own transaction, so one failure does not keep the others' stock held
+    for (const order of due) {
+      try {
+        await payload.update({
+          collection: 'orders',
+          id: order.id,
+          data: {
+            status: 'cancelled',
+            statusChangeReason: `Payment not received within ${timeout} minutes`,
+          },
+          depth: 0,
+        })
+        cancelled++
+      } catch (error) {
+        failed++
+        payload.logger.error(
+          `[UnpaidOrders] Could not cancel ${order.orderNumber || order.id}: ${error instanceof Error ? error.message : error}`,
+        )
+      }
+    }
+
+    return { output: { cancelled, failed } }
+  },
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ORDER_STATUS_OPTIONS,
+  ORDER_STATUS_TRANSITIONS,
+  canTransitionOrderStatus,
+  orderHoldsStock,
+  type OrderStatus,
+} from '@/utils/orderStatus'
+
+describe('order status transitions', () => {
+  it('follows the payment and fulfilment flow', () => {
+    expect(canTransitionOrderStatus('awaiting_payment', 'paid')).toBe(true)
+    expect(canTransitionOrderStatus('paid', 'processing')).toBe(true)
+    expect(canTransitionOrderStatus('pending', 'processing')).toBe(true)
+    expect(canTransitionOrderStatus('processing', 'shipped')).toBe(true)
+    expect(canTransitionOrderStatus('shipped', 'delivered')).toBe(true)
+  })
+
+  it('rejects skipping steps or going back', () => {
+    expect(canTransitionOrderStatus('awaiting_payment', 'processing')).toBe(false)
+    expect(canTransitionOrderStatus('pending', 'shipped')).toBe(false)
+    expect(canTransitionOrderStatus('shipped', 'processing')).toBe(false)
+    expect(canTransitionOrderStatus('delivered', 'shipped')).toBe(false)
+  })
+
+  it('allows cancelling until the order ships', () => {
+    for (const status of ['awaiting_payment', 'paid', 'pending', 'processing'] as OrderStatus[]) {
+      expect(canTransitionOrderStatus(status, 'cancelled')).toBe(true)
+    }
+    expect(canTransitionOrderStatus('shipped', 'cancelled')).toBe(false)
+    expect(canTransitionOrderStatus('delivered', 'cancelled')).toBe(false)
+  })
+
+  it('treats delivered and cancelled as final', () => {
+    for (const option of ORDER_STATUS_OPTIONS) {
+      if (option.value === 'delivered' || option.value === 'cancelled') continue
+      expect(canTransitionOrderStatus('delivered', option.value)).toBe(false)
+      expect(canTransitionOrderStatus('cancelled', option.value)).toBe(false)
+    }
+  })
+
+  it('allows saving without a status change', () => {
+    for (const option of ORDER_STATUS_OPTIONS) {
+      expect(canTransitionOrderStatus(option.value, option.value)).toBe(true)
+    }
+  })
+
+  it('lists a transition for every status', () => {
+    expect(Object.keys(ORDER_STATUS_TRANSITIONS).sort()).toEqual(
+      ORDER_STATUS_OPTIONS.map((option) => option.value).sort(),
+    )
+  })
+
+  it('releases stock only for cancelled orders', () => {
+    expect(orderHoldsStock('cancelled')).toBe(false)
+    expect(orderHoldsStock('pending')).toBe(true)
+    expect(orderHoldsStock('delivered')).toBe(true)
+  })
+})
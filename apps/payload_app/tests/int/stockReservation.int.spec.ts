@@ -0,0 +1,96 @@
+import type { PayloadRequest } from 'payload'
+import { describe, it, expect } from 'vitest'
+import {
+  InsufficientStockError,
+  adjustMappingQuantity,
+  reserveStock,
+} from '@/utils/stockReservation'
+
+// Stands in for the mongoose model: the same conditional $inc the adapter runs in one statement
+function createRequest(quantities: Record<string, number>, transactionID?: string) {
+  const findOneAndUpdate = async (
+    filter: { _id: string; quantity?: { $gte: number } },
+    update: { $inc: { quantity: number } },
+  ) => {
+    const quantity = quantities[filter._id]
+    if (quantity === undefined) return null
+    if (filter.quantity && quantity < filter.quantity.$gte) return null
+    quantities[filter._id] = quantity + update.$inc.quantity
+    return { quantity: quantities[filter._id] }
+  }
+
+  return {
+    transactionID,
+    payload: {
+      db: {
+        name: 'mongoose',
+        collections: { 'product-variant-mappings': { findOneAndUpdate } },
+        sessions: {},
+      },
+    },
+  } as unknown as PayloadRequest
+}
+
+describe('stock reservation', () => {
+  it('takes stock for every line and reports what changed', async () => {
+    const quantities = { a: 5, b: 2 }
+    const movements = await reserveStock(createRequest(quantities), [
+      { mappingId: 'a', quantity: 3 },
+      { mappingId: 'b', quantity: 2 },
+    ])
+
+    expect(quantities).toEqual({ a: 2, b: 0 })
+    expect(movements).toEqual([
+      { mappingId: 'a', delta: -3, quantityAfter: 2 },
+      { mappingId: 'b', delta: -2, quantityAfter: 0 },
+    ])
+  })
+
+  it('rejects the whole order and gives back lines already taken', async () => {
+    const quantities = { a: 5, b: 1 }
+    const reservation = reserveStock(createRequest(quantities), [
+      { mappingId: 'a', quantity: 3 },
+      { mappingId: 'b', quantity: 2, label: 'Vitamin C - 60 tablets' },
+    ])
+
+    await expect(reservation).rejects.toBeInstanceOf(InsufficientStockError)
+    await expect(reservation).rejects.toMatchObject({
+      shortages: [{ mappingId: 'b', label: 'Vitamin C - 60 tablets', requested: 2 }],
+    })
+    expect(quantities).toEqual({ a: 5, b: 1 })
+  })
+
+  it('leaves giving back to the rollback inside a transaction', async () => {
+    const quantities = { a: 5, b: 1 }
+    await expect(
+      reserveStock(createRequest(quantities, 'tx'), [
+        { mappingId: 'a', quantity: 3 },
+        { mappingId: 'b', quantity: 2 },
+      ]),
+    ).rejects.toBeInstanceOf(InsufficientStockError)
+    expect(quantities).toEqual({ a: 2, b: 1 })
+  })
+
+  it('never goes below 0 by default', async () => {
+    const quantities = { a: 1 }
+    expect(await adjustMappingQuantity(createRequest(quantities), 'a', -2)).toBeNull()
+    expect(await adjustMappingQuantity(createRequest(quantities), 'a', -1)).toBe(0)
+    expect(quantities.a).toBe(0)
+  })
+
+  it('sells down to the floor for backorders, and no further', async () => {
+    const quantities = { a: 1 }
+    await reserveStock(createRequest(quantities), [{ mappingId: 'a', quantity: 4, floor: -3 }])
+    expect(quantities.a).toBe(-3)
+
+    await expect(
+      reserveStock(createRequest(quantities), [{ mappingId: 'a', quantity: 1, floor: -3 }]),
+    ).rejects.toBeInstanceOf(InsufficientStockError)
+    expect(quantities.a).toBe(-3)
+  })
+
+  it('always accepts stock coming back', async () => {
+    const quantities = { a: -2 }
+    expect(await adjustMappingQuantity(createRequest(quantities), 'a', 5)).toBe(3)
+  })
+})
@@ -1,7 +1,8 @@
 import { atom, computed } from "nanostores";
 import type { Product } from "payload_app";
 import { compareVariantIds, normalizeVariantId } from "@/lib/utils/variantId";
-import type { VariantId } from "@/lib/shopify/types";
+import type { PriceTier, VariantId } from "@/lib/shopify/types";
+import { getCartItemUnitPrice } from "@/lib/utils/pricing";
 
 // Atom to manage the layout view state (card or list)
 export const layoutView = atom<"card" | "list">("card");
@@ -28,6 +29,7 @@ export interface CartItem {
     mappingId?: VariantId;
     name: string;
     price: number;
+    priceTiers?: PriceTier[];
     stock: number;
     sku?: string;
   } | null;
@@ -158,7 +160,10 @@ export const cartOperations = {
 export const cartItems = atom<CartItem[]>([]);
 cartStore.subscribe((state) => cartItems.set(state.items));
 export const cartTotal = computed(cartStore, (store) =>
-  store.items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+  store.items.reduce(
+    (sum, item) => sum + getCartItemUnitPrice(item) * item.quantity,
+    0,
+  ),
 );
 export const cartCount = computed(cartStore, (store) =>
   store.items.reduce((sum, item) => sum + item.quantity, 0),
@@ -167,6 +172,11 @@ export function resetCart() {
   cartStore.set({ items: [] });
 }
 
+// Replace the whole cart, e.g. with one restored from a reminder link
+export function replaceCart(items: CartItem[]) {
+  cartStore.set({ items });
+}
+
 // Cart actions
 // Helper functions
 export function isInCart(productId: string | number) {
@@ -1,113 +1,253 @@
-import {
-  cartItems,
-  cartTotal,
-  removeInvalidItems,
-  cartOperations,
-} from "@/cartStore";
+import { cartItems, cartTotal } from "@/cartStore";
 import { useStore } from "@nanostores/react";
 import { generatPayloadImageUrl } from "@/lib/utils";
-import React, { useEffect, useState } from "react";
+import {
+  calculateShippingFee,
+  SHIPPING_ADDRESS_FIELD_LABELS,
+} from "@/lib/utils/shipping";
+import { getCartItemUnitPrice } from "@/lib/utils/pricing";
+import {
+  getTaiwanDistricts,
+  getTaiwanPostalCode,
+  normalizeTaiwanPhone,
+} from "@/lib/utils/taiwanAddress";
+import { TAIWAN_POSTAL_CODES } from "@/lib/utils/taiwanPostalCodes";
+import {
+  INVOICE_TYPE_LABELS,
+  parseInvoiceDetails,
+  type InvoiceType,
+} from "@/lib/utils/eInvoice";
+import {
+  fetchRenewedFormChallenge,
+  FORM_TOKEN_FIELD,
+  HONEYPOT_FIELD,
+  PROOF_OF_WORK_FIELD,
+  solveProofOfWork,
+  type FormChallenge,
+} from "@/lib/utils/botProtection";
+import {
+  pickCheckoutDraftForm,
+  readStoredCheckoutDraft,
+  writeStoredCheckoutDraft,
+  type StoredCheckoutDraft,
+} from "@/lib/utils/checkoutDraft";
+import { refreshCart } from "@/lib/cartValidation";
+import type { ShippingMethod } from "payload_app";
+import React, { useEffect, useRef, useState } from "react";
+
+// Identifies one checkout attempt so the server can recognise retries of it
+const createIdempotencyKey = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+
+interface PaymentMethodOption {
+  method: string;
+  label: string;
+}
+
+interface CheckoutContentProps {
+  shippingMethods: ShippingMethod[];
+  paymentMethods: PaymentMethodOption[];
+  formChallenge: FormChallenge;
+}
+
+interface AppliedCoupon {
+  code: string;
+  discount: number;
+}
+
+const PHONE_ERROR = "請輸入正確的手機 (09xx-xxx-xxx) 或市話號碼";
+
+// How long typing has to pause before the reminder draft is saved
+const DRAFT_SAVE_DELAY_MS = 1500;
 
-const CheckoutContent = () => {
+const CheckoutContent = ({
+  shippingMethods,
+  paymentMethods,
+  formChallenge,
+}: CheckoutContentProps) => {
   const [mounted, setMounted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Kept for the whole visit: double clicks and retries send the same key
+  const [idempotencyKey] = useState(createIdempotencyKey);
+  const submittingRef = useRef(false);
+  // Each token is good for one post; replaced after every post that comes back
+  const challengeRef = useRef(formChallenge);
   const [error, setError] = useState<string | null>(null);
-  const [invalidItems, setInvalidItems] = useState<any[]>([]);
+  // What the last cart checks changed, kept until the customer has seen it
+  const [cartChanges, setCartChanges] = useState<string[]>([]);
   const [isValidatingCart, setIsValidatingCart] = useState(true);
   const items = useStore(cartItems);
   const total = useStore(cartTotal);
+  const [shippingMethodId, setShippingMethodId] = useState(
+    shippingMethods[0]?.id ?? "",
+  );
+  const shippingMethod = shippingMethods.find(
+    (method) => method.id === shippingMethodId,
+  );
+  const [couponInput, setCouponInput] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(
+    null,
+  );
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+  const discount = Math.min(appliedCoupon?.discount || 0, total);
+  const itemsTotal = total - discount;
+  // Display only; the checkout API recomputes the discount and fee from the database
+  const shippingFee = shippingMethod
+    ? calculateShippingFee(shippingMethod, itemsTotal)
+    : 0;
+  const requiredAddressFields = shippingMethod?.requiredAddressFields || [];
+  // Cash on delivery needs a carrier that collects payment
+  const isPaymentMethodAllowed = (method: string) =>
+    method !== "cod" || Boolean(shippingMethod?.supportsCod);
+  const [selectedPaymentMethod, setPaymentMethod] = useState(
+    paymentMethods[0]?.method ?? "",
+  );
+  const paymentMethod = isPaymentMethodAllowed(selectedPaymentMethod)
+    ? selectedPaymentMethod
+    : paymentMethods.find((option) => isPaymentMethodAllowed(option.method))
+        ?.method;
+  const [city, setCity] = useState("");
+  const [district, setDistrict] = useState("");
+  const postalCode = getTaiwanPostalCode(city, district);
+  const [phoneError, setPhoneError] = useState<string | null>(null);
+  const [invoiceType, setInvoiceType] = useState<InvoiceType>("personal");
+  const [invoiceError, setInvoiceError] = useState<string | null>(null);
+  // What the customer typed last time, kept only if they asked for a reminder
+  const [storedDraft, setStoredDraft] = useState<StoredCheckoutDraft | null>(
+    null,
+  );
+  const formRef = useRef<HTMLFormElement>(null);
+  const reminderConsentRef = useRef<HTMLInputElement>(null);
+  const draftTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined,
+  );
 
   useEffect(() => {
+    const draft = readStoredCheckoutDraft();
+    if (draft) {
+      setStoredDraft(draft);
+      const methodId = draft.form?.shippingMethod;
+      if (shippingMethods.some((method) => method.id === methodId)) {
+        setShippingMethodId(methodId as string);
+      }
+      setCity(draft.form?.city || "");
+      setDistrict(draft.form?.district || "");
+    }
     setMounted(true);
   }, []);
 
-  // Validate cart items when component mounts
-  useEffect(() => {
-    if (mounted && items && items.length > 0) {
-      validateCartItems();
+  // Save or, once unticked, delete the reminder draft. Reads the form as it is now.
+  const saveCheckoutDraft = async () => {
+    const form = formRef.current;
+    if (!form) return;
+    const stored = readStoredCheckoutDraft();
+
+    if (!reminderConsentRef.current?.checked) {
+      if (stored?.id) {
+        writeStoredCheckoutDraft(null);
+        await fetch("/api/checkout-draft", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            consent: false,
+            id: stored.id,
+            token: stored.token,
+          }),
+        }).catch(() => undefined);
+      }
+      return;
     }
-  }, [mounted, items]);
 
-  const validateCartItems = async () => {
-    setIsValidatingCart(true);
+    const formData = new FormData(form);
+    const draft: StoredCheckoutDraft = {
+      id: stored?.id,
+      token: stored?.token,
+      name: String(formData.get("name") || ""),
+      email: String(formData.get("email") || "").trim(),
+      phone: String(formData.get("phone") || ""),
+      form: pickCheckoutDraftForm(Object.fromEntries(formData)),
+    };
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(draft.email || "")) return;
+
     try {
-      const response = await fetch("/api/static/products.json");
-      const data = await response.json();
-      const products = data.products;
-      const validProductIds = products.map((p: any) => p.id);
-
-      // Check for missing products
-      const missingProducts = items.filter(
-        (item) => !validProductIds.includes(item.id),
-      );
-
-      // Check for stock issues
-      const stockIssues: any[] = [];
-      for (const item of items) {
-        const product = products.find((p: any) => p.id === item.id);
-        if (product && product.stock < item.quantity) {
-          stockIssues.push({
-            ...item,
-            availableStock: product.stock,
-            requestedQuantity: item.quantity,
-            issue: "insufficient_stock",
-          });
-        }
+      const response = await fetch("/api/checkout-draft", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...draft, consent: true, items }),
+      });
+      const result = await response.json();
+      if (result.saved) {
+        draft.id = result.id;
+        draft.token = result.token;
       }
+    } catch {
+      // Only the reminder is lost; checkout itself is unaffected
+    }
+    writeStoredCheckoutDraft(draft);
+  };
+
+  const scheduleCheckoutDraftSave = () => {
+    clearTimeout(draftTimerRef.current);
+    draftTimerRef.current = setTimeout(() => {
+      void saveCheckoutDraft();
+    }, DRAFT_SAVE_DELAY_MS);
+  };
+
+  // The cart is part of the draft too
+  useEffect(() => {
+    if (reminderConsentRef.current?.checked) {
+      scheduleCheckoutDraftSave();
+    }
+  }, [items]);
+
+  // A discount previewed for a different cart may no longer apply
+  useEffect(() => {
+    setAppliedCoupon(null);
+  }, [items]);
 
-      // Combine all invalid items
-      const invalid = [
-        ...missingProducts.map((item) => ({ ...item, issue: "not_available" })),
-        ...stockIssues,
-      ];
-
-      setInvalidItems(invalid);
-
-      if (invalid.length > 0) {
-        const missingTitles = missingProducts.map((item) => item.title);
-        const stockTitles = stockIssues.map(
-          (item) =>
-            `${item.title} (requested: ${item.requestedQuantity}, available: ${item.availableStock})`,
-        );
-
-        let errorMessage = "";
-        if (missingTitles.length > 0) {
-          errorMessage += `Some items are no longer available: ${missingTitles.join(", ")}. `;
-        }
-        if (stockTitles.length > 0) {
-          errorMessage += `Insufficient stock: ${stockTitles.join(", ")}. `;
-        }
-        errorMessage += "Please remove or adjust these items to continue.";
-
-        setError(errorMessage);
+  const applyCoupon = async () => {
+    const code = couponInput.trim();
+    if (!code) return;
+
+    setIsApplyingCoupon(true);
+    setCouponError(null);
+    try {
+      const response = await fetch("/api/validate-coupon", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code, cartItems: items }),
+      });
+      const result = await response.json();
+      if (result.ok) {
+        setAppliedCoupon({ code: result.code, discount: result.discount });
+        setCouponInput(result.code);
+      } else {
+        setAppliedCoupon(null);
+        setCouponError(result.error || "優惠碼無效");
       }
-    } catch (error) {
-      // console.error("Error validating cart items:", error);
+    } catch {
+      setCouponError("Network error. Please check your connection and try again.");
     } finally {
-      setIsValidatingCart(false);
+      setIsApplyingCoupon(false);
     }
   };
 
-  const handleRemoveInvalidItems = () => {
-    if (invalidItems.length > 0) {
-      const validProductIds = items
-        .filter(
-          (item) => !invalidItems.some((invalid) => invalid.id === item.id),
-        )
-        .map((item) => item.id);
-
-      removeInvalidItems(validProductIds);
-      setInvalidItems([]);
-      setError(null);
+  // Check the cart against the catalogue on arrival and after every change
+  useEffect(() => {
+    if (mounted && items && items.length > 0) {
+      void checkCart();
     }
-  };
+  }, [mounted, items]);
 
-  const handleAdjustQuantity = (itemId: number, newQuantity: number) => {
-    cartOperations.updateQuantity(itemId, newQuantity);
-    // Re-validate cart after quantity change
-    setTimeout(() => {
-      validateCartItems();
-    }, 100);
+  const checkCart = async () => {
+    const changes = await refreshCart();
+    if (changes && changes.length > 0) {
+      setCartChanges((previous) => [...previous, ...changes]);
+    }
+    setIsValidatingCart(false);
   };
 
   if (!mounted || isValidatingCart) {
@@ -140,8 +280,8 @@ const CheckoutContent = () => {
         <div className="max-w-6xl mx-auto">
           <h1 className="text-3xl font-bold mb-8">結帳</h1>
 
-          {/* Invalid Items Warning */}
-          {invalidItems.length > 0 && (
+          {/* Cart changes found by the last checks */}
+          {cartChanges.length > 0 && (
             <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <div className="flex items-start">
                 <div className="flex-shrink-0">
@@ -159,49 +299,25 @@ const CheckoutContent = () => {
                 </div>
                 <div className="ml-3 flex-1">
                   <h3 className="text-sm font-medium text-yellow-800">
-                    Issues with items in your cart
+                    購物車內容已更新
                   </h3>
                   <div className="mt-2 text-sm text-yellow-700">
-                    <p>The following items have issues:</p>
+                    <p>以下商品的價格或庫存有變動，請確認後再下單：</p>
                     <ul className="mt-2 list-disc list-inside space-y-1">
-                      {invalidItems.map((item) => (
-                        <li key={item.id} className="font-medium">
-                          {item.title}
-                          {item.issue === "not_available" && (
-                            <span className="text-red-600 ml-2">
-                              (No longer available)
-                            </span>
-                          )}
-                          {item.issue === "insufficient_stock" && (
-                            <span className="text-orange-600 ml-2">
-                              (Requested: {item.requestedQuantity}, Available:{" "}
-                              {item.availableStock})
-                            </span>
-                          )}
+                      {cartChanges.map((change, index) => (
+                        <li key={index} className="font-medium">
+                          {change}
                         </li>
                       ))}
                     </ul>
-                    <p className="mt-2">
-                      {invalidItems.some(
-                        (item) => item.issue === "insufficient_stock",
-                      ) &&
-                      invalidItems.some(
-                        (item) => item.issue === "not_available",
-                      )
-                        ? "Please adjust quantities or remove these items to continue with your checkout."
-                        : invalidItems.some(
-                              (item) => item.issue === "insufficient_stock",
-                            )
-                          ? "Please adjust quantities to available stock or remove these items to continue."
-                          : "Please remove these items to continue with your checkout."}
-                    </p>
                   </div>
                   <div className="mt-4">
                     <button
-                      onClick={handleRemoveInvalidItems}
+                      type="button"
+                      onClick={() => setCartChanges([])}
                       className="bg-yellow-100 hover:bg-yellow-200 text-yellow-800 px-4 py-2 rounded-md text-sm font-medium transition-colors"
                     >
-                      Remove Invalid Items
+                      我已確認
                     </button>
                   </div>
                 </div>
@@ -214,133 +330,99 @@ const CheckoutContent = () => {
             <div className="lg:col-span-2 bg-card border border-border rounded-xl p-6 shadow-lg">
               <h2 className="text-xl font-semibold mb-4">訂單摘要</h2>
               <div className="space-y-4">
-                {items.map((item) => {
-                  const invalidItem = invalidItems.find(
-                    (invalid) => invalid.id === item.id,
-                  );
-                  const isInvalid = !!invalidItem;
-                  const isStockIssue =
-                    invalidItem?.issue === "insufficient_stock";
-                  const isNotAvailable = invalidItem?.issue === "not_available";
-
-                  return (
-                    <div
-                      key={item.id}
-                      className={`flex gap-4 py-4 border-b border-border last:border-0 ${
-                        isInvalid
-                          ? isStockIssue
-                            ? "opacity-75 bg-orange-50"
-                            : "opacity-50 bg-red-50"
-                          : ""
-                      }`}
-                    >
-                      <div className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-md border border-neutral-300 bg-neutral-300">
-                        <img
-                          className="h-full w-full object-cover"
-                          src={generatPayloadImageUrl(item.image)}
-                          alt={item.title}
-                          width={80}
-                          height={80}
-                        />
-                        {isInvalid && (
-                          <div
-                            className={`absolute inset-0 flex items-center justify-center ${
-                              isStockIssue
-                                ? "bg-orange-500 bg-opacity-20"
-                                : "bg-red-500 bg-opacity-20"
-                            }`}
-                          >
-                            <span
-                              className={`text-xs font-bold ${
-                                isStockIssue
-                                  ? "text-orange-600"
-                                  : "text-red-600"
-                              }`}
-                            >
-                              {isStockIssue ? "LOW STOCK" : "UNAVAILABLE"}
-                            </span>
-                          </div>
-                        )}
-                      </div>
-                      <div className="flex flex-1 flex-col justify-between">
-                        <div className="flex justify-between">
-                          <div>
-                            <h3
-                              className={`font-medium ${
-                                isInvalid
-                                  ? isStockIssue
-                                    ? "text-orange-600"
-                                    : "text-red-600"
-                                  : ""
-                              }`}
-                            >
-                              {item.title}
-                              {isNotAvailable && (
-                                <span className="text-red-500 text-sm ml-2">
-                                  (No longer available)
-                                </span>
-                              )}
-                              {isStockIssue && (
-                                <span className="text-orange-500 text-sm ml-2">
-                                  (Only {invalidItem.availableStock} available)
-                                </span>
-                              )}
-                            </h3>
-                            <div className="text-sm text-muted-foreground">
-                              <p>
-                                Quantity: {item.quantity}
-                                {isStockIssue && (
-                                  <span className="text-orange-600 ml-2">
-                                    (Available: {invalidItem.availableStock})
-                                  </span>
-                                )}
-                              </p>
-                              {isStockIssue && (
-                                <div className="mt-2 flex items-center gap-2">
-                                  <button
-                                    onClick={() =>
-                                      handleAdjustQuantity(
-                                        item.id,
-                                        invalidItem.availableStock,
-                                      )
-                                    }
-                                    className="bg-orange-100 hover:bg-orange-200 text-orange-800 px-2 py-1 rounded text-xs font-medium transition-colors"
-                                  >
-                                    Adjust to {invalidItem.availableStock}
-                                  </button>
-                                  <button
-                                    onClick={() =>
-                                      handleAdjustQuantity(item.id, 0)
-                                    }
-                                    className="bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded text-xs font-medium transition-colors"
-                                  >
-                                    Remove
-                                  </button>
-                                </div>
-                              )}
-                            </div>
+                {items.map((item) => (
+                  <div
+                    key={item.id}
+                    className="flex gap-4 py-4 border-b border-border last:border-0"
+                  >
+                    <div className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-md border border-neutral-300 bg-neutral-300">
+                      <img
+                        className="h-full w-full object-cover"
+                        src={generatPayloadImageUrl(item.image)}
+                        alt={item.title}
+                        width={80}
+                        height={80}
+                      />
+                    </div>
+                    <div className="flex flex-1 flex-col justify-between">
+                      <div className="flex justify-between">
+                        <div>
+                          <h3 className="font-medium">{item.title}</h3>
+                          <div className="text-sm text-muted-foreground">
+                            <p>Quantity: {item.quantity}</p>
                           </div>
-                          <p
-                            className={`text-right ${
-                              isInvalid
-                                ? isStockIssue
-                                  ? "text-orange-600"
-                                  : "text-red-600"
-                                : ""
-                            }`}
-                          >
-                            ${(item.price * item.quantity).toFixed(2)}
-                          </p>
                         </div>
+                        <p className="text-right">
+                          ${(getCartItemUnitPrice(item) * item.quantity).toFixed(2)}
+                        </p>
                       </div>
                     </div>
-                  );
-                })}
+                  </div>
+                ))}
 
                 <div className="pt-4">
+                  <label
+                    htmlFor="couponInput"
+                    className="block text-sm font-medium mb-2"
+                  >
+                    優惠碼
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      id="couponInput"
+                      value={couponInput}
+                      onChange={(e) => {
+                        setCouponInput(e.target.value);
+                        setAppliedCoupon(null);
+                        setCouponError(null);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault();
+                          applyCoupon();
+                        }
+                      }}
+                      className="flex-1 px-4 py-2 rounded-md form-input uppercase"
+                      placeholder="輸入優惠碼"
+                    />
+                    <button
+                      type="button"
+                      onClick={applyCoupon}
+                      disabled={isApplyingCoupon || !couponInput.trim()}
+                      className="bg-primary text-primary-foreground rounded-md px-4 text-sm font-medium hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isApplyingCoupon ? "驗證中..." : "套用"}
+                    </button>
+                  </div>
+                  {couponError && (
+                    <p className="mt-1 text-sm text-red-600">{couponError}</p>
+                  )}
+                  {appliedCoupon && (
+                    <p className="mt-1 text-sm text-green-600">
+                      已套用優惠碼 {appliedCoupon.code}
+                    </p>
+                  )}
+                </div>
+
+                <div className="pt-4 space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <p>小計</p>
+                    <p>${total.toFixed(2)}</p>
+                  </div>
+                  {discount > 0 && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <p>折扣 ({appliedCoupon?.code})</p>
+                      <p>-${discount.toFixed(2)}</p>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <p>運費{shippingMethod && ` (${shippingMethod.name})`}</p>
+                    <p>{shippingFee > 0 ? `$${shippingFee.toFixed(2)}` : "免運"}</p>
+                  </div>
                   <div className="flex justify-between text-base font-medium">
                     <p>總計</p>
-                    <p>${total.toFixed(2)}</p>
+                    <p>${(itemsTotal + shippingFee).toFixed(2)}</p>
                   </div>
                 </div>
               </div>
@@ -353,28 +435,92 @@ const CheckoutContent = () => {
                 onSubmit={async (e) => {
                   e.preventDefault();
 
-                  // Prevent submission if there are invalid items
-                  if (invalidItems.length > 0) {
-                    setError(
-                      "Please remove invalid items before proceeding with checkout.",
-                    );
+                  // Ignore clicks while a submission is in flight
+                  if (submittingRef.current) {
                     return;
                   }
 
-                  setIsSubmitting(true);
-                  setError(null);
+                  // The customer has to see what changed in the cart first
+                  if (cartChanges.length > 0) {
+                    setError("請先確認購物車的變動再下單。");
+                    return;
+                  }
 
                   const formData = new FormData(e.currentTarget);
 
+                  // Same checks as the server, so typos are caught before the round trip
+                  const phone = normalizeTaiwanPhone(
+                    String(formData.get("phone") || ""),
+                  );
+                  if (!phone) {
+                    setPhoneError(PHONE_ERROR);
+                    setError(PHONE_ERROR);
+                    return;
+                  }
+                  formData.set("phone", phone);
+
+                  if (requiredAddressFields.includes("address") && !postalCode) {
+                    setError("請選擇縣市及鄉鎮市區");
+                    return;
+                  }
+
+                  const { invoice, error: invalidInvoice } = parseInvoiceDetails({
+                    type: invoiceType,
+                    carrierCode: formData.get("invoiceCarrierCode") as string,
+                    donationCode: formData.get("invoiceDonationCode") as string,
+                    taxId: formData.get("invoiceTaxId") as string,
+                    companyName: formData.get("invoiceCompanyName") as string,
+                  });
+                  if (!invoice) {
+                    setInvoiceError(invalidInvoice);
+                    setError(invalidInvoice);
+                    return;
+                  }
+                  if (invoice.carrierCode) {
+                    formData.set("invoiceCarrierCode", invoice.carrierCode);
+                  }
+
+                  clearTimeout(draftTimerRef.current);
+                  const checkoutDraft = readStoredCheckoutDraft();
+                  if (checkoutDraft?.id && checkoutDraft.token) {
+                    formData.set("checkoutDraftId", checkoutDraft.id);
+                    formData.set("checkoutDraftToken", checkoutDraft.token);
+                  }
+
+                  submittingRef.current = true;
+                  setIsSubmitting(true);
+                  setError(null);
+
+                  const challenge = challengeRef.current;
                   try {
+                    formData.set(FORM_TOKEN_FIELD, challenge.token);
+                    formData.set(
+                      PROOF_OF_WORK_FIELD,
+                      await solveProofOfWork(
+                        challenge.token,
+                        challenge.difficulty,
+                      ),
+                    );
+
                     const response = await fetch("/api/checkout", {
                       method: "POST",
+                      headers: { "Idempotency-Key": idempotencyKey },
                       body: formData,
                     });
 
                     if (response.redirected) {
+                      // The order is placed; the draft has served its purpose
+                      writeStoredCheckoutDraft(null);
                       window.location.href = response.url;
-                    } else if (response.ok) {
+                      return;
+                    }
+
+                    challengeRef.current =
+                      (await fetchRenewedFormChallenge(
+                        "checkout",
+                        challenge.token,
+                      )) ?? challenge;
+                    if (response.ok) {
                       const result = await response.json();
                       if (result.error) {
                         setError(result.error);
@@ -385,38 +531,27 @@ const CheckoutContent = () => {
                         result.error || "Checkout failed. Please try again.";
                       setError(errorMessage);
 
-                      // If the error is about invalid products, clear them from cart
-                      if (errorMessage.includes("no longer available")) {
-                        // Extract valid product IDs from the error message or fetch them
-                        try {
-                          const validProductsResponse = await fetch(
-                            "/api/static/products.json",
-                          );
-                          const validProductsData =
-                            await validProductsResponse.json();
-                          const validProductIds =
-                            validProductsData.products.map((p: any) => p.id);
-                          removeInvalidItems(validProductIds);
-                          setError(
-                            "Some items in your cart are no longer available and have been removed. Please review your cart and try again.",
-                          );
-                        } catch (fetchError) {
-                          // console.error(
-                          //   "Error fetching valid products:",
-                          //   fetchError,
-                          // );
-                        }
-                      }
+                      // Prices or stock may have moved while the form was filled in
+                      void checkCart();
                     }
                   } catch (error) {
                     // console.error("Form submission error:", error);
+                    // The lost post may still have used the token
+                    challengeRef.current =
+                      (await fetchRenewedFormChallenge(
+                        "checkout",
+                        challenge.token,
+                      )) ?? challenge;
                     setError(
                       "Network error. Please check your connection and try again.",
                     );
                   } finally {
+                    submittingRef.current = false;
                     setIsSubmitting(false);
                   }
                 }}
+                onChange={scheduleCheckoutDraftSave}
+                ref={formRef}
                 className="space-y-4"
               >
                 <div>
@@ -430,6 +565,7 @@ const CheckoutContent = () => {
                     type="text"
                     id="name"
                     name="name"
+                    defaultValue={storedDraft?.name}
                     required
                     className="w-full px-4 py-2 rounded-md form-input"
                     placeholder="中文姓名"
@@ -447,10 +583,23 @@ const CheckoutContent = () => {
                     type="email"
                     id="email"
                     name="email"
+                    defaultValue={storedDraft?.email}
                     required
                     className="w-full px-4 py-2 rounded-md form-input"
                     placeholder="john@example.com"
                   />
+                  <label className="mt-2 flex items-start gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      ref={reminderConsentRef}
+                      defaultChecked={Boolean(storedDraft?.id)}
+                      className="mt-1"
+                    />
+                    <span>
+                      保留我的購物車，若未完成結帳請寄一封提醒信給我
+                      (取消勾選即刪除已保留的資料)
+                    </span>
+                  </label>
                 </div>
 
                 <div>
@@ -464,28 +613,346 @@ const CheckoutContent = () => {
                     type="tel"
                     id="phone"
                     name="phone"
+                    defaultValue={storedDraft?.phone}
                     required
                     className="w-full px-4 py-2 rounded-md form-input"
                     placeholder="0921-000-000"
+                    onBlur={(e) => {
+                      const value = e.currentTarget.value;
+                      const phone = normalizeTaiwanPhone(value);
+                      if (phone) e.currentTarget.value = phone;
+                      setPhoneError(value && !phone ? PHONE_ERROR : null);
+                    }}
                   />
+                  {phoneError && (
+                    <p className="mt-1 text-sm text-red-600">{phoneError}</p>
+                  )}
                 </div>
 
-                <div>
-                  <label
-                    htmlFor="address"
-                    className="block text-sm font-medium mb-2"
-                  >
-                    住家或超商門市名稱
-                  </label>
-                  <textarea
-                    id="address"
-                    name="address"
-                    required
-                    rows={3}
-                    className="w-full px-4 py-2 rounded-md form-input"
-                    placeholder="支持黑貓和7-11"
-                  ></textarea>
-                </div>
+                <fieldset>
+                  <legend className="block text-sm font-medium mb-2">
+                    配送方式
+                  </legend>
+                  {shippingMethods.length === 0 ? (
+                    <p className="text-sm text-red-600">
+                      目前沒有可用的配送方式, 請與我們聯絡.
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {shippingMethods.map((method) => {
+                        const fee = calculateShippingFee(method, itemsTotal);
+                        return (
+                          <label
+                            key={method.id}
+                            className="flex items-start gap-3 rounded-md border border-border p-3 cursor-pointer"
+                          >
+                            <input
+                              type="radio"
+                              name="shippingMethod"
+                              value={method.id}
+                              checked={method.id === shippingMethodId}
+                              onChange={() => setShippingMethodId(method.id)}
+                              className="mt-1"
+                            />
+                            <span className="flex-1">
+                              <span className="flex justify-between font-medium">
+                                <span>{method.name}</span>
+                                <span>
+                                  {fee > 0 ? `$${fee.toFixed(2)}` : "免運"}
+                                </span>
+                              </span>
+                              {method.description && (
+                                <span className="block text-sm text-muted-foreground">
+                                  {method.description}
+                                </span>
+                              )}
+                              {fee > 0 &&
+                                method.freeShippingThreshold != null && (
+                                  <span className="block text-xs text-muted-foreground">
+                                    滿 ${method.freeShippingThreshold} 免運
+                                  </span>
+                                )}
+                            </span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  )}
+                </fieldset>
+
+                <fieldset>
+                  <legend className="block text-sm font-medium mb-2">
+                    付款方式
+                  </legend>
+                  {paymentMethods.length === 0 ? (
+                    <p className="text-sm text-red-600">
+                      目前無法付款，請稍後再試
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {paymentMethods.map((option) => {
+                        const allowed = isPaymentMethodAllowed(option.method);
+                        return (
+                          <label
+                            key={option.method}
+                            className={`flex items-center gap-3 rounded-md border border-border p-3 ${
+                              allowed
+                                ? "cursor-pointer"
+                                : "cursor-not-allowed opacity-50"
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name="paymentMethod"
+                              value={option.method}
+                              checked={option.method === paymentMethod}
+                              disabled={!allowed}
+                              onChange={() => setPaymentMethod(option.method)}
+                            />
+                            <span>
+                              {option.label}
+                              {!allowed && shippingMethod && (
+                                <span className="ml-2 text-xs text-muted-foreground">
+                                  （{shippingMethod.name}不提供）
+                                </span>
+                              )}
+                            </span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  )}
+                </fieldset>
+
+                {requiredAddressFields.includes("storeName") && (
+                  <div>
+                    <label
+                      htmlFor="storeName"
+                      className="block text-sm font-medium mb-2"
+                    >
+                      {SHIPPING_ADDRESS_FIELD_LABELS.storeName}
+                    </label>
+                    <input
+                      type="text"
+                      id="storeName"
+                      name="storeName"
+                      defaultValue={storedDraft?.form?.storeName}
+                      required
+                      className="w-full px-4 py-2 rounded-md form-input"
+                      placeholder="例: 南京門市"
+                    />
+                  </div>
+                )}
+
+                {requiredAddressFields.includes("storeCode") && (
+                  <div>
+                    <label
+                      htmlFor="storeCode"
+                      className="block text-sm font-medium mb-2"
+                    >
+                      {SHIPPING_ADDRESS_FIELD_LABELS.storeCode}
+                    </label>
+                    <input
+                      type="text"
+                      id="storeCode"
+                      name="storeCode"
+                      defaultValue={storedDraft?.form?.storeCode}
+                      required
+                      className="w-full px-4 py-2 rounded-md form-input"
+                      placeholder="例: 123456"
+                    />
+                  </div>
+                )}
+
+                {requiredAddressFields.includes("address") && (
+                  <fieldset className="space-y-2">
+                    <legend className="block text-sm font-medium mb-2">
+                      {SHIPPING_ADDRESS_FIELD_LABELS.address}
+                    </legend>
+                    <div className="grid grid-cols-2 gap-2">
+                      <select
+                        id="city"
+                        name="city"
+                        required
+                        aria-label="縣市"
+                        value={city}
+                        onChange={(e) => {
+                          setCity(e.target.value);
+                          setDistrict("");
+                        }}
+                        className="w-full px-4 py-2 rounded-md form-input"
+                      >
+                        <option value="">縣市</option>
+                        {TAIWAN_POSTAL_CODES.map((c) => (
+                          <option key={c.name} value={c.name}>
+                            {c.name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        id="district"
+                        name="district"
+                        required
+                        aria-label="鄉鎮市區"
+                        value={district}
+                        disabled={!city}
+                        onChange={(e) => setDistrict(e.target.value)}
+                        className="w-full px-4 py-2 rounded-md form-input"
+                      >
+                        <option value="">鄉鎮市區</option>
+                        {getTaiwanDistricts(city).map((d) => (
+                          <option key={d.name} value={d.name}>
+                            {d.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        aria-label="郵遞區號"
+                        value={postalCode || ""}
+                        readOnly
+                        placeholder="郵遞區號"
+                        className="w-24 px-4 py-2 rounded-md form-input"
+                      />
+                      <input
+                        type="text"
+                        id="street"
+                        name="street"
+                        defaultValue={storedDraft?.form?.street}
+                        required
+                        minLength={2}
+                        aria-label="街道地址"
+                        className="flex-1 px-4 py-2 rounded-md form-input"
+                        placeholder="路名、巷弄及門牌號碼"
+                      />
+                    </div>
+                  </fieldset>
+                )}
+
+                <fieldset className="space-y-4">
+                  <div>
+                    <label
+                      htmlFor="invoiceType"
+                      className="block text-sm font-medium mb-2"
+                    >
+                      發票類型
+                    </label>
+                    <select
+                      id="invoiceType"
+                      name="invoiceType"
+                      value={invoiceType}
+                      onChange={(e) => {
+                        setInvoiceType(e.target.value as InvoiceType);
+                        setInvoiceError(null);
+                      }}
+                      className="w-full px-4 py-2 rounded-md form-input"
+                    >
+                      {(
+                        Object.entries(INVOICE_TYPE_LABELS) as [
+                          InvoiceType,
+                          string,
+                        ][]
+                      ).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {(invoiceType === "mobile_carrier" ||
+                    invoiceType === "citizen_carrier") && (
+                    <div>
+                      <label
+                        htmlFor="invoiceCarrierCode"
+                        className="block text-sm font-medium mb-2"
+                      >
+                        {invoiceType === "mobile_carrier"
+                          ? "手機條碼"
+                          : "自然人憑證條碼"}
+                      </label>
+                      <input
+                        type="text"
+                        id="invoiceCarrierCode"
+                        name="invoiceCarrierCode"
+                        required
+                        autoCapitalize="characters"
+                        className="w-full px-4 py-2 rounded-md form-input"
+                        placeholder={
+                          invoiceType === "mobile_carrier"
+                            ? "/ABC+123"
+                            : "AB12345678901234"
+                        }
+                        onChange={() => setInvoiceError(null)}
+                      />
+                    </div>
+                  )}
+
+                  {invoiceType === "donation" && (
+                    <div>
+                      <label
+                        htmlFor="invoiceDonationCode"
+                        className="block text-sm font-medium mb-2"
+                      >
+                        愛心碼
+                      </label>
+                      <input
+                        type="text"
+                        id="invoiceDonationCode"
+                        name="invoiceDonationCode"
+                        required
+                        inputMode="numeric"
+                        className="w-full px-4 py-2 rounded-md form-input"
+                        placeholder="例: 168001"
+                        onChange={() => setInvoiceError(null)}
+                      />
+                    </div>
+                  )}
+
+                  {invoiceType === "company" && (
+                    <>
+                      <div>
+                        <label
+                          htmlFor="invoiceTaxId"
+                          className="block text-sm font-medium mb-2"
+                        >
+                          統一編號
+                        </label>
+                        <input
+                          type="text"
+                          id="invoiceTaxId"
+                          name="invoiceTaxId"
+                          required
+                          inputMode="numeric"
+                          maxLength={8}
+                          className="w-full px-4 py-2 rounded-md form-input"
+                          placeholder="12345678"
+                          onChange={() => setInvoiceError(null)}
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor="invoiceCompanyName"
+                          className="block text-sm font-medium mb-2"
+                        >
+                          公司抬頭 (選填)
+                        </label>
+                        <input
+                          type="text"
+                          id="invoiceCompanyName"
+                          name="invoiceCompanyName"
+                          className="w-full px-4 py-2 rounded-md form-input"
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {invoiceError && (
+                    <p className="text-sm text-red-600">{invoiceError}</p>
+                  )}
+                </fieldset>
 
                 <div>
                   <label
@@ -497,6 +964,7 @@ const CheckoutContent = () => {
                   <textarea
                     id="note"
                     name="note"
+                    defaultValue={storedDraft?.form?.note}
                     rows={2}
                     className="w-full px-4 py-2 rounded-md form-input"
                     placeholder="運送時的特別註記"
@@ -509,6 +977,30 @@ const CheckoutContent = () => {
                   value={JSON.stringify(items)}
                 />
                 <input type="hidden" name="total" value={total} />
+                <input
+                  type="hidden"
+                  name={FORM_TOKEN_FIELD}
+                  value={formChallenge.token}
+                />
+                {/* Honeypot: off screen rather than display:none, which bots skip */}
+                <div
+                  aria-hidden="true"
+                  className="absolute -left-[10000px] w-px h-px overflow-hidden"
+                >
+                  <label htmlFor={HONEYPOT_FIELD}>Website</label>
+                  <input
+                    type="text"
+                    id={HONEYPOT_FIELD}
+                    name={HONEYPOT_FIELD}
+                    tabIndex={-1}
+                    autoComplete="off"
+                  />
+                </div>
+                <input
+                  type="hidden"
+                  name="couponCode"
+                  value={appliedCoupon?.code || ""}
+                />
 
                 {error && (
                   <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">
@@ -518,14 +1010,21 @@ const CheckoutContent = () => {
 
                 <button
                   type="submit"
-                  disabled={isSubmitting || invalidItems.length > 0}
+                  disabled={
+                    isSubmitting ||
+                    cartChanges.length > 0 ||
+                    !shippingMethod ||
+                    !paymentMethod
+                  }
                   className="w-full bg-primary text-primary-foreground rounded-md py-3 px-4 text-base font-medium hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isSubmitting
                     ? "處理中..."
-                    : invalidItems.length > 0
-                      ? "請先移除無效商品"
-                      : "下單購買"}
+                    : cartChanges.length > 0
+                      ? "請先確認購物車變動"
+                      : paymentMethod === "card"
+                        ? "下單並前往付款"
+                        : "下單購買"}
                 </button>
               </form>
             </div>
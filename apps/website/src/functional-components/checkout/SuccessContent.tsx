@@ -1,7 +1,11 @@
 import React, { useEffect } from 'react';
 import { cartOperations } from "@/cartStore";
 
-const SuccessContent = () => {
+interface SuccessContentProps {
+  orderNumber?: string;
+}
+
+const SuccessContent = ({ orderNumber }: SuccessContentProps) => {
   useEffect(() => {
     // Clear the cart
     if (typeof window !== 'undefined') {
@@ -26,6 +30,19 @@ const SuccessContent = () => {
             <p className="text-lg text-muted-foreground mb-8">
               你已經成功下單. 我們會儘快發送訂單確認郵件.
             </p>
+
+            {orderNumber && (
+              <div className="mb-8 rounded-lg border border-border p-4">
+                <p className="text-sm text-muted-foreground">訂單編號</p>
+                <p className="text-2xl font-bold tracking-wider">{orderNumber}</p>
+                <a
+                  href={`/orders/track?order=${encodeURIComponent(orderNumber)}`}
+                  className="mt-2 inline-block text-sm underline"
+                >
+                  查詢訂單進度
+                </a>
+              </div>
+            )}
             
             <div className="space-y-4">
               <a 
@@ -86,6 +86,7 @@ export function AddToCart({
               mappingId: currentVariant.id, // Store mapping ID for reference
               name: currentVariant.name,
               price: Number(data?.variant?.price ?? currentVariant.price),
+              priceTiers: data?.variant?.priceTiers ?? currentVariant.priceTiers,
               stock: Number(data?.variant?.stock ?? currentVariant.stock),
               sku: currentVariant.sku || undefined,
             }
@@ -7,7 +7,11 @@ import CloseCart from "./CloseCart";
 import DeleteItemButton from "./DeleteItemButton";
 import EditItemQuantityButton from "./EditItemQuantityButton";
 import OpenCart from "./OpenCart";
+import ShareCart from "./ShareCart";
 import { generatPayloadImageUrl } from "@/lib/utils";
+import { getCartItemUnitPrice } from "@/lib/utils/pricing";
+import { startCartSync } from "@/lib/cartSync";
+import { refreshCart } from "@/lib/cartValidation";
 
 const CartModal: React.FC = () => {
   const items = useStore(cartItems);
@@ -15,20 +19,28 @@ const CartModal: React.FC = () => {
   const total = useStore(cartTotal);
   const [isOpen, setIsOpen] = useState(false);
   const [isMounted, setIsMounted] = useState(false);
+  // What the check run on opening changed in the cart
+  const [cartChanges, setCartChanges] = useState<string[]>([]);
 
   // Avoid SSR/CSR mismatch by deferring cart content until client mount
   useEffect(() => {
     setIsMounted(true);
+    // The cart is on every page, so this keeps a synced cart current everywhere
+    startCartSync();
   }, []);
 
   // Handlers for opening and closing the cart
   const openCart = () => {
     setIsOpen(true);
     document.body.style.overflow = "hidden";
+    void refreshCart().then((changes) => {
+      if (changes) setCartChanges(changes);
+    });
   };
 
   const closeCart = () => {
     setIsOpen(false);
+    setCartChanges([]);
     document.body.style.overflow = "";
   };
 
@@ -114,7 +126,9 @@ const CartModal: React.FC = () => {
                         </div>
                       </a>
                       <div className="flex h-16 flex-col justify-between ml-1">
-                        <p className="text-right">${item.price.toFixed(2)}</p>
+                        <p className="text-right">
+                          ${getCartItemUnitPrice(item).toFixed(2)}
+                        </p>
                         <div className="flex items-center space-x-2">
                           <EditItemQuantityButton
                             productId={item.id}
@@ -136,6 +150,14 @@ const CartModal: React.FC = () => {
                 ))}
               </ul>
 
+              {cartChanges.length > 0 && (
+                <ul className="mt-4 list-disc rounded-md bg-yellow-50 py-2 pl-6 pr-2 text-sm text-yellow-800">
+                  {cartChanges.map((change, index) => (
+                    <li key={index}>{change}</li>
+                  ))}
+                </ul>
+              )}
+
               {/* Cart Summary */}
               <div className="py-4 text-sm text-neutral-500 dark:text-neutral-400">
                 <div className="mb-3 flex items-center justify-between border-b border-neutral-200 pb-1 pt-1 dark:border-neutral-700">
@@ -152,6 +174,7 @@ const CartModal: React.FC = () => {
               >
                 結帳
               </a>
+              <ShareCart />
             </div>
           )}
         </div>
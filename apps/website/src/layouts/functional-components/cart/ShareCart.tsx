@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from "react";
+import {
+  buildCartShareUrl,
+  disableCartSync,
+  enableCartSync,
+  getCartSyncState,
+} from "@/lib/cartSync";
+
+// Lets the customer open the same cart on another device
+const ShareCart: React.FC = () => {
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const state = getCartSyncState();
+    if (state) setShareUrl(buildCartShareUrl(state.token));
+  }, []);
+
+  const enable = async () => {
+    setPending(true);
+    setError(null);
+    try {
+      setShareUrl(buildCartShareUrl(await enableCartSync()));
+    } catch {
+      setError("目前無法保存購物車，請稍後再試");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const disable = async () => {
+    setPending(true);
+    await disableCartSync();
+    setShareUrl(null);
+    setCopied(false);
+    setPending(false);
+  };
+
+  const copy = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  if (!shareUrl) {
+    return (
+      <div className="mt-3 text-center text-sm">
+        <button
+          type="button"
+          onClick={enable}
+          disabled={pending}
+          className="underline disabled:opacity-50"
+        >
+          在其他裝置繼續購物
+        </button>
+        {error && <p className="mt-1 text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      <p>在其他裝置開啟此連結，即可看到同一個購物車：</p>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          readOnly
+          value={shareUrl}
+          onFocus={(e) => e.currentTarget.select()}
+          className="form-input flex-1 px-2 py-1 text-xs"
+          aria-label="購物車連結"
+        />
+        <button
+          type="button"
+          onClick={copy}
+          className="btn btn-outline-primary px-3 py-1"
+        >
+          {copied ? "已複製" : "複製"}
+        </button>
+      </div>
+      <button
+        type="button"
+        onClick={disable}
+        disabled={pending}
+        className="underline text-neutral-500 disabled:opacity-50"
+      >
+        停止同步並刪除連結
+      </button>
+    </div>
+  );
+};
+
+export default ShareCart;
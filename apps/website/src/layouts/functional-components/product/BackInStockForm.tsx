@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+
+interface BackInStockFormProps {
+  mappingId: string;
+}
+
+type FormState = "idle" | "pending" | "subscribed" | "in_stock";
+
+// Shown under a sold-out variant; emails the customer once it is restocked
+export function BackInStockForm({ mappingId }: BackInStockFormProps) {
+  const [email, setEmail] = useState("");
+  const [state, setState] = useState<FormState>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setState("pending");
+    setError(null);
+    try {
+      const response = await fetch("/api/back-in-stock", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mappingId, email }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(
+          response.status === 429
+            ? "登記次數過多，請稍後再試"
+            : response.status === 400
+              ? "請輸入有效的 Email"
+              : "目前無法登記，請稍後再試",
+        );
+        setState("idle");
+        return;
+      }
+      setState(result.status === "in_stock" ? "in_stock" : "subscribed");
+    } catch {
+      setError("目前無法登記，請稍後再試");
+      setState("idle");
+    }
+  };
+
+  if (state === "subscribed") {
+    return (
+      <p className="mt-3 text-sm text-green-700 dark:text-green-400">
+        已登記！此規格補貨時，我們會寄一封通知信到 {email}。
+      </p>
+    );
+  }
+
+  if (state === "in_stock") {
+    return (
+      <p className="mt-3 text-sm text-green-700 dark:text-green-400">
+        此規格已經補貨，請重新整理頁面後選購。
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="mt-3 space-y-2 text-sm">
+      <label
+        htmlFor={`back-in-stock-${mappingId}`}
+        className="block text-gray-700 dark:text-gray-300"
+      >
+        到貨時通知我：
+      </label>
+      <div className="flex gap-2">
+        <input
+          id={`back-in-stock-${mappingId}`}
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="您的 Email"
+          className="form-input flex-1 px-2 py-1"
+        />
+        <button
+          type="submit"
+          disabled={state === "pending"}
+          className="btn btn-outline-primary px-3 py-1 disabled:opacity-50"
+        >
+          通知我
+        </button>
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,62 @@
+import React from "react";
+import type { PriceTier } from "@/lib/shopify/types";
+import { applyPriceTiers, formatPrice } from "@/lib/utils/pricing";
+
+interface PriceTierTableProps {
+  price: number;
+  tiers?: PriceTier[] | null;
+}
+
+/**
+ * Quantity price breaks for the selected variant, e.g. "1–2: $100, 3–5: $90, 6+: $85"
+ */
+export function PriceTierTable({ price, tiers }: PriceTierTableProps) {
+  const breaks = [...(tiers || [])]
+    .filter((tier) => tier.minQuantity > 1)
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+  if (breaks.length === 0) return null;
+
+  const rows = [1, ...breaks.map((tier) => tier.minQuantity)].map(
+    (minQuantity, index, starts) => {
+      const next = starts[index + 1];
+      return {
+        label:
+          next === undefined
+            ? `${minQuantity}+`
+            : next - 1 === minQuantity
+              ? `${minQuantity}`
+              : `${minQuantity}–${next - 1}`,
+        unitPrice: applyPriceTiers(price, tiers, minQuantity),
+      };
+    },
+  );
+
+  return (
+    <div className="mb-6">
+      <p className="mb-2 text-sm font-medium">多件優惠</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border dark:border-darkmode-border">
+            <th className="py-1 text-left font-normal">數量</th>
+            <th className="py-1 text-right font-normal">單價</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label}>
+              <td className="py-1">{row.label}</td>
+              <td className="py-1 text-right">
+                {formatPrice(row.unitPrice)}
+                {row.unitPrice < price && (
+                  <span className="ml-2 text-green-600">
+                    省 {Math.round((1 - row.unitPrice / price) * 100)}%
+                  </span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { ProductVariantSelector } from "./ProductVariantSelector";
 import { AddToCart } from "@/functional-components/cart/AddToCart";
+import { PriceTierTable } from "./PriceTierTable";
 import type { Product } from "payload_app";
 import type { ProcessedVariant } from "@/lib/shopify/types";
 import {
@@ -111,7 +112,11 @@ export function ProductVariantManager({
                 variantId: variantId,
                 name: String(v.name || ""),
                 price: Number(v.price || 0),
+                priceTiers: Array.isArray(v.priceTiers) ? v.priceTiers : [],
                 stock: Number(v.stock || 0),
+                onHand: Number(v.onHand ?? v.stock ?? 0),
+                inventoryPolicy: v.inventoryPolicy || "deny",
+                preorderShipDate: v.preorderShipDate || null,
                 sku: v.sku || undefined,
                 isDefault: Boolean(v.isDefault),
                 availableForSale: Boolean(v.availableForSale),
@@ -196,6 +201,13 @@ export function ProductVariantManager({
         </div>
       )}
 
+      {selectedVariant && (
+        <PriceTierTable
+          price={selectedVariant.price}
+          tiers={selectedVariant.priceTiers}
+        />
+      )}
+
       {/* Add to Cart Button */}
       <div className="flex gap-4 mt-6 mb-6">
         <AddToCart
@@ -1,6 +1,19 @@
 import React, { useState, useEffect } from "react";
 import type { ProcessedVariant } from "@/lib/shopify/types";
 import { formatPrice } from "@/lib/utils/pricing";
+import { BackInStockForm } from "./BackInStockForm";
+
+// Variants from older responses have no separate on-hand count
+const getOnHand = (variant: ProcessedVariant) =>
+  variant.onHand ?? variant.stock;
+
+// For variants that still sell once their stock is gone
+const getBeyondStockLabel = (variant: ProcessedVariant) => {
+  if (variant.inventoryPolicy !== "preorder") return "缺貨可訂，補貨後出貨";
+  return variant.preorderShipDate
+    ? `預購中，預計 ${new Date(variant.preorderShipDate).toLocaleDateString("zh-TW")} 出貨`
+    : "預購中";
+};
 
 interface ProductVariantSelectorProps {
   variants: ProcessedVariant[];
@@ -135,7 +148,7 @@ export function ProductVariantSelector({
                     isSelected
                       ? "bg-primary text-white"
                       : "text-gray-900 dark:text-gray-100"
-                  } ${!variant.availableForSale ? "opacity-50 cursor-not-allowed" : ""}`}
+                  } ${!variant.availableForSale ? "opacity-50" : ""}`}
                   onClick={() => {
                     // console.log(
                     //   "Clicked on variant:",
@@ -143,9 +156,8 @@ export function ProductVariantSelector({
                     //   "ID:",
                     //   variant.id,
                     // );
-                    if (variant.availableForSale) {
-                      handleVariantChange(variant);
-                    }
+                    // Sold-out variants can still be picked to sign up for a restock email
+                    handleVariantChange(variant);
                   }}
                   role="option"
                   aria-selected={selected?.id === variant.id}
@@ -158,10 +170,16 @@ export function ProductVariantSelector({
                       {formatPrice(variant.price)}
                     </span>
                   </div>
-                  {!variant.availableForSale && (
+                  {!variant.availableForSale ? (
                     <span className="text-xs text-red-500 ml-2">
-                      (不可用)
+                      (缺貨，可登記到貨通知)
                     </span>
+                  ) : (
+                    getOnHand(variant) <= 0 && (
+                      <span className="text-xs ml-2">
+                        ({getBeyondStockLabel(variant)})
+                      </span>
+                    )
                   )}
                   {isSelected && (
                     <span className="absolute inset-y-0 right-0 flex items-center pr-4">
@@ -188,10 +206,15 @@ export function ProductVariantSelector({
 
       {selected && (
         <div key={selected.id} className="mt-3 flex items-center gap-2">
-          {selected.stock > 0 ? (
+          {getOnHand(selected) > 0 ? (
             <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400 border border-green-200 dark:border-green-800">
               <span className="w-2 h-2 bg-green-500 rounded-full mr-2"></span>
-              {selected.stock} 件現貨
+              {getOnHand(selected)} 件現貨
+            </span>
+          ) : selected.stock > 0 ? (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400 border border-yellow-200 dark:border-yellow-800">
+              <span className="w-2 h-2 bg-yellow-500 rounded-full mr-2"></span>
+              {getBeyondStockLabel(selected)}
             </span>
           ) : (
             <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400 border border-red-200 dark:border-red-800">
@@ -201,6 +224,10 @@ export function ProductVariantSelector({
           )}
         </div>
       )}
+
+      {selected && !selected.availableForSale && (
+        <BackInStockForm key={selected.id} mappingId={String(selected.id)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,284 @@
+/**
+ * Abandoned checkout drafts and cart recovery links
+ *
+ * While a customer who ticked the reminder box fills in the checkout form, the
+ * form and cart are saved to the abandoned-checkouts collection. The browser
+ * keeps the draft's id and a signed token so later saves update the same
+ * draft, and the reminder email links to /checkout/restore with the same pair.
+ * Drafts store what was picked and how many; titles and prices are read from
+ * the catalogue when the reminder is sent or the cart restored.
+ * Placing an order closes the customer's drafts so they are never reminded
+ * about a cart they already bought.
+ */
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Payload } from "payload";
+import type { AbandonedCheckout, Order } from "payload_app";
+import config from "@/config/config.json";
+import type { CartItem } from "@/cartStore";
+import {
+  describeCartLineIssue,
+  loadCartLine,
+  type CartLineRef,
+  type RevalidatedCart,
+} from "@/lib/cartRevalidation";
+import { getCartItemUnitPrice } from "@/lib/utils/pricing";
+import type { CheckoutDraftForm } from "@/lib/utils/checkoutDraft";
+
+// Matches how long the admin app keeps drafts that never became orders
+const DRAFT_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Same ceiling as a stored cart
+const MAX_CART_LINES = 100;
+
+// A draft still waiting for the customer to come back
+const isPending = (draft: AbandonedCheckout) =>
+  draft.status === "open" || draft.status === "reminded";
+
+function getSigningSecret(): string {
+  const secret =
+    process.env.CHECKOUT_RECOVERY_SECRET || process.env.PAYLOAD_SECRET;
+  if (!secret) {
+    throw new Error(
+      "CHECKOUT_RECOVERY_SECRET or PAYLOAD_SECRET must be set to sign cart recovery links",
+    );
+  }
+  return secret;
+}
+
+function sign(id: string, expiresAt: number): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(`abandoned-checkout:${id}:${expiresAt}`)
+    .digest("base64url");
+}
+
+/**
+ * Token proving the holder owns a draft, in the form `<expiresAt>.<signature>`
+ */
+export function createCheckoutDraftToken(
+  id: string,
+  expiresAt: number = Date.now() + DRAFT_TOKEN_TTL_MS,
+): string {
+  return `${expiresAt}.${sign(id, expiresAt)}`;
+}
+
+export function verifyCheckoutDraftToken(id: string, token: string): boolean {
+  const [expiresAtPart, signature] = token.split(".");
+  const expiresAt = Number(expiresAtPart);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(id, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Absolute link that restores the draft's cart, for the reminder email
+ */
+export function buildCartRecoveryUrl(draft: AbandonedCheckout): string {
+  const url = new URL("/checkout/restore", config.site.base_url);
+  url.searchParams.set("draft", draft.id);
+  url.searchParams.set("token", createCheckoutDraftToken(draft.id));
+  return url.toString();
+}
+
+/**
+ * The draft behind an id and token from the browser, or null when the token
+ * does not match or the draft is gone
+ */
+export async function findCheckoutDraft(
+  payloadClient: Payload,
+  id: string | null | undefined,
+  token: string | null | undefined,
+): Promise<AbandonedCheckout | null> {
+  if (!id || !token || !verifyCheckoutDraftToken(id, token)) return null;
+  try {
+    return await payloadClient.findByID({
+      collection: "abandoned-checkouts",
+      id,
+      depth: 0,
+    });
+  } catch {
+    return null;
+  }
+}
+
+const isId = (value: unknown): value is string | number =>
+  typeof value === "string" || typeof value === "number";
+
+// The product, variant and quantity of each cart line the browser sent
+function sanitizeCartItems(input: unknown): CartLineRef[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter(
+      (item): item is CartItem =>
+        Boolean(item) && typeof item === "object" && isId(item.id),
+    )
+    .slice(0, MAX_CART_LINES)
+    .map((item) => {
+      const variantId = item.variant?.id;
+      const mappingId = item.variant?.mappingId;
+      return {
+        productId: item.id,
+        variantId: isId(variantId) ? variantId : null,
+        mappingId: isId(mappingId) ? mappingId : null,
+        quantity: Math.max(1, Math.floor(Number(item.quantity) || 1)),
+      };
+    });
+}
+
+/**
+ * The draft's lines as they can be bought now, with what had to change
+ */
+export async function loadCheckoutDraftCart(
+  payloadClient: Payload,
+  draft: Pick<AbandonedCheckout, "cartItems">,
+): Promise<RevalidatedCart> {
+  const items: CartItem[] = [];
+  const changes: string[] = [];
+
+  const refs = Array.isArray(draft.cartItems)
+    ? (draft.cartItems as CartLineRef[])
+    : [];
+  for (const ref of refs) {
+    const { item, issues } = await loadCartLine(payloadClient, ref);
+    const label = item?.title || "商品";
+    changes.push(...issues.map((issue) => describeCartLineIssue(label, issue)));
+    if (item) items.push(item);
+  }
+
+  return { items, changes };
+}
+
+export interface CheckoutDraftInput {
+  id?: string | null;
+  token?: string | null;
+  email: string;
+  name?: string | null;
+  phone?: string | null;
+  items: unknown;
+  form: CheckoutDraftForm;
+}
+
+/**
+ * Create or update the customer's draft. A draft that already became an order
+ * is left alone and a new one is started.
+ */
+export async function saveCheckoutDraft(
+  payloadClient: Payload,
+  input: CheckoutDraftInput,
+): Promise<{ id: string; token: string } | null> {
+  const lines = sanitizeCartItems(input.items);
+  if (lines.length === 0) return null;
+
+  // Totalled at catalogue prices; lines that cannot be bought count for nothing
+  const { items } = await loadCheckoutDraftCart(payloadClient, {
+    cartItems: lines,
+  });
+
+  const now = new Date().toISOString();
+  const data = {
+    email: input.email.trim().toLowerCase(),
+    name: input.name?.trim().slice(0, 100) || null,
+    phone: input.phone?.trim().slice(0, 30) || null,
+    cartItems: lines,
+    cartTotal: items.reduce(
+      (sum, item) => sum + getCartItemUnitPrice(item) * item.quantity,
+      0,
+    ),
+    form: input.form,
+    lastActivityAt: now,
+  };
+
+  const existing = await findCheckoutDraft(
+    payloadClient,
+    input.id,
+    input.token,
+  );
+  if (existing && isPending(existing)) {
+    await payloadClient.update({
+      collection: "abandoned-checkouts",
+      id: existing.id,
+      data,
+      depth: 0,
+    });
+    return { id: existing.id, token: input.token as string };
+  }
+
+  const draft = await payloadClient.create({
+    collection: "abandoned-checkouts",
+    data: { ...data, status: "open", consentedAt: now },
+    depth: 0,
+  });
+  return { id: draft.id, token: createCheckoutDraftToken(draft.id) };
+}
+
+/**
+ * The customer unticked the reminder box: forget what they typed
+ */
+export async function deleteCheckoutDraft(
+  payloadClient: Payload,
+  id: string | null | undefined,
+  token: string | null | undefined,
+): Promise<void> {
+  const draft = await findCheckoutDraft(payloadClient, id, token);
+  if (draft && isPending(draft)) {
+    await payloadClient.delete({
+      collection: "abandoned-checkouts",
+      id: draft.id,
+    });
+  }
+}
+
+/**
+ * An order placed from this draft counts as recovered when the customer was
+ * reminded and came back through the link
+ */
+export function isRecoveredCheckout(
+  draft: AbandonedCheckout | null,
+): draft is AbandonedCheckout {
+  return Boolean(draft && draft.status === "reminded" && draft.restoredAt);
+}
+
+/**
+ * Close the draft the order was placed from, and any other pending drafts for
+ * the same email, so no reminder goes out for them. Never throws: the order is
+ * already placed.
+ */
+export async function closeCheckoutDrafts(
+  payloadClient: Payload,
+  order: Order,
+  draft: AbandonedCheckout | null,
+): Promise<void> {
+  try {
+    if (draft && isPending(draft)) {
+      await payloadClient.update({
+        collection: "abandoned-checkouts",
+        id: draft.id,
+        data: {
+          status: isRecoveredCheckout(draft) ? "recovered" : "completed",
+          order: order.id,
+        },
+        depth: 0,
+      });
+    }
+
+    await payloadClient.update({
+      collection: "abandoned-checkouts",
+      where: {
+        and: [
+          { email: { equals: order.email.trim().toLowerCase() } },
+          { status: { in: ["open", "reminded"] } },
+        ],
+      },
+      data: { status: "completed", order: order.id },
+      depth: 0,
+    });
+  } catch (error) {
+    console.error(
+      `[AbandonedCheckouts] Could not close drafts for order ${order.orderNumber}:`,
+      error,
+    );
+  }
+}
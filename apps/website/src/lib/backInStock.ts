@@ -0,0 +1,138 @@
+/**
+ * Back-in-stock notification sign-ups
+ *
+ * Customers leave their email on a sold-out variant; the admin app emails them
+ * through /api/webhooks/back-in-stock once the variant is restocked. Each
+ * subscription carries a random token for the unsubscribe link in that email.
+ */
+import type { Payload } from "payload";
+import type {
+  BackInStockSubscription,
+  Product,
+  ProductVariantMapping,
+  ProductVariant,
+} from "payload_app";
+import config from "@/config/config.json";
+
+export const UNSUBSCRIBE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export type BackInStockSignup = "subscribed" | "in_stock" | "not_found";
+
+/**
+ * Add the email to the variant's waiting list. Signing up again after a
+ * notification, or after unsubscribing, waits for the next restock.
+ */
+export async function subscribeToBackInStock(
+  payloadClient: Payload,
+  { mappingId, email }: { mappingId: string; email: string },
+): Promise<BackInStockSignup> {
+  let mapping: ProductVariantMapping;
+  try {
+    mapping = await payloadClient.findByID({
+      collection: "product-variant-mappings",
+      id: mappingId,
+      depth: 0,
+    });
+  } catch {
+    return "not_found";
+  }
+  if (mapping.isActive === false) return "not_found";
+  if (mapping.quantity > 0) return "in_stock";
+
+  const normalizedEmail = email.trim().toLowerCase();
+  const { docs } = await payloadClient.find({
+    collection: "back-in-stock-subscriptions",
+    where: {
+      and: [
+        { mapping: { equals: mapping.id } },
+        { email: { equals: normalizedEmail } },
+      ],
+    },
+    depth: 0,
+    limit: 1,
+  });
+
+  const existing = docs[0];
+  if (!existing) {
+    await payloadClient.create({
+      collection: "back-in-stock-subscriptions",
+      data: { mapping: mapping.id, email: normalizedEmail, status: "waiting" },
+      depth: 0,
+    });
+  } else if (existing.status !== "waiting") {
+    await payloadClient.update({
+      collection: "back-in-stock-subscriptions",
+      id: existing.id,
+      data: { status: "waiting", notifiedAt: null, unsubscribedAt: null },
+      depth: 0,
+    });
+  }
+  return "subscribed";
+}
+
+export async function findSubscriptionByToken(
+  payloadClient: Payload,
+  token: string,
+): Promise<BackInStockSubscription | null> {
+  if (!UNSUBSCRIBE_TOKEN_PATTERN.test(token)) return null;
+  const { docs } = await payloadClient.find({
+    collection: "back-in-stock-subscriptions",
+    where: { unsubscribeToken: { equals: token } },
+    depth: 2,
+    limit: 1,
+  });
+  return docs[0] || null;
+}
+
+export async function unsubscribeFromBackInStock(
+  payloadClient: Payload,
+  subscription: BackInStockSubscription,
+): Promise<void> {
+  if (subscription.status === "unsubscribed") return;
+  await payloadClient.update({
+    collection: "back-in-stock-subscriptions",
+    id: subscription.id,
+    data: { status: "unsubscribed", unsubscribedAt: new Date().toISOString() },
+    depth: 0,
+  });
+}
+
+/**
+ * The product and variant names a subscription is for, read from its
+ * mapping at depth 2
+ */
+export function describeSubscription(subscription: BackInStockSubscription): {
+  productTitle: string;
+  variantName: string;
+  productUrl: string | null;
+} {
+  const mapping = subscription.mapping as ProductVariantMapping | string;
+  const product =
+    typeof mapping === "object" ? (mapping.product as Product | string) : null;
+  const variant =
+    typeof mapping === "object"
+      ? (mapping.variant as ProductVariant | string)
+      : null;
+
+  const productTitle =
+    product && typeof product === "object" ? product.title : "商品";
+  const slug = product && typeof product === "object" ? product.slug : null;
+  return {
+    productTitle,
+    variantName: variant && typeof variant === "object" ? variant.name : "",
+    productUrl: slug
+      ? new URL(`/products/${slug}`, config.site.base_url).toString()
+      : null,
+  };
+}
+
+/**
+ * Absolute unsubscribe link for the notification email
+ */
+export function buildBackInStockUnsubscribeUrl(
+  subscription: BackInStockSubscription,
+): string {
+  const url = new URL("/back-in-stock/unsubscribe", config.site.base_url);
+  url.searchParams.set("token", subscription.unsubscribeToken || "");
+  return url.toString();
+}
@@ -0,0 +1,205 @@
+/**
+ * Bot checks for the checkout and contact forms, without a third-party CAPTCHA
+ *
+ * - A honeypot field people never see, so never fill
+ * - A signed token issued when the form is rendered, so a post made sooner
+ *   than a person could fill the form in, or from a stale page, is refused
+ * - Optionally, a proof-of-work solved by the browser before posting
+ *   (BOT_PROOF_OF_WORK_BITS, off by default)
+ * - Each token is good for one post: its nonce is kept in the rate limit
+ *   store until the token expires, so every post costs its own proof-of-work.
+ *   A customer posting again (e.g. after a stock error) renews the token first;
+ *   a token can be renewed once, and not posted after that.
+ *
+ * Refused posts are stored in the rejected-submissions collection so staff can
+ * follow up with real customers caught by mistake.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { RejectedSubmission } from "payload_app";
+import { payload } from "@/lib/payload";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import {
+  checkProofOfWork,
+  FORM_TOKEN_FIELD,
+  type FormChallenge,
+  HONEYPOT_FIELD,
+  PROOF_OF_WORK_FIELD,
+} from "@/lib/utils/botProtection";
+
+export type ProtectedForm = RejectedSubmission["form"];
+export type RejectionReason = RejectedSubmission["reason"];
+
+export const BOT_CHECK_FAILED_MESSAGE = "無法送出表單，請重新整理頁面後再試一次。";
+
+// Quicker than this is a script; autofill still needs a few seconds of review
+const MIN_FILL_MS: Record<ProtectedForm, number> = {
+  checkout: 5 * 1000,
+  contact: 3 * 1000,
+};
+const MAX_TOKEN_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type BotCheckResult =
+  | { ok: true }
+  | { ok: false; reason: RejectionReason };
+
+function getSigningSecret(): string {
+  const secret = process.env.BOT_PROTECTION_SECRET || process.env.PAYLOAD_SECRET;
+  if (!secret) {
+    throw new Error("BOT_PROTECTION_SECRET or PAYLOAD_SECRET must be set to sign form tokens");
+  }
+  return secret;
+}
+
+function sign(form: ProtectedForm, issuedAt: number, difficulty: number, nonce: string) {
+  return createHmac("sha256", getSigningSecret())
+    .update(`form-token:${form}:${issuedAt}:${difficulty}:${nonce}`)
+    .digest("base64url");
+}
+
+function getProofOfWorkDifficulty(): number {
+  const bits = Number(process.env.BOT_PROOF_OF_WORK_BITS || 0);
+  return Number.isInteger(bits) && bits > 0 ? Math.min(bits, 24) : 0;
+}
+
+function issueFormChallenge(form: ProtectedForm, issuedAt: number): FormChallenge {
+  const difficulty = getProofOfWorkDifficulty();
+  const nonce = randomBytes(9).toString("base64url");
+  return {
+    token: `${issuedAt}.${difficulty}.${nonce}.${sign(form, issuedAt, difficulty, nonce)}`,
+    difficulty,
+  };
+}
+
+/**
+ * Token to render into the form, in the form `<issuedAt>.<difficulty>.<nonce>.<signature>`
+ */
+export function createFormChallenge(form: ProtectedForm): FormChallenge {
+  return issueFormChallenge(form, Date.now());
+}
+
+/**
+ * The parts of a token this site signed for `form`, or null
+ */
+function parseFormToken(form: ProtectedForm, token: string) {
+  const [issuedAtPart, difficultyPart, nonce, signature] = token.split(".");
+  const issuedAt = Number(issuedAtPart);
+  const difficulty = Number(difficultyPart);
+  if (!Number.isFinite(issuedAt) || !Number.isInteger(difficulty) || !nonce || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(form, issuedAt, difficulty, nonce));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return { issuedAt, difficulty, nonce };
+}
+
+/**
+ * Mark a token's nonce as used for `use`. Remembered until the token expires;
+ * after that it is refused as expired anyway.
+ *
+ * @returns Whether this was the nonce's first use of that kind
+ */
+async function claimNonce(
+  use: "post" | "renewal",
+  { nonce, issuedAt }: { nonce: string; issuedAt: number },
+): Promise<boolean> {
+  const result = await rateLimit(`form-token:${use}:${nonce}`, {
+    limit: 1,
+    windowMs: Math.max(1000, issuedAt + MAX_TOKEN_AGE_MS - Date.now()),
+  });
+  return result.allowed;
+}
+
+/**
+ * A new token for posting the form again. It keeps the first token's issue
+ * time, so it expires with the page and the fill timer does not start over.
+ * The old token is used up, so one token never turns into two live ones.
+ *
+ * @returns null unless `token` is an unexpired token for `form` that has not
+ *   been renewed before
+ */
+export async function renewFormChallenge(
+  form: ProtectedForm,
+  token: string,
+): Promise<FormChallenge | null> {
+  const parsed = parseFormToken(form, token);
+  if (!parsed || Date.now() - parsed.issuedAt > MAX_TOKEN_AGE_MS) return null;
+  if (!(await claimNonce("renewal", parsed))) return null;
+  await claimNonce("post", parsed);
+  return issueFormChallenge(form, parsed.issuedAt);
+}
+
+export async function checkFormSubmission(
+  form: ProtectedForm,
+  formData: FormData,
+): Promise<BotCheckResult> {
+  if (String(formData.get(HONEYPOT_FIELD) || "") !== "") {
+    return { ok: false, reason: "honeypot" };
+  }
+
+  const token = String(formData.get(FORM_TOKEN_FIELD) || "");
+  if (!token) return { ok: false, reason: "missing_token" };
+
+  const parsed = parseFormToken(form, token);
+  if (!parsed) return { ok: false, reason: "invalid_token" };
+
+  const age = Date.now() - parsed.issuedAt;
+  if (age < MIN_FILL_MS[form]) return { ok: false, reason: "too_fast" };
+  if (age > MAX_TOKEN_AGE_MS) return { ok: false, reason: "expired" };
+
+  const solution = String(formData.get(PROOF_OF_WORK_FIELD) || "");
+  if (!(await checkProofOfWork(token, solution, parsed.difficulty))) {
+    return { ok: false, reason: "proof_of_work" };
+  }
+
+  if (!(await claimNonce("post", parsed))) {
+    return { ok: false, reason: "replayed" };
+  }
+
+  return { ok: true };
+}
+
+// Values are cut short so a flood of junk cannot bloat the collection
+const MAX_LOGGED_VALUE_LENGTH = 2000;
+
+/**
+ * Keep a refused post for review. Never throws: logging must not turn a
+ * rejection into a server error.
+ */
+export async function recordRejectedSubmission(
+  form: ProtectedForm,
+  reason: RejectionReason,
+  {
+    request,
+    clientAddress,
+    formData,
+  }: { request: Request; clientAddress?: string; formData: FormData },
+): Promise<void> {
+  const submission: Record<string, string> = {};
+  for (const [key, value] of formData) {
+    if (key === FORM_TOKEN_FIELD || key === PROOF_OF_WORK_FIELD) continue;
+    submission[key] = String(value).slice(0, MAX_LOGGED_VALUE_LENGTH);
+  }
+
+  try {
+    const payloadClient = await payload();
+    await payloadClient.create({
+      collection: "rejected-submissions",
+      data: {
+        form,
+        reason,
+        name: submission.name || null,
+        email: submission.email || null,
+        phone: submission.phone || null,
+        ip: getClientIp(request, clientAddress),
+        userAgent: request.headers.get("user-agent")?.slice(0, 500) || null,
+        submission,
+      },
+    });
+  } catch (error) {
+    console.error(`[BotProtection] Could not record rejected ${form} submission:`, error);
+  }
+}
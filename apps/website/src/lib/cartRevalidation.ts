@@ -0,0 +1,245 @@
+/**
+ * Check cart lines against the current catalogue on the server
+ *
+ * A cart brought back later, or built elsewhere, may hold products that were
+ * unpublished, variants that stopped selling, stock that ran out or prices
+ * that moved. Each line is rebuilt from the catalogue and every difference is
+ * reported, both as data and in words the customer can read.
+ */
+import type { Payload } from "payload";
+import {
+  getSellableQuantity,
+  type Product,
+  type ProductVariantMapping,
+} from "payload_app";
+import type { CartItem } from "@/cartStore";
+import {
+  getProductPrice,
+  getVariantPrice,
+  isValidPrice,
+} from "@/lib/utils/pricing";
+import { compareVariantIds, type VariantId } from "@/lib/utils/variantId";
+
+/** What a cart line points at, without any prices */
+export interface CartLineRef {
+  productId: string | number;
+  variantId?: VariantId | null;
+  mappingId?: VariantId | null;
+  quantity: number;
+}
+
+export type CartLineIssue =
+  | { type: "unpublished" }
+  | { type: "inactive" }
+  | { type: "sold_out" }
+  | { type: "low_stock"; available: number }
+  | { type: "price_changed"; from: number; to: number };
+
+export interface CurrentCartLine {
+  /** The line as it can be bought now; null when it cannot be bought at all */
+  item: CartItem | null;
+  issues: CartLineIssue[];
+}
+
+/** How one line of the customer's cart compares with the catalogue */
+export interface CartLineVerdict {
+  /** True when the line can be bought exactly as it is in the cart */
+  ok: boolean;
+  issues: CartLineIssue[];
+  /** The issues in words the customer can read */
+  messages: string[];
+  /** The line as it can be bought now; null when it cannot be bought at all */
+  item: CartItem | null;
+}
+
+export interface RevalidatedCart {
+  items: CartItem[];
+  changes: string[];
+}
+
+async function findPublishedProduct(
+  payloadClient: Payload,
+  id: string | number,
+): Promise<Product | null> {
+  try {
+    const product = await payloadClient.findByID({
+      collection: "products",
+      id: String(id),
+      depth: 2,
+    });
+    return product.published ? product : null;
+  } catch {
+    return null;
+  }
+}
+
+export function findVariantMapping(
+  product: Product,
+  variantId: VariantId | null | undefined,
+  mappingId?: VariantId | null,
+): ProductVariantMapping | null {
+  const mapping = product.variantMappings?.find(
+    (candidate): candidate is ProductVariantMapping =>
+      typeof candidate === "object" &&
+      ((Boolean(mappingId) && compareVariantIds(candidate.id, mappingId)) ||
+        (Boolean(variantId) &&
+          compareVariantIds(
+            typeof candidate.variant === "object"
+              ? candidate.variant.id
+              : candidate.variant,
+            variantId,
+          ))),
+  );
+  return mapping || null;
+}
+
+/**
+ * What a line without a variant can sell. The order takes its stock from the
+ * product's default mapping, so that mapping's inventory policy applies;
+ * products without one fall back to totalStock.
+ */
+export function getProductLineStock(product: Product): number {
+  const mapping = product.variantMappings?.find(
+    (candidate): candidate is ProductVariantMapping =>
+      typeof candidate === "object" && Boolean(candidate.isDefault),
+  );
+  return mapping
+    ? getSellableQuantity(mapping)
+    : Number(product.totalStock || 0);
+}
+
+const getImageUrl = (product: Product) =>
+  typeof product.featuredImage === "object"
+    ? product.featuredImage.url || ""
+    : "";
+
+/**
+ * Rebuild one cart line from the catalogue. Pass the line as the customer last
+ * saw it as `previous` to have price changes reported.
+ */
+export async function loadCartLine(
+  payloadClient: Payload,
+  ref: CartLineRef,
+  previous?: CartItem,
+): Promise<CurrentCartLine> {
+  const product = await findPublishedProduct(payloadClient, ref.productId);
+  if (!product) return { item: null, issues: [{ type: "unpublished" }] };
+
+  const base = {
+    id: product.id,
+    title: product.title,
+    image: getImageUrl(product),
+    slug: product.slug,
+    quantity: Math.max(1, Math.floor(ref.quantity) || 1),
+  };
+  let item: CartItem;
+  let stock: number;
+
+  if (ref.variantId || ref.mappingId) {
+    const mapping = findVariantMapping(product, ref.variantId, ref.mappingId);
+    if (!mapping || mapping.isActive === false) {
+      return { item: null, issues: [{ type: "inactive" }] };
+    }
+    const variant = typeof mapping.variant === "object" ? mapping.variant : null;
+    const price = getVariantPrice(mapping, variant);
+    stock = getSellableQuantity(mapping);
+    item = {
+      ...base,
+      price,
+      variant: {
+        id: variant?.id ?? (mapping.variant as string),
+        mappingId: mapping.id,
+        name: variant?.name || mapping.displayName || "",
+        price,
+        priceTiers: mapping.priceTiers || [],
+        stock,
+        sku: variant?.sku || undefined,
+      },
+    };
+  } else {
+    stock = getProductLineStock(product);
+    item = { ...base, price: getProductPrice(product), variant: null };
+  }
+
+  if (!isValidPrice(item.price) || stock <= 0) {
+    return { item: null, issues: [{ type: "sold_out" }] };
+  }
+
+  const issues: CartLineIssue[] = [];
+  if (item.quantity > stock) {
+    item.quantity = stock;
+    issues.push({ type: "low_stock", available: stock });
+  }
+  if (previous && previous.price !== item.price) {
+    issues.push({ type: "price_changed", from: previous.price, to: item.price });
+  }
+  return { item, issues };
+}
+
+export function describeCartLineIssue(
+  label: string,
+  issue: CartLineIssue,
+): string {
+  switch (issue.type) {
+    case "unpublished":
+      return `${label}：商品已下架，已從購物車移除`;
+    case "inactive":
+      return `${label}：此規格已停售，已從購物車移除`;
+    case "sold_out":
+      return `${label}：已售完，已從購物車移除`;
+    case "low_stock":
+      return `${label}：庫存僅剩 ${issue.available} 件，數量已調整`;
+    case "price_changed":
+      return `${label}：價格由 $${issue.from} 調整為 $${issue.to}`;
+  }
+}
+
+export const getCartItemLabel = (item: Pick<CartItem, "title" | "variant">) =>
+  item.variant?.name ? `${item.title} (${item.variant.name})` : item.title;
+
+export const toCartLineRef = (item: CartItem): CartLineRef => ({
+  productId: item.id,
+  variantId: item.variant?.id,
+  mappingId: item.variant?.mappingId,
+  quantity: item.quantity,
+});
+
+/**
+ * A verdict for each cart line, in the order of `items`
+ */
+export async function checkCartItems(
+  payloadClient: Payload,
+  items: CartItem[],
+): Promise<CartLineVerdict[]> {
+  const verdicts: CartLineVerdict[] = [];
+  for (const previous of items) {
+    const { item, issues } = await loadCartLine(
+      payloadClient,
+      toCartLineRef(previous),
+      previous,
+    );
+    const label = getCartItemLabel(previous);
+    verdicts.push({
+      ok: issues.length === 0,
+      issues,
+      messages: issues.map((issue) => describeCartLineIssue(label, issue)),
+      item,
+    });
+  }
+  return verdicts;
+}
+
+/**
+ * Current version of each cart line: unavailable lines are left out,
+ * quantities are cut to the stock left and prices brought up to date.
+ */
+export async function revalidateCartItems(
+  payloadClient: Payload,
+  items: CartItem[],
+): Promise<RevalidatedCart> {
+  const verdicts = await checkCartItems(payloadClient, items);
+  return {
+    items: verdicts.flatMap(({ item }) => (item ? [item] : [])),
+    changes: verdicts.flatMap(({ messages }) => messages),
+  };
+}
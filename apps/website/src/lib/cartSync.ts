@@ -0,0 +1,165 @@
+/**
+ * Browser side of cart sync
+ *
+ * Once sync is on, the cart's token is kept in localStorage. Every page load
+ * reads the server copy and takes it when another device changed it since our
+ * last write; every change here is written back shortly after. The last write
+ * wins, which is good enough for one customer moving between two devices.
+ */
+import { cartItems, replaceCart, type CartItem } from "@/cartStore";
+
+const CART_SYNC_STORAGE_KEY = "cartSync";
+
+// Batches the clicks of a quantity stepper into one write
+const SYNC_DELAY_MS = 500;
+
+export interface CartSyncState {
+  token: string;
+  /** Server time of the version this browser last read or wrote */
+  updatedAt: string;
+}
+
+export function getCartSyncState(): CartSyncState | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const saved = localStorage.getItem(CART_SYNC_STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as CartSyncState) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setCartSyncState(state: CartSyncState | null) {
+  if (state) {
+    localStorage.setItem(CART_SYNC_STORAGE_KEY, JSON.stringify(state));
+  } else {
+    localStorage.removeItem(CART_SYNC_STORAGE_KEY);
+  }
+}
+
+export function buildCartShareUrl(token: string): string {
+  return new URL(`/cart/${token}`, window.location.origin).toString();
+}
+
+let started = false;
+let applyingServerCart = false;
+let pendingItems: readonly CartItem[] | null = null;
+let syncTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Replace the cart with a server copy without writing it straight back
+ */
+export function applyServerCart(
+  state: CartSyncState | null,
+  items: CartItem[],
+) {
+  if (state) setCartSyncState(state);
+  applyingServerCart = true;
+  try {
+    replaceCart(items);
+  } finally {
+    applyingServerCart = false;
+  }
+}
+
+async function pushCart(keepalive = false) {
+  const state = getCartSyncState();
+  const items = pendingItems;
+  pendingItems = null;
+  if (!state || !items) return;
+
+  try {
+    const response = await fetch(`/api/cart/${state.token}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items }),
+      keepalive,
+    });
+    if (response.status === 404) {
+      setCartSyncState(null);
+    } else if (response.ok) {
+      const { updatedAt } = await response.json();
+      setCartSyncState({ token: state.token, updatedAt });
+    }
+  } catch {
+    // Offline; the next change tries again
+  }
+}
+
+async function pullCart() {
+  const state = getCartSyncState();
+  if (!state) return;
+
+  try {
+    const response = await fetch(`/api/cart/${state.token}`);
+    if (response.status === 404) {
+      setCartSyncState(null);
+      return;
+    }
+    if (!response.ok) return;
+
+    const cart = await response.json();
+    // Sync was switched to another cart, or a local change is waiting to be written
+    if (getCartSyncState()?.token !== state.token || pendingItems) return;
+    if (cart.updatedAt !== state.updatedAt) {
+      applyServerCart(
+        { token: state.token, updatedAt: cart.updatedAt },
+        cart.items,
+      );
+    }
+  } catch {
+    // Keep the local cart
+  }
+}
+
+/**
+ * Start syncing on this page. Safe to call more than once.
+ */
+export function startCartSync() {
+  if (started || typeof window === "undefined") return;
+  started = true;
+
+  void pullCart();
+
+  cartItems.listen((items) => {
+    if (applyingServerCart || !getCartSyncState()) return;
+    pendingItems = items;
+    clearTimeout(syncTimer);
+    syncTimer = setTimeout(() => void pushCart(), SYNC_DELAY_MS);
+  });
+
+  // Write a change made just before leaving the page
+  window.addEventListener("pagehide", () => {
+    if (!pendingItems) return;
+    clearTimeout(syncTimer);
+    void pushCart(true);
+  });
+}
+
+/**
+ * Store the current cart on the server and keep it in sync from now on
+ */
+export async function enableCartSync(): Promise<string> {
+  const response = await fetch("/api/cart", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items: cartItems.get() }),
+  });
+  if (!response.ok) {
+    throw new Error(`Could not save cart (${response.status})`);
+  }
+  const { token, updatedAt } = await response.json();
+  setCartSyncState({ token, updatedAt });
+  return token;
+}
+
+export async function disableCartSync(): Promise<void> {
+  const state = getCartSyncState();
+  setCartSyncState(null);
+  pendingItems = null;
+  if (state) {
+    await fetch(`/api/cart/${state.token}`, { method: "DELETE" }).catch(
+      () => undefined,
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Browser side of cart validation
+ *
+ * Sends the whole cart to `/api/cart/validate` and brings it up to date with
+ * the answer, keeping what changed so the customer can be shown.
+ */
+import { cartItems, replaceCart, type CartItem } from "@/cartStore";
+import type { CartLineVerdict } from "@/lib/cartRevalidation";
+
+async function validateCart(
+  items: readonly CartItem[],
+): Promise<CartLineVerdict[]> {
+  const response = await fetch("/api/cart/validate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items }),
+  });
+  if (!response.ok) {
+    throw new Error(`Could not validate cart (${response.status})`);
+  }
+  const { lines } = await response.json();
+  return lines;
+}
+
+/**
+ * Validate the cart and apply the result: lines that cannot be bought are
+ * taken out, quantities cut to the stock left and prices updated. Resolves to
+ * the customer-facing description of each change, or null when the check
+ * could not run; a cart edited while the check ran is left alone.
+ */
+export async function refreshCart(): Promise<string[] | null> {
+  const items = cartItems.get();
+  if (items.length === 0) return [];
+
+  let lines: CartLineVerdict[];
+  try {
+    lines = await validateCart(items);
+  } catch {
+    return null;
+  }
+  if (cartItems.get() !== items) return null;
+
+  const changes = lines.flatMap((line) => line.messages);
+  if (changes.length > 0) {
+    replaceCart(lines.flatMap(({ item }) => (item ? [item] : [])));
+  }
+  return changes;
+}
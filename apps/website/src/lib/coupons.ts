@@ -0,0 +1,121 @@
+/**
+ * Discount code checks for checkout
+ *
+ * Codes are looked up and priced on the server only. The checkout form asks
+ * `/api/validate-coupon` for a preview; `/api/checkout` runs the same checks
+ * again against database prices before the order is written.
+ */
+import type { Payload } from "payload";
+import { countCustomerCouponUses, type Coupon, type Product } from "payload_app";
+
+/**
+ * A code that cannot be used for this cart. The message is shown to the customer.
+ */
+export class CouponError extends Error {}
+
+export interface CouponLine {
+  product: Pick<Product, "id" | "category" | "brand">;
+  lineTotal: number;
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+const relationIds = (values: unknown[] | null | undefined): string[] =>
+  (values || []).map((value) =>
+    String(typeof value === "object" && value !== null && "id" in value ? value.id : value),
+  );
+
+const relationId = (value: unknown): string | null =>
+  value === null || value === undefined ? null : relationIds([value])[0];
+
+/**
+ * Whether a product is covered by the coupon's product/category/brand scope.
+ * A coupon with no scope covers everything.
+ */
+function couponCoversProduct(coupon: Coupon, product: CouponLine["product"]): boolean {
+  const products = relationIds(coupon.appliesTo?.products);
+  const categories = relationIds(coupon.appliesTo?.categories);
+  const brands = relationIds(coupon.appliesTo?.brands);
+  if (products.length === 0 && categories.length === 0 && brands.length === 0) {
+    return true;
+  }
+
+  const categoryId = relationId(product.category);
+  const brandId = relationId(product.brand);
+  return (
+    products.includes(String(product.id)) ||
+    (categoryId !== null && categories.includes(categoryId)) ||
+    (brandId !== null && brands.includes(brandId))
+  );
+}
+
+async function findCoupon(
+  payloadClient: Payload,
+  code: string,
+): Promise<Coupon | null> {
+  const result = await payloadClient.find({
+    collection: "coupons",
+    where: { code: { equals: normalizeCouponCode(code) } },
+    depth: 0,
+    limit: 1,
+  });
+  return result.docs[0] || null;
+}
+
+/**
+ * Check a code against the cart and work out the discount.
+ * Pass `email` to enforce the per-customer limit.
+ *
+ * @throws CouponError when the code cannot be used
+ */
+export async function evaluateCoupon(
+  payloadClient: Payload,
+  code: string,
+  { lines, email }: { lines: CouponLine[]; email?: string },
+): Promise<{ coupon: Coupon; discount: number }> {
+  const coupon = await findCoupon(payloadClient, code);
+  if (!coupon || !coupon.active) {
+    throw new CouponError("優惠碼無效");
+  }
+
+  const now = Date.now();
+  if (coupon.startsAt && new Date(coupon.startsAt).getTime() > now) {
+    throw new CouponError("此優惠碼尚未開始使用");
+  }
+  if (coupon.endsAt && new Date(coupon.endsAt).getTime() < now) {
+    throw new CouponError("此優惠碼已過期");
+  }
+
+  const subtotal = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+  if (coupon.minimumSpend && subtotal < coupon.minimumSpend) {
+    throw new CouponError(`消費滿 $${coupon.minimumSpend} 才能使用此優惠碼`);
+  }
+
+  if (coupon.usageLimit && (coupon.timesUsed || 0) >= coupon.usageLimit) {
+    throw new CouponError("此優惠碼已達使用上限");
+  }
+  if (
+    coupon.usageLimitPerCustomer &&
+    email &&
+    (await countCustomerCouponUses(payloadClient, coupon.id, email)) >=
+      coupon.usageLimitPerCustomer
+  ) {
+    throw new CouponError("您已達此優惠碼的使用次數上限");
+  }
+
+  const eligibleSubtotal = lines
+    .filter((line) => couponCoversProduct(coupon, line.product))
+    .reduce((sum, line) => sum + line.lineTotal, 0);
+  if (eligibleSubtotal <= 0) {
+    throw new CouponError("此優惠碼不適用於購物車中的商品");
+  }
+
+  const discount =
+    coupon.discountType === "percentage"
+      ? Math.round((eligibleSubtotal * coupon.amount) / 100)
+      : Math.min(coupon.amount, eligibleSubtotal);
+
+  return { coupon, discount };
+}
@@ -1,5 +1,17 @@
 import nodemailer from "nodemailer";
-import type { Order, Product } from "payload_app";
+import {
+  getCarrierLabel,
+  getCarrierTrackingUrl,
+  type AbandonedCheckout,
+  type BackInStockSubscription,
+  type LowStockMapping,
+  type Order,
+  type Product,
+} from "payload_app";
+import type { CartItem } from "@/cartStore";
+import { buildOrderTrackingUrl } from "@/lib/orderTracking";
+import { getPaymentMethodLabel } from "@/lib/payments";
+import { getCartItemUnitPrice } from "@/lib/utils/pricing";
 
 // Check each environment variable separately and log the status
 const ZOHO_EMAIL = "admin@100mg.tw";
@@ -34,6 +46,34 @@ const transporter = nodemailer.createTransport({
 //   },
 // });
 
+// Customers read order numbers over the phone; fall back to the id for older orders
+function getOrderReference(order: Order): string {
+  return order.orderNumber || String(order.id);
+}
+
+// Orders placed before shipping methods existed have no subtotal or fee
+function getShippingSummary(order: Order): string {
+  if (!order.shipping?.methodName) return "";
+  const fee = order.shipping.fee || 0;
+  const discount = order.discount?.amount || 0;
+  return [
+    `小計: $${order.subtotal ?? order.totalAmount - fee + discount}`,
+    discount > 0 ? `折扣 (${order.discount?.code}): -$${discount}` : null,
+    `運費 (${order.shipping.methodName}): ${fee > 0 ? `$${fee}` : "免運"}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Lines sold beyond stock ship when it arrives; customers should know before they wait
+function getBackorderNote(item: Order["cartItems"][number]): string {
+  if (!item.backorderedQuantity) return "";
+  const when = item.expectedShipDate
+    ? `預計 ${new Date(item.expectedShipDate).toLocaleDateString("zh-TW")} 出貨`
+    : "到貨後出貨";
+  return `\n        其中 ${item.backorderedQuantity} 件待補貨, ${when}`;
+}
+
 export async function sendOrderConfirmationEmail(
   order: Order,
   products: Product[],
@@ -45,10 +85,14 @@ export async function sendOrderConfirmationEmail(
       );
       return `
         - ${product?.title} (Quantity: ${item.quantity})
-        Price: $${item.priceAtPurchase} x ${item.quantity} = $${item.priceAtPurchase * item.quantity}
+        Price: $${item.priceAtPurchase} x ${item.quantity} = $${item.priceAtPurchase * item.quantity}${getBackorderNote(item)}
       `;
     })
     .join("\n");
+  const orderReference = getOrderReference(order);
+  const trackingUrl = buildOrderTrackingUrl(order);
+  const shippingSummary = getShippingSummary(order);
+  const paymentMethodLabel = getPaymentMethodLabel(order);
 
   const customerEmailContent = `
 Hi ${order.name},
@@ -57,12 +101,13 @@ Hi ${order.name},
 
 訂單詳情:
 -----------------------------
-訂單 編號: ${order.id}
+訂單 編號: ${orderReference}
 訂單 日期: ${new Date(order.orderDate).toLocaleString()}
 
 訂購商品:
 ${itemsList}
 
+${shippingSummary}
 總金額: $${order.totalAmount}
 
 運送資訊:
@@ -72,11 +117,11 @@ ${itemsList}
 電話: ${order.phone}
 Email: ${order.email}
 
-付款方式: 貨到付款
+付款方式: ${paymentMethodLabel}
 訂單狀態: ${order.status}
 
 ${order.note ? `\nOrder Note: ${order.note}` : ""}
-
+${trackingUrl ? `\n查詢訂單進度: ${trackingUrl}\n` : ""}
 如果您對訂單有任何疑問, 請與我們聯絡.
 
 感謝您的惠顧!
@@ -87,7 +132,7 @@ ${order.note ? `\nOrder Note: ${order.note}` : ""}
 
 訂單細節:
 -----------------------------
-訂單 編號: ${order.id}
+訂單 編號: ${orderReference}
 訂單 日期: ${new Date(order.orderDate).toLocaleString()}
 
 客戶 資料:
@@ -101,8 +146,9 @@ ${order.note ? `Note: ${order.note}` : ""}
 訂購商品:
 ${itemsList}
 
+${shippingSummary}
 總金額: $${order.totalAmount}
-支付方式: 貨到付款
+支付方式: ${paymentMethodLabel}
 訂單狀態: ${order.status}
 `;
 
@@ -110,7 +156,7 @@ ${itemsList}
   await transporter.sendMail({
     from: ZOHO_EMAIL,
     to: order.email,
-    subject: `訂單確認信 - 訂單編號 #${order.id}`,
+    subject: `訂單確認信 - 訂單編號 #${orderReference}`,
     text: customerEmailContent,
   });
 
@@ -118,11 +164,171 @@ ${itemsList}
   await transporter.sendMail({
     from: ZOHO_EMAIL,
     to: ADMIN_EMAIL,
-    subject: `新訂單 #${order.id} Received`,
+    subject: `新訂單 #${orderReference} Received`,
     text: adminEmailContent,
   });
 }
 
+/**
+ * Tell the customer their order is on its way, with the carrier's tracking link
+ */
+export async function sendOrderShippedEmail(order: Order) {
+  const orderReference = getOrderReference(order);
+  const trackingUrl = buildOrderTrackingUrl(order);
+  const carrierLabel = getCarrierLabel(order.shipping?.carrier);
+  const trackingNumber = order.shipping?.trackingNumber;
+  const carrierTrackingUrl = getCarrierTrackingUrl(
+    order.shipping?.carrier,
+    trackingNumber,
+  );
+
+  const shipmentDetails = [
+    carrierLabel ? `物流業者: ${carrierLabel}` : null,
+    trackingNumber ? `貨件追蹤號碼: ${trackingNumber}` : null,
+    carrierTrackingUrl ? `貨件追蹤: ${carrierTrackingUrl}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const customerEmailContent = `
+Hi ${order.name},
+
+您的訂單已出貨!
+
+訂單 編號: ${orderReference}
+出貨 日期: ${new Date(order.shippedAt || Date.now()).toLocaleString()}
+
+${shipmentDetails}
+
+配送方式: ${order.shipping?.methodName || "-"}
+收件地址: ${order.address}
+${trackingUrl ? `\n查詢訂單進度: ${trackingUrl}\n` : ""}
+如果您對訂單有任何疑問, 請與我們聯絡.
+
+感謝您的惠顧!
+`;
+
+  await transporter.sendMail({
+    from: ZOHO_EMAIL,
+    to: order.email,
+    subject: `出貨通知 - 訂單編號 #${orderReference}`,
+    text: customerEmailContent,
+  });
+}
+
+/**
+ * The one reminder for a checkout left unfinished. `items` are the cart lines
+ * at today's prices and stock; the link puts them back in the cart.
+ */
+export async function sendAbandonedCheckoutEmail(
+  draft: AbandonedCheckout,
+  items: CartItem[],
+  recoveryUrl: string,
+) {
+  const itemsList = items
+    .map((item) => {
+      const title = item.variant?.name
+        ? `${item.title} (${item.variant.name})`
+        : item.title;
+      return `        - ${title} x ${item.quantity}: $${getCartItemUnitPrice(item) * item.quantity}`;
+    })
+    .join("\n");
+
+  const customerEmailContent = `
+您好,
+
+您的購物車還有商品尚未結帳:
+
+${itemsList}
+
+點選以下連結即可回到購物車繼續結帳:
+${recoveryUrl}
+
+商品價格與庫存以結帳時為準. 這是唯一的一封提醒信, 之後不會再寄送.
+
+感謝您的惠顧!
+`;
+
+  await transporter.sendMail({
+    from: ZOHO_EMAIL,
+    to: draft.email,
+    subject: "您的購物車還有商品尚未結帳",
+    text: customerEmailContent,
+  });
+}
+
+export async function sendBackInStockEmail(
+  subscription: BackInStockSubscription,
+  {
+    productTitle,
+    variantName,
+    productUrl,
+  }: { productTitle: string; variantName: string; productUrl: string | null },
+  unsubscribeUrl: string,
+) {
+  const title = variantName ? `${productTitle} (${variantName})` : productTitle;
+
+  await transporter.sendMail({
+    from: ZOHO_EMAIL,
+    to: subscription.email,
+    subject: `到貨通知: ${title}`,
+    text: `
+您好,
+
+您登記到貨通知的商品已經補貨:
+
+        - ${title}
+${productUrl ? `\n立即選購:\n${productUrl}\n` : ""}
+庫存有限, 售完為止. 這次補貨只會通知一次, 如需下次補貨的通知請再次登記.
+
+不想再收到此商品的到貨通知? 取消登記:
+${unsubscribeUrl}
+`,
+  });
+}
+
+function formatLowStockLine(mapping: LowStockMapping): string {
+  const pace =
+    mapping.daysLeft === null
+      ? "近期無銷售"
+      : `每日約售出 ${mapping.dailySales} 件, 約 ${mapping.daysLeft} 天後售完`;
+  return `        - ${mapping.displayName}: 剩 ${mapping.quantity} 件 (警戒值 ${mapping.threshold}), ${pace}`;
+}
+
+/**
+ * Sent once when a variant falls to its low-stock threshold
+ */
+export async function sendLowStockAlertEmail(mapping: LowStockMapping) {
+  await transporter.sendMail({
+    from: ZOHO_EMAIL,
+    to: ADMIN_EMAIL,
+    subject: `庫存不足: ${mapping.displayName}`,
+    text: `
+以下商品規格的庫存已降至警戒值:
+
+${formatLowStockLine(mapping)}
+
+庫存補回警戒值以上後, 下次再降低時會再通知.
+`,
+  });
+}
+
+/**
+ * Daily list of every variant still at or below its threshold, fastest selling first
+ */
+export async function sendLowStockDigestEmail(mappings: LowStockMapping[]) {
+  await transporter.sendMail({
+    from: ZOHO_EMAIL,
+    to: ADMIN_EMAIL,
+    subject: `每日庫存不足清單 (${mappings.length} 項)`,
+    text: `
+以下商品規格的庫存仍在警戒值以下, 依銷售速度排序:
+
+${mappings.map(formatLowStockLine).join("\n")}
+`,
+  });
+}
+
 export async function sendContactFormEmail(contactData: {
   name: string;
   email: string;
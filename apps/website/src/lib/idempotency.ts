@@ -0,0 +1,66 @@
+/**
+ * Idempotency keys for checkout submissions
+ *
+ * The checkout form sends one key per attempt. A retry carrying the same key
+ * (double click, network retry) gets the order that key already created
+ * instead of a duplicate order and a second stock deduction.
+ */
+import { releaseIdempotencyKey, type Order } from "payload_app";
+import { ValidationError, type Payload } from "payload";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+// How long a key keeps pointing at its order. Override with CHECKOUT_IDEMPOTENCY_TTL_MINUTES.
+const DEFAULT_TTL_MINUTES = 24 * 60;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+export function getIdempotencyKeyTtlMs(): number {
+  const minutes = Number(process.env.CHECKOUT_IDEMPOTENCY_TTL_MINUTES);
+  return (minutes > 0 ? minutes : DEFAULT_TTL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Read the key from the request, or null when missing or malformed
+ */
+export function getIdempotencyKey(request: Request): string | null {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  return key && KEY_PATTERN.test(key) ? key : null;
+}
+
+/**
+ * Find the order created with this key while the key is still live.
+ * An expired key is detached from its old order so it can be used again.
+ */
+export async function findOrderByIdempotencyKey(
+  payloadClient: Payload,
+  key: string,
+): Promise<Order | null> {
+  const result = await payloadClient.find({
+    collection: "orders",
+    where: { idempotencyKey: { equals: key } },
+    depth: 2,
+    limit: 1,
+  });
+
+  const order = result.docs[0];
+  if (!order) return null;
+
+  const expiresAt = order.idempotencyKeyExpiresAt
+    ? new Date(order.idempotencyKeyExpiresAt).getTime()
+    : 0;
+  if (expiresAt > Date.now()) return order;
+
+  await releaseIdempotencyKey(payloadClient, order.id, key);
+  return null;
+}
+
+/**
+ * True when an order create failed because another request already claimed the key
+ */
+export function isIdempotencyKeyConflict(error: unknown): boolean {
+  return (
+    error instanceof ValidationError &&
+    error.data.errors.some((e) => e.path === "idempotencyKey")
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Customer access to their own orders
+ *
+ * Customers look an order up with its order number plus the email or phone on
+ * it, or open the signed link from their confirmation email. Both routes fail
+ * with the same answer whether the order is missing or the contact is wrong,
+ * so responses do not reveal which order numbers exist.
+ */
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Payload } from "payload";
+import type { Order } from "payload_app";
+import config from "@/config/config.json";
+
+// Tracking links keep working for this long after the order is placed
+const TRACKING_LINK_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+
+function getSigningSecret(): string {
+  const secret = process.env.ORDER_LINK_SECRET || process.env.PAYLOAD_SECRET;
+  if (!secret) {
+    throw new Error("ORDER_LINK_SECRET or PAYLOAD_SECRET must be set to sign order links");
+  }
+  return secret;
+}
+
+function sign(orderNumber: string, expiresAt: number): string {
+  return createHmac("sha256", getSigningSecret())
+    .update(`order-tracking:${orderNumber}:${expiresAt}`)
+    .digest("base64url");
+}
+
+/**
+ * Token for a tracking link, in the form `<expiresAt>.<signature>`
+ */
+export function createOrderTrackingToken(
+  orderNumber: string,
+  expiresAt: number = Date.now() + TRACKING_LINK_TTL_MS,
+): string {
+  return `${expiresAt}.${sign(orderNumber, expiresAt)}`;
+}
+
+export function verifyOrderTrackingToken(
+  orderNumber: string,
+  token: string,
+): boolean {
+  const [expiresAtPart, signature] = token.split(".");
+  const expiresAt = Number(expiresAtPart);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(orderNumber, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Absolute link to the order's tracking page, for emails
+ */
+export function buildOrderTrackingUrl(order: Order): string | null {
+  if (!order.orderNumber) return null;
+
+  const url = new URL("/orders/track", config.site.base_url);
+  url.searchParams.set("order", order.orderNumber);
+  url.searchParams.set("token", createOrderTrackingToken(order.orderNumber));
+  return url.toString();
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+
+function matchesContact(order: Order, contact: string): boolean {
+  const value = contact.trim();
+  if (!value) return false;
+
+  if (value.includes("@")) {
+    return order.email.trim().toLowerCase() === value.toLowerCase();
+  }
+
+  const digits = digitsOnly(value);
+  return digits.length >= 8 && digitsOnly(order.phone) === digits;
+}
+
+export async function findOrderByNumber(
+  payloadClient: Payload,
+  orderNumber: string,
+): Promise<Order | null> {
+  const result = await payloadClient.find({
+    collection: "orders",
+    where: { orderNumber: { equals: orderNumber } },
+    depth: 2,
+    limit: 1,
+  });
+  return result.docs[0] || null;
+}
+
+/**
+ * Find an order by number, only if `contact` is the email or phone on it
+ */
+export async function findOrderForCustomer(
+  payloadClient: Payload,
+  orderNumber: string,
+  contact: string,
+): Promise<Order | null> {
+  const order = await findOrderByNumber(payloadClient, orderNumber);
+  return order && matchesContact(order, contact) ? order : null;
+}
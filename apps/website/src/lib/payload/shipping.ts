@@ -0,0 +1,22 @@
+import type { ShippingMethod } from "payload_app";
+import { payload } from "../payload";
+
+export async function getShippingMethods(): Promise<ShippingMethod[]> {
+  const payloadClient = await payload();
+
+  const methods = await payloadClient.find({
+    collection: "shipping-methods",
+    where: { active: { equals: true } },
+    sort: "sortOrder",
+    limit: 50,
+  });
+
+  return methods.docs;
+}
+
+export async function getShippingMethod(
+  id: string,
+): Promise<ShippingMethod | null> {
+  const methods = await getShippingMethods();
+  return methods.find((method) => String(method.id) === id) || null;
+}
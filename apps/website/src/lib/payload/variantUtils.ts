@@ -12,7 +12,7 @@ function calculateTotalStock(mappings: ProductVariantMapping[]): number {
 
   return mappings
     .filter((mapping) => mapping.isActive === true)
-    .reduce((total, mapping) => total + (mapping.quantity || 0), 0);
+    .reduce((total, mapping) => total + Math.max(0, mapping.quantity || 0), 0);
 }
 
 /**
@@ -36,6 +36,7 @@ export function processVariantMappings(
         id: mapping.id,
         name: variant.name,
         price: getVariantPrice(mapping, variant),
+        priceTiers: mapping.priceTiers || [],
         stock: mapping.quantity,
         sku: variant.sku,
         isDefault: mapping.isDefault,
@@ -0,0 +1,257 @@
+/**
+ * Credit card payments through a redirect-based, ECPay-compatible gateway
+ *
+ * The customer's browser posts a signed form to the gateway and pays there.
+ * The gateway then reports the result twice: server-to-server to the notify
+ * URL, and through the customer's browser to the return URL. Both are
+ * verified with CheckMacValue and applied idempotently, so whichever arrives
+ * first moves the order from awaiting_payment to paid.
+ *
+ * Configure CARD_GATEWAY_URL, CARD_GATEWAY_MERCHANT_ID, CARD_GATEWAY_HASH_KEY
+ * and CARD_GATEWAY_HASH_IV for a real gateway, or set PAYMENT_MOCK_GATEWAY=true
+ * to use the local mock at /payments/mock-gateway.
+ */
+import type { Payload } from "payload";
+import type { Order, Product } from "payload_app";
+import {
+  generateCheckMacValue,
+  verifyCheckMacValue,
+  type CheckMacKeys,
+} from "./checkMacValue";
+import type { PaymentProvider } from "./types";
+
+export const CARD_NOTIFY_PATH = "/api/payments/card/notify";
+export const CARD_RETURN_PATH = "/api/payments/card/return";
+export const MOCK_GATEWAY_PATH = "/payments/mock-gateway";
+
+// Fixed keys for the mock gateway; it only runs when PAYMENT_MOCK_GATEWAY=true
+const MOCK_KEYS: CheckMacKeys = {
+  hashKey: "mockHashKey00000",
+  hashIV: "mockHashIV000000",
+};
+
+export interface CardGatewayConfig extends CheckMacKeys {
+  url: string;
+  merchantId: string;
+  mock: boolean;
+}
+
+export function isMockGatewayEnabled(): boolean {
+  return process.env.PAYMENT_MOCK_GATEWAY === "true";
+}
+
+export function getCardGatewayConfig(): CardGatewayConfig | null {
+  const {
+    CARD_GATEWAY_URL,
+    CARD_GATEWAY_MERCHANT_ID,
+    CARD_GATEWAY_HASH_KEY,
+    CARD_GATEWAY_HASH_IV,
+  } = process.env;
+
+  if (
+    CARD_GATEWAY_URL &&
+    CARD_GATEWAY_MERCHANT_ID &&
+    CARD_GATEWAY_HASH_KEY &&
+    CARD_GATEWAY_HASH_IV
+  ) {
+    return {
+      url: CARD_GATEWAY_URL,
+      merchantId: CARD_GATEWAY_MERCHANT_ID,
+      hashKey: CARD_GATEWAY_HASH_KEY,
+      hashIV: CARD_GATEWAY_HASH_IV,
+      mock: false,
+    };
+  }
+
+  if (isMockGatewayEnabled()) {
+    return {
+      url: MOCK_GATEWAY_PATH,
+      merchantId: "MOCK0001",
+      ...MOCK_KEYS,
+      mock: true,
+    };
+  }
+
+  return null;
+}
+
+// Gateways take whole dollars
+export const toGatewayAmount = (amount: number) => String(Math.round(amount));
+
+// yyyy/MM/dd HH:mm:ss in Taiwan time
+function formatTradeDate(date: Date): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-GB", {
+      timeZone: "Asia/Taipei",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  return `${parts.year}/${parts.month}/${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+/**
+ * Gateway trade numbers must be unique per attempt and at most 20 alphanumerics,
+ * so each attempt appends a short time-based suffix to the order number.
+ */
+function createMerchantTradeNo(orderNumber: string): string {
+  const base = orderNumber.replace(/[^A-Za-z0-9]/g, "").slice(0, 15);
+  const suffix = Date.now().toString(36).toUpperCase().slice(-5);
+  return `${base}${suffix}`;
+}
+
+function describeItems(order: Order): string {
+  const names = order.cartItems.map((item) => {
+    const title =
+      typeof item.product === "object"
+        ? (item.product as Product).title
+        : "商品";
+    return `${title}${item.variant?.name ? ` ${item.variant.name}` : ""} x ${item.quantity}`;
+  });
+  return names.join("#").slice(0, 400);
+}
+
+export const cardProvider: PaymentProvider = {
+  method: "card",
+  label: "信用卡",
+  initialStatus: "awaiting_payment",
+  isAvailable: () => getCardGatewayConfig() !== null,
+  startPayment(order, { origin }) {
+    const config = getCardGatewayConfig();
+    if (!config || !order.orderNumber) {
+      throw new Error("Card payments are not configured");
+    }
+
+    const fields: Record<string, string> = {
+      MerchantID: config.merchantId,
+      MerchantTradeNo: createMerchantTradeNo(order.orderNumber),
+      MerchantTradeDate: formatTradeDate(new Date()),
+      PaymentType: "aio",
+      TotalAmount: toGatewayAmount(order.totalAmount),
+      TradeDesc: `訂單 ${order.orderNumber}`,
+      ItemName: describeItems(order),
+      ReturnURL: new URL(CARD_NOTIFY_PATH, origin).toString(),
+      OrderResultURL: new URL(CARD_RETURN_PATH, origin).toString(),
+      ChoosePayment: "Credit",
+      EncryptType: "1",
+      CustomField1: order.orderNumber,
+    };
+    fields.CheckMacValue = generateCheckMacValue(fields, config);
+
+    return {
+      type: "redirect_form",
+      action: new URL(config.url, origin).toString(),
+      fields,
+    };
+  },
+};
+
+export type CardPaymentResult =
+  | { outcome: "invalid" }
+  | { outcome: "unknown_order" }
+  | { outcome: "failed"; order: Order; message: string }
+  | { outcome: "paid"; order: Order };
+
+/**
+ * Verify a result posted by the gateway and record it on the order.
+ * Safe to call more than once for the same payment.
+ */
+export async function applyCardPaymentResult(
+  payloadClient: Payload,
+  params: Record<string, string>,
+): Promise<CardPaymentResult> {
+  const config = getCardGatewayConfig();
+  if (
+    !config ||
+    params.MerchantID !== config.merchantId ||
+    !verifyCheckMacValue(params, config)
+  ) {
+    return { outcome: "invalid" };
+  }
+
+  const result = await payloadClient.find({
+    collection: "orders",
+    where: { orderNumber: { equals: params.CustomField1 || "" } },
+    depth: 2,
+    limit: 1,
+  });
+  const order = result.docs[0];
+  if (!order) return { outcome: "unknown_order" };
+
+  if (params.RtnCode !== "1") {
+    return {
+      outcome: "failed",
+      order,
+      message: params.RtnMsg || "Payment failed",
+    };
+  }
+
+  if (order.status !== "awaiting_payment") {
+    // Already recorded by the other callback, or the order moved on
+    return order.payment?.transactionId === params.TradeNo
+      ? { outcome: "paid", order }
+      : {
+          outcome: "failed",
+          order,
+          message: `Order is ${order.status}, not awaiting payment`,
+        };
+  }
+
+  if (params.TradeAmt !== toGatewayAmount(order.totalAmount)) {
+    console.error(
+      `[Payments] Amount mismatch for ${order.orderNumber}: paid ${params.TradeAmt}, expected ${toGatewayAmount(order.totalAmount)}`,
+    );
+    return { outcome: "failed", order, message: "Paid amount does not match" };
+  }
+
+  const updated = await payloadClient.update({
+    collection: "orders",
+    id: order.id,
+    data: {
+      status: "paid",
+      statusChangeReason: `Card payment ${params.TradeNo}`,
+      payment: {
+        method: "card",
+        merchantTradeNo: params.MerchantTradeNo,
+        transactionId: params.TradeNo,
+        paymentType: params.PaymentType,
+      },
+    },
+    depth: 2,
+  });
+  return { outcome: "paid", order: updated };
+}
+
+/**
+ * Build the gateway's callback for a mock payment, signed with the mock keys
+ */
+export function createMockGatewayResult(
+  request: Record<string, string>,
+  paid: boolean,
+): Record<string, string> {
+  const result: Record<string, string> = {
+    MerchantID: request.MerchantID,
+    MerchantTradeNo: request.MerchantTradeNo,
+    RtnCode: paid ? "1" : "10100058",
+    RtnMsg: paid ? "交易成功" : "付款失敗",
+    TradeNo: `MOCK${Date.now()}`,
+    TradeAmt: request.TotalAmount,
+    PaymentDate: formatTradeDate(new Date()),
+    PaymentType: "Credit_CreditCard",
+    SimulatePaid: "1",
+    CustomField1: request.CustomField1 || "",
+  };
+  result.CheckMacValue = generateCheckMacValue(result, MOCK_KEYS);
+  return result;
+}
+
+export function verifyMockGatewayRequest(params: Record<string, string>): boolean {
+  return verifyCheckMacValue(params, MOCK_KEYS);
+}
@@ -0,0 +1,58 @@
+/**
+ * CheckMacValue signing as used by ECPay-style gateways
+ *
+ * Parameters are sorted by name, wrapped in HashKey/HashIV, URL-encoded the way
+ * .NET's HttpUtility.UrlEncode does it, lower-cased and hashed with SHA-256.
+ */
+import { createHash, timingSafeEqual } from "node:crypto";
+
+export interface CheckMacKeys {
+  hashKey: string;
+  hashIV: string;
+}
+
+// encodeURIComponent escapes these, .NET's UrlEncode does not
+const DOTNET_UNESCAPED: Record<string, string> = {
+  "%2d": "-",
+  "%5f": "_",
+  "%2e": ".",
+  "%21": "!",
+  "%2a": "*",
+  "%28": "(",
+  "%29": ")",
+};
+
+function dotNetUrlEncode(value: string): string {
+  return encodeURIComponent(value)
+    .replace(/'/g, "%27")
+    .replace(/~/g, "%7e")
+    .replace(/%20/g, "+")
+    .toLowerCase()
+    .replace(/%2d|%5f|%2e|%21|%2a|%28|%29/g, (match) => DOTNET_UNESCAPED[match]);
+}
+
+export function generateCheckMacValue(
+  params: Record<string, string>,
+  { hashKey, hashIV }: CheckMacKeys,
+): string {
+  const query = Object.keys(params)
+    .filter((key) => key !== "CheckMacValue")
+    .sort((a, b) => (a.toLowerCase() < b.toLowerCase() ? -1 : 1))
+    .map((key) => `${key}=${params[key]}`)
+    .join("&");
+
+  const raw = dotNetUrlEncode(`HashKey=${hashKey}&${query}&HashIV=${hashIV}`);
+  return createHash("sha256").update(raw).digest("hex").toUpperCase();
+}
+
+export function verifyCheckMacValue(
+  params: Record<string, string>,
+  keys: CheckMacKeys,
+): boolean {
+  const received = params.CheckMacValue;
+  if (!received) return false;
+
+  const expected = Buffer.from(generateCheckMacValue(params, keys));
+  const actual = Buffer.from(received.toUpperCase());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,12 @@
+import type { PaymentProvider } from "./types";
+
+/**
+ * Cash on delivery: the carrier collects payment, so the order is ready to process as soon as it is placed
+ */
+export const codProvider: PaymentProvider = {
+  method: "cod",
+  label: "貨到付款",
+  initialStatus: "pending",
+  isAvailable: () => true,
+  startPayment: () => ({ type: "none" }),
+};
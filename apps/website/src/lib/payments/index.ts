@@ -0,0 +1,47 @@
+/**
+ * Payment providers available at checkout
+ *
+ * Each provider decides the status a new order starts in and what the customer
+ * does after placing it. Add a provider by implementing PaymentProvider and
+ * listing it here.
+ */
+import type { Order } from "payload_app";
+import { createOrderTrackingToken } from "@/lib/orderTracking";
+import { cardProvider } from "./card";
+import { codProvider } from "./cod";
+import type { PaymentProvider } from "./types";
+
+export type { PaymentMethod, PaymentProvider, PaymentStart } from "./types";
+
+const PROVIDERS: PaymentProvider[] = [codProvider, cardProvider];
+
+export function getPaymentProvider(
+  method: string | null | undefined,
+): PaymentProvider | null {
+  return PROVIDERS.find((provider) => provider.method === method) || null;
+}
+
+/**
+ * Providers that can take orders right now, in display order
+ */
+export function getAvailablePaymentProviders(): PaymentProvider[] {
+  return PROVIDERS.filter((provider) => provider.isAvailable());
+}
+
+// Orders placed before payment methods existed were all cash on delivery
+export function getPaymentMethodLabel(order: Order): string {
+  return (getPaymentProvider(order.payment?.method) || codProvider).label;
+}
+
+/**
+ * Page where the customer pays for an order awaiting payment.
+ * Carries a signed token so only the person who placed the order can open it.
+ */
+export function getPaymentPagePath(order: Order): string {
+  const orderNumber = order.orderNumber || "";
+  const params = new URLSearchParams({
+    order: orderNumber,
+    token: createOrderTrackingToken(orderNumber),
+  });
+  return `/checkout/pay?${params}`;
+}
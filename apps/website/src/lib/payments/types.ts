@@ -0,0 +1,24 @@
+import type { Order } from "payload_app";
+
+export type PaymentMethod = NonNullable<Order["payment"]>["method"];
+
+/**
+ * What the customer does after the order is written
+ */
+export type PaymentStart =
+  // Nothing to pay now (e.g. cash on delivery)
+  | { type: "none" }
+  // Post this form from the customer's browser to the gateway
+  | { type: "redirect_form"; action: string; fields: Record<string, string> };
+
+export interface PaymentProvider {
+  method: PaymentMethod;
+  /** Shown at checkout and in emails */
+  label: string;
+  /** Status a new order is created in */
+  initialStatus: Extract<Order["status"], "pending" | "awaiting_payment">;
+  /** Whether the provider can take orders in this environment */
+  isAvailable(): boolean;
+  /** Begin payment for an order created with this provider */
+  startPayment(order: Order, options: { origin: string }): PaymentStart;
+}
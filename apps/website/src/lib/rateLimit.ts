@@ -0,0 +1,254 @@
+/**
+ * Fixed-window rate limiting for API routes and form posts
+ *
+ * Each route has a budget per client IP and, where the request names one, per
+ * customer identity (email, phone, order number), so spreading a script over
+ * many IPs does not get around the limit for one customer. Counts live in
+ * process memory by default; call setRateLimitStore() at startup to share them
+ * between instances.
+ *
+ * Budgets can be overridden per route and scope with environment variables in
+ * the form `<limit>/<window seconds>`, e.g. RATE_LIMIT_CHECKOUT_IP=10/600.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimitBudget {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Where hit counts are kept. `hit` counts one request against `key` and returns
+ * the count so far in the current window and when that window ends.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+// How often the memory store drops windows that have ended
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private nextSweepAt = 0;
+
+  async hit(key: string, windowMs: number) {
+    const now = Date.now();
+    let window = this.windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count += 1;
+
+    // Drop ended windows once a minute so the map does not grow forever. Form
+    // token nonces stay for hours, so sweeping on size alone would run on every hit.
+    if (now >= this.nextSweepAt) {
+      this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+      for (const [k, w] of this.windows) {
+        if (w.resetAt <= now) this.windows.delete(k);
+      }
+    }
+
+    return { count: window.count, resetAt: window.resetAt };
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+export function setRateLimitStore(nextStore: RateLimitStore): void {
+  store = nextStore;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Default budgets per route. `identity` applies to each email, phone or order
+ * number the request names.
+ */
+const RATE_LIMIT_BUDGETS = {
+  // Orders reserve real stock
+  checkout: {
+    ip: { limit: 10, windowMs: 10 * MINUTE },
+    identity: { limit: 5, windowMs: HOUR },
+  },
+  // Every message is sent through our SMTP account
+  contact: {
+    ip: { limit: 5, windowMs: HOUR },
+    identity: { limit: 3, windowMs: HOUR },
+  },
+  // Saved a few seconds after the customer stops typing
+  "checkout-draft": {
+    ip: { limit: 60, windowMs: 10 * MINUTE },
+  },
+  // Synced carts are read on every page load and written on every change
+  cart: {
+    ip: { limit: 300, windowMs: 10 * MINUTE },
+  },
+  // Whole carts, checked when the cart or checkout opens and after each change
+  "cart-validate": {
+    ip: { limit: 60, windowMs: MINUTE },
+  },
+  // Called for every cart line on page load
+  "validate-cart-item": {
+    ip: { limit: 120, windowMs: MINUTE },
+  },
+  // Each sign-up is emailed later, so one address gets only a few
+  "back-in-stock": {
+    ip: { limit: 20, windowMs: HOUR },
+    identity: { limit: 10, windowMs: HOUR },
+  },
+  // Once per retried checkout or contact post
+  "form-token": {
+    ip: { limit: 30, windowMs: 10 * MINUTE },
+  },
+  // Enough for a customer fixing a typo, too few to guess codes
+  "validate-coupon": {
+    ip: { limit: 20, windowMs: 15 * MINUTE },
+  },
+  // Per order number too, so one order cannot be brute-forced from many IPs
+  "orders-track": {
+    ip: { limit: 10, windowMs: 15 * MINUTE },
+    identity: { limit: 10, windowMs: HOUR },
+  },
+} satisfies Record<string, { ip: RateLimitBudget; identity?: RateLimitBudget }>;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMIT_BUDGETS;
+type RateLimitScope = "ip" | "identity";
+
+function getBudget(
+  route: RateLimitedRoute,
+  scope: RateLimitScope,
+): RateLimitBudget | undefined {
+  const budgets: { ip: RateLimitBudget; identity?: RateLimitBudget } =
+    RATE_LIMIT_BUDGETS[route];
+  const envName = `RATE_LIMIT_${route}_${scope}`
+    .toUpperCase()
+    .replace(/-/g, "_");
+  const match = process.env[envName]?.match(/^(\d+)\/(\d+)$/);
+  if (match) {
+    return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+  }
+  return budgets[scope];
+}
+
+/**
+ * Count one hit against `key` and report whether it fits in the budget
+ */
+export async function rateLimit(
+  key: string,
+  { limit, windowMs }: RateLimitBudget,
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const { count, resetAt } = await store.hit(key, windowMs);
+
+  return {
+    allowed: count <= limit,
+    remaining: Math.max(0, limit - count),
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+  };
+}
+
+/**
+ * Count a request against a route's budgets: once for the client IP and once for
+ * each identity. Denied when any budget is spent; Retry-After is the longest wait.
+ */
+export async function limitRequest(
+  route: RateLimitedRoute,
+  {
+    request,
+    clientAddress,
+    identities = [],
+  }: {
+    request: Request;
+    clientAddress?: string;
+    identities?: (string | null | undefined)[];
+  },
+): Promise<RateLimitResult> {
+  const checks: Promise<RateLimitResult>[] = [];
+
+  const ipBudget = getBudget(route, "ip");
+  if (ipBudget) {
+    checks.push(
+      rateLimit(`${route}:ip:${getClientIp(request, clientAddress)}`, ipBudget),
+    );
+  }
+
+  const identityBudget = getBudget(route, "identity");
+  if (identityBudget) {
+    const keys = new Set(
+      identities
+        .map((identity) => identity?.trim().toLowerCase())
+        .filter((identity): identity is string => Boolean(identity)),
+    );
+    for (const identity of keys) {
+      checks.push(rateLimit(`${route}:identity:${identity}`, identityBudget));
+    }
+  }
+
+  const results = await Promise.all(checks);
+  const denied = results.filter((result) => !result.allowed);
+  return {
+    allowed: denied.length === 0,
+    remaining: Math.min(...results.map((result) => result.remaining)),
+    retryAfterSeconds: Math.max(
+      0,
+      ...denied.map((result) => result.retryAfterSeconds),
+    ),
+  };
+}
+
+/**
+ * 429 response for a denied request. `body` is sent as JSON.
+ */
+export function tooManyRequests(
+  result: RateLimitResult,
+  body: Record<string, unknown> = { error: "請求次數過多，請稍後再試" },
+): Response {
+  return new Response(JSON.stringify(body), {
+    status: 429,
+    headers: {
+      "Content-Type": "application/json",
+      "Retry-After": String(result.retryAfterSeconds),
+    },
+  });
+}
+
+/**
+ * Number of reverse proxies in front of the site that append to X-Forwarded-For
+ * (TRUSTED_PROXY_HOPS, default 0)
+ */
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+/**
+ * The client IP that rate limits are counted against.
+ *
+ * The client can send any X-Forwarded-For it likes and each proxy appends the
+ * address it saw, so only the entries our own proxies added can be trusted:
+ * behind `n` proxies the client is the `n`-th entry from the right. Without a
+ * configured proxy the header is ignored and Astro's clientAddress is used.
+ */
+export function getClientIp(request: Request, clientAddress?: string): string {
+  const trustedHops = getTrustedProxyHops();
+  if (trustedHops > 0) {
+    const hops = (request.headers.get("x-forwarded-for") || "")
+      .split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    if (hops.length > 0) {
+      return hops[Math.max(0, hops.length - trustedHops)];
+    }
+  }
+  return clientAddress || "unknown";
+}
@@ -0,0 +1,142 @@
+/**
+ * Carts kept on the server, opened by the token in their link
+ *
+ * A browser that turns on cart sync owns a `customer` cart and writes every
+ * change to it, so the same link opened on another device picks the cart up.
+ * `shared` carts are built by staff in the admin and are only ever read here.
+ * Carts store what was picked and how many; prices, stock and titles are read
+ * from the catalogue whenever a cart is opened.
+ */
+import type { Payload } from "payload";
+import type { Cart, Product } from "payload_app";
+import type { CartItem } from "@/cartStore";
+import {
+  describeCartLineIssue,
+  findVariantMapping,
+  loadCartLine,
+  type RevalidatedCart,
+} from "@/lib/cartRevalidation";
+
+export const CART_TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+// Well above any real order; stops a script from storing huge carts
+const MAX_CART_LINES = 100;
+
+type CartLine = NonNullable<Cart["items"]>[number];
+
+export async function findCartByToken(
+  payloadClient: Payload,
+  token: string,
+): Promise<Cart | null> {
+  if (!CART_TOKEN_PATTERN.test(token)) return null;
+  const { docs } = await payloadClient.find({
+    collection: "carts",
+    where: { token: { equals: token } },
+    depth: 1,
+    limit: 1,
+  });
+  return docs[0] || null;
+}
+
+/**
+ * The cart's lines as they can be bought now, with what had to change
+ */
+export async function loadServerCart(
+  payloadClient: Payload,
+  cart: Cart,
+): Promise<RevalidatedCart> {
+  const items: CartItem[] = [];
+  const changes: string[] = [];
+
+  for (const line of cart.items || []) {
+    const product = line.product as Product | string;
+    const variant = line.variant;
+    const { item, issues } = await loadCartLine(payloadClient, {
+      productId: typeof product === "object" ? product.id : product,
+      mappingId: typeof variant === "object" ? variant?.id : variant,
+      quantity: line.quantity,
+    });
+    const label =
+      item?.title || (typeof product === "object" ? product.title : "商品");
+    changes.push(...issues.map((issue) => describeCartLineIssue(label, issue)));
+    if (item) items.push(item);
+  }
+
+  return { items, changes };
+}
+
+/**
+ * Cart items from the browser as stored lines. Lines for products that no
+ * longer exist are dropped; older carts that only kept the variant id get
+ * their variant mapping looked up.
+ */
+async function toCartLines(
+  payloadClient: Payload,
+  input: unknown,
+): Promise<CartLine[]> {
+  if (!Array.isArray(input)) return [];
+  const items = input
+    .filter(
+      (item): item is CartItem =>
+        Boolean(item) &&
+        typeof item === "object" &&
+        (typeof item.id === "string" || typeof item.id === "number"),
+    )
+    .slice(0, MAX_CART_LINES);
+  if (items.length === 0) return [];
+
+  const { docs: products } = await payloadClient.find({
+    collection: "products",
+    where: { id: { in: items.map((item) => String(item.id)) } },
+    depth: 1,
+    pagination: false,
+  });
+
+  const lines: CartLine[] = [];
+  for (const item of items) {
+    const product = products.find((doc) => String(doc.id) === String(item.id));
+    if (!product) continue;
+
+    let variant: string | null = null;
+    if (item.variant) {
+      const mapping = findVariantMapping(
+        product,
+        item.variant.id,
+        item.variant.mappingId,
+      );
+      if (!mapping) continue;
+      variant = mapping.id;
+    }
+
+    lines.push({
+      product: product.id,
+      variant,
+      quantity: Math.max(1, Math.floor(Number(item.quantity)) || 1),
+    });
+  }
+  return lines;
+}
+
+export async function createCustomerCart(
+  payloadClient: Payload,
+  items: unknown,
+): Promise<Cart> {
+  return payloadClient.create({
+    collection: "carts",
+    data: { kind: "customer", items: await toCartLines(payloadClient, items) },
+    depth: 0,
+  });
+}
+
+export async function updateCustomerCart(
+  payloadClient: Payload,
+  cart: Cart,
+  items: unknown,
+): Promise<Cart> {
+  return payloadClient.update({
+    collection: "carts",
+    id: cart.id,
+    data: { items: await toCartLines(payloadClient, items) },
+    depth: 0,
+  });
+}
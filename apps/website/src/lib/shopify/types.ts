@@ -13,12 +13,19 @@ export interface ProductVariant {
   updatedAt: string;
 }
 
+// Per-unit discount from minQuantity units upwards
+export interface PriceTier {
+  minQuantity: number;
+  discountPercent: number;
+}
+
 export interface ProductVariantMapping {
   id: VariantId;
   product: VariantId;
   variant: VariantId | ProductVariant;
   quantity: number;
   priceOverride?: number;
+  priceTiers?: PriceTier[] | null;
   isDefault: boolean;
   isActive: boolean;
   createdAt: string;
@@ -52,7 +59,11 @@ export interface ProcessedVariant {
   variantId?: VariantId; // ID of the actual variant
   name: string;
   price: number;
-  stock: number;
+  priceTiers?: PriceTier[];
+  stock: number; // Units that can be ordered, including backorders and preorders
+  onHand?: number; // Units physically in stock
+  inventoryPolicy?: "deny" | "backorder" | "preorder";
+  preorderShipDate?: string | null;
   sku?: string;
   isDefault: boolean;
   availableForSale: boolean;
@@ -72,6 +83,7 @@ export interface CartItemWithVariant {
     mappingId?: VariantId;
     name: string;
     price: number;
+    priceTiers?: PriceTier[];
     stock: number;
     sku?: string;
   } | null;
@@ -0,0 +1,79 @@
+/**
+ * Bot check fields and proof-of-work, shared by the forms and the server checks
+ *
+ * The browser looks for a solution whose SHA-256 with the form token starts
+ * with `difficulty` zero bits. Each extra bit doubles the average work; 16 bits
+ * takes a phone about a second and makes bulk posting expensive.
+ */
+
+// Named like a field bots expect to fill; hidden from people
+export const HONEYPOT_FIELD = "website";
+export const FORM_TOKEN_FIELD = "formToken";
+export const PROOF_OF_WORK_FIELD = "powSolution";
+
+const FORM_TOKEN_ENDPOINT = "/api/form-token";
+
+export interface FormChallenge {
+  token: string;
+  difficulty: number;
+}
+
+async function hash(token: string, solution: string): Promise<Uint8Array> {
+  const data = new TextEncoder().encode(`${token}:${solution}`);
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+export async function checkProofOfWork(
+  token: string,
+  solution: string,
+  difficulty: number,
+): Promise<boolean> {
+  if (difficulty <= 0) return true;
+  if (!/^\d{1,12}$/.test(solution)) return false;
+  return leadingZeroBits(await hash(token, solution)) >= difficulty;
+}
+
+export async function solveProofOfWork(
+  token: string,
+  difficulty: number,
+): Promise<string> {
+  if (difficulty <= 0) return "";
+  for (let attempt = 0; ; attempt++) {
+    if (leadingZeroBits(await hash(token, String(attempt))) >= difficulty) {
+      return String(attempt);
+    }
+  }
+}
+
+/**
+ * A new token for posting a form again; each token is good for one post.
+ * Null when the page is too old to renew, and the post is left to fail with
+ * the server's message.
+ */
+export async function fetchRenewedFormChallenge(
+  form: "checkout" | "contact",
+  token: string,
+): Promise<FormChallenge | null> {
+  try {
+    const response = await fetch(FORM_TOKEN_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ form, token }),
+    });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+}
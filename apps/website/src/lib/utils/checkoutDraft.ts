@@ -0,0 +1,66 @@
+/**
+ * The checkout draft kept in the browser while a customer has a reminder
+ * switched on: the id and token of the server copy, plus what they typed so the
+ * form can be filled in again when they come back.
+ */
+
+export const CHECKOUT_DRAFT_STORAGE_KEY = "checkoutDraft";
+
+// Checkout fields worth restoring besides name, email and phone
+export const CHECKOUT_DRAFT_FORM_FIELDS = [
+  "shippingMethod",
+  "city",
+  "district",
+  "street",
+  "storeName",
+  "storeCode",
+  "note",
+] as const;
+
+export type CheckoutDraftForm = Partial<
+  Record<(typeof CHECKOUT_DRAFT_FORM_FIELDS)[number], string>
+>;
+
+export interface StoredCheckoutDraft {
+  id?: string;
+  token?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  form?: CheckoutDraftForm;
+}
+
+/**
+ * Keep the known fields only, as strings of a sane length
+ */
+export function pickCheckoutDraftForm(input: unknown): CheckoutDraftForm {
+  const form: CheckoutDraftForm = {};
+  if (!input || typeof input !== "object") return form;
+
+  for (const field of CHECKOUT_DRAFT_FORM_FIELDS) {
+    const value = (input as Record<string, unknown>)[field];
+    if (typeof value === "string" && value.trim()) {
+      form[field] = value.trim().slice(0, 500);
+    }
+  }
+  return form;
+}
+
+export function readStoredCheckoutDraft(): StoredCheckoutDraft | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const saved = localStorage.getItem(CHECKOUT_DRAFT_STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as StoredCheckoutDraft) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeStoredCheckoutDraft(draft: StoredCheckoutDraft | null) {
+  if (typeof window === "undefined") return;
+  if (draft) {
+    localStorage.setItem(CHECKOUT_DRAFT_STORAGE_KEY, JSON.stringify(draft));
+  } else {
+    localStorage.removeItem(CHECKOUT_DRAFT_STORAGE_KEY);
+  }
+}
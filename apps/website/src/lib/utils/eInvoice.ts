@@ -0,0 +1,103 @@
+/**
+ * Taiwan e-invoice (電子發票) choices, shared by the checkout form and the checkout API
+ */
+
+import type { Order } from "payload_app";
+
+export type InvoiceType = NonNullable<Order["invoice"]>["type"];
+
+export interface InvoiceDetails {
+  type: InvoiceType;
+  carrierCode?: string;
+  donationCode?: string;
+  taxId?: string;
+  companyName?: string;
+}
+
+export const INVOICE_TYPE_LABELS: Record<InvoiceType, string> = {
+  personal: "個人電子發票（寄送至 Email）",
+  mobile_carrier: "手機條碼載具",
+  citizen_carrier: "自然人憑證載具",
+  donation: "捐贈發票",
+  company: "公司發票（統一編號）",
+};
+
+/**
+ * Mobile barcode carrier: "/" and seven of 0-9, A-Z, ".", "+", "-".
+ * The barcode has no check digit; only the tax authority can confirm it exists.
+ */
+export function isValidMobileBarcode(value: string): boolean {
+  return /^\/[0-9A-Z.+-]{7}$/.test(value);
+}
+
+// Citizen digital certificate carrier: two letters and 14 digits
+export function isValidCitizenCarrier(value: string): boolean {
+  return /^[A-Z]{2}\d{14}$/.test(value);
+}
+
+// 愛心碼: 3 to 7 digits
+export function isValidDonationCode(value: string): boolean {
+  return /^\d{3,7}$/.test(value);
+}
+
+const TAX_ID_WEIGHTS = [1, 2, 1, 2, 1, 2, 4, 1];
+
+/**
+ * 統一編號 checksum: weight the eight digits, add up the digits of each product,
+ * and the sum must be divisible by 5. When the seventh digit is 7 its product (28)
+ * may count as 1 or 0, so sum + 1 divisible by 5 is accepted too.
+ */
+export function isValidTaxId(value: string): boolean {
+  if (!/^\d{8}$/.test(value)) return false;
+
+  const sum = TAX_ID_WEIGHTS.reduce((total, weight, index) => {
+    const product = Number(value[index]) * weight;
+    return total + Math.floor(product / 10) + (product % 10);
+  }, 0);
+
+  return sum % 5 === 0 || (value[6] === "7" && (sum + 1) % 5 === 0);
+}
+
+/**
+ * Trim and validate the invoice fields for the chosen type, dropping fields the
+ * type does not use. Returns the error to show the customer when invalid.
+ */
+export function parseInvoiceDetails(input: {
+  type?: string | null;
+  carrierCode?: string | null;
+  donationCode?: string | null;
+  taxId?: string | null;
+  companyName?: string | null;
+}): { invoice: InvoiceDetails; error: null } | { invoice: null; error: string } {
+  const type = (input.type || "personal") as InvoiceType;
+  const carrierCode = (input.carrierCode || "").trim().toUpperCase();
+  const donationCode = (input.donationCode || "").trim();
+  const taxId = (input.taxId || "").trim();
+  const companyName = (input.companyName || "").trim();
+
+  switch (type) {
+    case "personal":
+      return { invoice: { type }, error: null };
+    case "mobile_carrier":
+      return isValidMobileBarcode(carrierCode)
+        ? { invoice: { type, carrierCode }, error: null }
+        : { invoice: null, error: "手機條碼格式錯誤，應為 / 開頭共 8 碼" };
+    case "citizen_carrier":
+      return isValidCitizenCarrier(carrierCode)
+        ? { invoice: { type, carrierCode }, error: null }
+        : { invoice: null, error: "自然人憑證條碼格式錯誤，應為 2 碼英文加 14 碼數字" };
+    case "donation":
+      return isValidDonationCode(donationCode)
+        ? { invoice: { type, donationCode }, error: null }
+        : { invoice: null, error: "愛心碼應為 3 至 7 碼數字" };
+    case "company":
+      return isValidTaxId(taxId)
+        ? {
+            invoice: { type, taxId, companyName: companyName || undefined },
+            error: null,
+          }
+        : { invoice: null, error: "統一編號錯誤，請確認 8 碼數字是否正確" };
+    default:
+      return { invoice: null, error: "請選擇發票類型" };
+  }
+}
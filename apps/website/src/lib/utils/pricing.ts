@@ -3,24 +3,70 @@
  */
 
 import type {
+  PriceTier,
   ProductVariantMapping,
   ProductVariant,
 } from "@/lib/shopify/types";
 
 /**
- * Determine the effective price for a variant mapping
- * Priority: priceOverride > variant.price > 0
+ * The price break that applies at `quantity`: the one with the highest
+ * minQuantity not above it, or null below the first break
+ */
+export function getApplicablePriceTier(
+  tiers: PriceTier[] | null | undefined,
+  quantity: number,
+): PriceTier | null {
+  return (tiers || [])
+    .filter((tier) => quantity >= tier.minQuantity)
+    .reduce<PriceTier | null>(
+      (best, tier) =>
+        !best || tier.minQuantity > best.minQuantity ? tier : best,
+      null,
+    );
+}
+
+/**
+ * Unit price after quantity price breaks, rounded to cents.
+ * The product page, the cart and checkout all price through this function.
+ */
+export function applyPriceTiers(
+  unitPrice: number,
+  tiers: PriceTier[] | null | undefined,
+  quantity: number,
+): number {
+  const tier = getApplicablePriceTier(tiers, quantity);
+  if (!tier) return unitPrice;
+  return Math.round(unitPrice * (100 - tier.discountPercent)) / 100;
+}
+
+/**
+ * Determine the effective unit price for a variant mapping at a given quantity
+ * Priority: priceOverride > variant.price > 0, then quantity price breaks
  */
 export function getVariantPrice(
   mapping: ProductVariantMapping | any,
   variant?: ProductVariant | any,
+  quantity: number = 1,
 ): number {
   // Handle case where variant is embedded in mapping
   const actualVariant =
     variant || (typeof mapping.variant === "object" ? mapping.variant : null);
 
   // Priority: mapping price override > variant base price > fallback to 0
-  return Number(mapping.priceOverride || actualVariant?.price || 0);
+  const basePrice = Number(mapping.priceOverride || actualVariant?.price || 0);
+  return applyPriceTiers(basePrice, mapping.priceTiers, quantity);
+}
+
+/**
+ * Unit price of a cart line. `price` is the base price stored when the item was
+ * added; the variant carries its price breaks.
+ */
+export function getCartItemUnitPrice(item: {
+  price: number;
+  quantity: number;
+  variant?: { priceTiers?: PriceTier[] | null } | null;
+}): number {
+  return applyPriceTiers(item.price, item.variant?.priceTiers, item.quantity);
 }
 
 /**
@@ -0,0 +1,68 @@
+/**
+ * Shipping fee and delivery-field rules, shared by the checkout form and the checkout API
+ */
+
+import type { ShippingMethod } from "payload_app";
+
+export type ShippingAddressField = ShippingMethod["requiredAddressFields"][number];
+
+export interface ShippingDetails {
+  address?: string;
+  storeName?: string;
+  storeCode?: string;
+}
+
+export const SHIPPING_ADDRESS_FIELD_LABELS: Record<ShippingAddressField, string> = {
+  address: "收件地址",
+  storeName: "門市名稱",
+  storeCode: "門市店號",
+};
+
+/**
+ * Fee for a method given the item subtotal. Free once the subtotal reaches the method's threshold.
+ */
+export function calculateShippingFee(
+  method: Pick<ShippingMethod, "fee" | "freeShippingThreshold">,
+  subtotal: number,
+): number {
+  const threshold = method.freeShippingThreshold;
+  if (threshold !== null && threshold !== undefined && subtotal >= threshold) {
+    return 0;
+  }
+  return Number(method.fee) || 0;
+}
+
+/**
+ * Required delivery fields the customer left empty
+ */
+export function getMissingShippingFields(
+  method: Pick<ShippingMethod, "requiredAddressFields">,
+  details: ShippingDetails,
+): ShippingAddressField[] {
+  return (method.requiredAddressFields || []).filter(
+    (field) => !details[field]?.trim(),
+  );
+}
+
+/**
+ * Single-line destination stored as the order address, e.g. "7-11 南京門市 (店號 123456)"
+ */
+export function formatShippingDestination(
+  method: Pick<ShippingMethod, "name" | "requiredAddressFields">,
+  details: ShippingDetails,
+): string {
+  const fields = method.requiredAddressFields || [];
+  if (fields.includes("address")) {
+    return details.address?.trim() || "";
+  }
+
+  const storeName = details.storeName?.trim();
+  const storeCode = details.storeCode?.trim();
+  return [
+    method.name,
+    storeName,
+    storeCode ? `(店號 ${storeCode})` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
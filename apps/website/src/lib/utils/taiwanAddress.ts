@@ -0,0 +1,83 @@
+/**
+ * Taiwanese address and phone number rules, shared by the checkout form and the checkout API
+ */
+
+import { TAIWAN_POSTAL_CODES, type TaiwanDistrict } from "./taiwanPostalCodes";
+
+export interface TaiwanAddress {
+  city: string;
+  district: string;
+  postalCode: string;
+  street: string;
+}
+
+// Customers type 台 as often as the official 臺
+const normalizeName = (value: string) => value.trim().replace(/台/g, "臺");
+
+export function getTaiwanDistricts(city: string): TaiwanDistrict[] {
+  const name = normalizeName(city);
+  return TAIWAN_POSTAL_CODES.find((c) => c.name === name)?.districts || [];
+}
+
+export function getTaiwanPostalCode(
+  city: string,
+  district: string,
+): string | null {
+  const name = normalizeName(district);
+  return (
+    getTaiwanDistricts(city).find((d) => d.name === name)?.postalCode || null
+  );
+}
+
+/**
+ * Validate a city/district pair against the postal dataset and fill in the postal code.
+ * Returns null when the pair does not exist or the street is empty.
+ */
+export function parseTaiwanAddress(input: {
+  city?: string | null;
+  district?: string | null;
+  street?: string | null;
+}): TaiwanAddress | null {
+  const city = normalizeName(input.city || "");
+  const district = normalizeName(input.district || "");
+  const street = (input.street || "").trim();
+  const postalCode = getTaiwanPostalCode(city, district);
+
+  if (!postalCode || street.length < 2) return null;
+  return { city, district, postalCode, street };
+}
+
+export function formatTaiwanAddress(address: TaiwanAddress): string {
+  return `${address.postalCode} ${address.city}${address.district}${address.street}`;
+}
+
+/**
+ * Normalise a Taiwanese mobile (09xx) or landline number to its dashed local form,
+ * e.g. "+886 912 345 678" -> "0912-345-678", "(02)2345-6789" -> "02-2345-6789".
+ * Returns null when the number is not a valid Taiwanese phone number.
+ */
+export function normalizeTaiwanPhone(value: string): string | null {
+  let digits = value.replace(/[\s\-().]/g, "");
+  if (/^\+?886/.test(digits)) {
+    digits = `0${digits.replace(/^\+?886/, "").replace(/^0/, "")}`;
+  }
+  if (!/^\d+$/.test(digits)) return null;
+
+  if (/^09\d{8}$/.test(digits)) {
+    return `${digits.slice(0, 4)}-${digits.slice(4, 7)}-${digits.slice(7)}`;
+  }
+
+  // Landlines: area code plus a 5-8 digit subscriber number, 9-10 digits in all
+  if (!/^0[2-8]/.test(digits) || digits.length < 9 || digits.length > 10) {
+    return null;
+  }
+
+  const areaCode =
+    ["0836", "0826", "089", "082", "049", "037"].find((code) =>
+      digits.startsWith(code),
+    ) || digits.slice(0, 2);
+  const subscriber = digits.slice(areaCode.length);
+  return subscriber.length === 8
+    ? `${areaCode}-${subscriber.slice(0, 4)}-${subscriber.slice(4)}`
+    : `${areaCode}-${subscriber}`;
+}
@@ -0,0 +1,495 @@
+/**
+ * Taiwan counties/cities and their districts with 3-digit postal codes (Chunghwa Post).
+ * Bundled so checkout can fill in and verify postal codes without a network lookup.
+ */
+
+export interface TaiwanDistrict {
+  name: string;
+  postalCode: string;
+}
+
+export interface TaiwanCity {
+  name: string;
+  districts: TaiwanDistrict[];
+}
+
+export const TAIWAN_POSTAL_CODES: TaiwanCity[] = [
+  {
+    name: "臺北市",
+    districts: [
+      { name: "中正區", postalCode: "100" },
+      { name: "大同區", postalCode: "103" },
+      { name: "中山區", postalCode: "104" },
+      { name: "松山區", postalCode: "105" },
+      { name: "大安區", postalCode: "106" },
+      { name: "萬華區", postalCode: "108" },
+      { name: "信義區", postalCode: "110" },
+      { name: "士林區", postalCode: "111" },
+      { name: "北投區", postalCode: "112" },
+      { name: "內湖區", postalCode: "114" },
+      { name: "南港區", postalCode: "115" },
+      { name: "文山區", postalCode: "116" },
+    ],
+  },
+  {
+    name: "基隆市",
+    districts: [
+      { name: "仁愛區", postalCode: "200" },
+      { name: "信義區", postalCode: "201" },
+      { name: "中正區", postalCode: "202" },
+      { name: "中山區", postalCode: "203" },
+      { name: "安樂區", postalCode: "204" },
+      { name: "暖暖區", postalCode: "205" },
+      { name: "七堵區", postalCode: "206" },
+    ],
+  },
+  {
+    name: "新北市",
+    districts: [
+      { name: "萬里區", postalCode: "207" },
+      { name: "金山區", postalCode: "208" },
+      { name: "板橋區", postalCode: "220" },
+      { name: "汐止區", postalCode: "221" },
+      { name: "深坑區", postalCode: "222" },
+      { name: "石碇區", postalCode: "223" },
+      { name: "瑞芳區", postalCode: "224" },
+      { name: "平溪區", postalCode: "226" },
+      { name: "雙溪區", postalCode: "227" },
+      { name: "貢寮區", postalCode: "228" },
+      { name: "新店區", postalCode: "231" },
+      { name: "坪林區", postalCode: "232" },
+      { name: "烏來區", postalCode: "233" },
+      { name: "永和區", postalCode: "234" },
+      { name: "中和區", postalCode: "235" },
+      { name: "土城區", postalCode: "236" },
+      { name: "三峽區", postalCode: "237" },
+      { name: "樹林區", postalCode: "238" },
+      { name: "鶯歌區", postalCode: "239" },
+      { name: "三重區", postalCode: "241" },
+      { name: "新莊區", postalCode: "242" },
+      { name: "泰山區", postalCode: "243" },
+      { name: "林口區", postalCode: "244" },
+      { name: "蘆洲區", postalCode: "247" },
+      { name: "五股區", postalCode: "248" },
+      { name: "八里區", postalCode: "249" },
+      { name: "淡水區", postalCode: "251" },
+      { name: "三芝區", postalCode: "252" },
+      { name: "石門區", postalCode: "253" },
+    ],
+  },
+  {
+    name: "連江縣",
+    districts: [
+      { name: "南竿鄉", postalCode: "209" },
+      { name: "北竿鄉", postalCode: "210" },
+      { name: "莒光鄉", postalCode: "211" },
+      { name: "東引鄉", postalCode: "212" },
+    ],
+  },
+  {
+    name: "宜蘭縣",
+    districts: [
+      { name: "宜蘭市", postalCode: "260" },
+      { name: "頭城鎮", postalCode: "261" },
+      { name: "礁溪鄉", postalCode: "262" },
+      { name: "壯圍鄉", postalCode: "263" },
+      { name: "員山鄉", postalCode: "264" },
+      { name: "羅東鎮", postalCode: "265" },
+      { name: "三星鄉", postalCode: "266" },
+      { name: "大同鄉", postalCode: "267" },
+      { name: "五結鄉", postalCode: "268" },
+      { name: "冬山鄉", postalCode: "269" },
+      { name: "蘇澳鎮", postalCode: "270" },
+      { name: "南澳鄉", postalCode: "272" },
+    ],
+  },
+  {
+    name: "新竹市",
+    districts: [
+      { name: "東區", postalCode: "300" },
+      { name: "北區", postalCode: "300" },
+      { name: "香山區", postalCode: "300" },
+    ],
+  },
+  {
+    name: "新竹縣",
+    districts: [
+      { name: "竹北市", postalCode: "302" },
+      { name: "湖口鄉", postalCode: "303" },
+      { name: "新豐鄉", postalCode: "304" },
+      { name: "新埔鎮", postalCode: "305" },
+      { name: "關西鎮", postalCode: "306" },
+      { name: "芎林鄉", postalCode: "307" },
+      { name: "寶山鄉", postalCode: "308" },
+      { name: "竹東鎮", postalCode: "310" },
+      { name: "五峰鄉", postalCode: "311" },
+      { name: "橫山鄉", postalCode: "312" },
+      { name: "尖石鄉", postalCode: "313" },
+      { name: "北埔鄉", postalCode: "314" },
+      { name: "峨眉鄉", postalCode: "315" },
+    ],
+  },
+  {
+    name: "桃園市",
+    districts: [
+      { name: "中壢區", postalCode: "320" },
+      { name: "平鎮區", postalCode: "324" },
+      { name: "龍潭區", postalCode: "325" },
+      { name: "楊梅區", postalCode: "326" },
+      { name: "新屋區", postalCode: "327" },
+      { name: "觀音區", postalCode: "328" },
+      { name: "桃園區", postalCode: "330" },
+      { name: "龜山區", postalCode: "333" },
+      { name: "八德區", postalCode: "334" },
+      { name: "大溪區", postalCode: "335" },
+      { name: "復興區", postalCode: "336" },
+      { name: "大園區", postalCode: "337" },
+      { name: "蘆竹區", postalCode: "338" },
+    ],
+  },
+  {
+    name: "苗栗縣",
+    districts: [
+      { name: "竹南鎮", postalCode: "350" },
+      { name: "頭份市", postalCode: "351" },
+      { name: "三灣鄉", postalCode: "352" },
+      { name: "南庄鄉", postalCode: "353" },
+      { name: "獅潭鄉", postalCode: "354" },
+      { name: "後龍鎮", postalCode: "356" },
+      { name: "通霄鎮", postalCode: "357" },
+      { name: "苑裡鎮", postalCode: "358" },
+      { name: "苗栗市", postalCode: "360" },
+      { name: "造橋鄉", postalCode: "361" },
+      { name: "頭屋鄉", postalCode: "362" },
+      { name: "公館鄉", postalCode: "363" },
+      { name: "大湖鄉", postalCode: "364" },
+      { name: "泰安鄉", postalCode: "365" },
+      { name: "銅鑼鄉", postalCode: "366" },
+      { name: "三義鄉", postalCode: "367" },
+      { name: "西湖鄉", postalCode: "368" },
+      { name: "卓蘭鎮", postalCode: "369" },
+    ],
+  },
+  {
+    name: "臺中市",
+    districts: [
+      { name: "中區", postalCode: "400" },
+      { name: "東區", postalCode: "401" },
+      { name: "南區", postalCode: "402" },
+      { name: "西區", postalCode: "403" },
+      { name: "北區", postalCode: "404" },
+      { name: "北屯區", postalCode: "406" },
+      { name: "西屯區", postalCode: "407" },
+      { name: "南屯區", postalCode: "408" },
+      { name: "太平區", postalCode: "411" },
+      { name: "大里區", postalCode: "412" },
+      { name: "霧峰區", postalCode: "413" },
+      { name: "烏日區", postalCode: "414" },
+      { name: "豐原區", postalCode: "420" },
+      { name: "后里區", postalCode: "421" },
+      { name: "石岡區", postalCode: "422" },
+      { name: "東勢區", postalCode: "423" },
+      { name: "和平區", postalCode: "424" },
+      { name: "新社區", postalCode: "426" },
+      { name: "潭子區", postalCode: "427" },
+      { name: "大雅區", postalCode: "428" },
+      { name: "神岡區", postalCode: "429" },
+      { name: "大肚區", postalCode: "432" },
+      { name: "沙鹿區", postalCode: "433" },
+      { name: "龍井區", postalCode: "434" },
+      { name: "梧棲區", postalCode: "435" },
+      { name: "清水區", postalCode: "436" },
+      { name: "大甲區", postalCode: "437" },
+      { name: "外埔區", postalCode: "438" },
+      { name: "大安區", postalCode: "439" },
+    ],
+  },
+  {
+    name: "彰化縣",
+    districts: [
+      { name: "彰化市", postalCode: "500" },
+      { name: "芬園鄉", postalCode: "502" },
+      { name: "花壇鄉", postalCode: "503" },
+      { name: "秀水鄉", postalCode: "504" },
+      { name: "鹿港鎮", postalCode: "505" },
+      { name: "福興鄉", postalCode: "506" },
+      { name: "線西鄉", postalCode: "507" },
+      { name: "和美鎮", postalCode: "508" },
+      { name: "伸港鄉", postalCode: "509" },
+      { name: "員林市", postalCode: "510" },
+      { name: "社頭鄉", postalCode: "511" },
+      { name: "永靖鄉", postalCode: "512" },
+      { name: "埔心鄉", postalCode: "513" },
+      { name: "溪湖鎮", postalCode: "514" },
+      { name: "大村鄉", postalCode: "515" },
+      { name: "埔鹽鄉", postalCode: "516" },
+      { name: "田中鎮", postalCode: "520" },
+      { name: "北斗鎮", postalCode: "521" },
+      { name: "田尾鄉", postalCode: "522" },
+      { name: "埤頭鄉", postalCode: "523" },
+      { name: "溪州鄉", postalCode: "524" },
+      { name: "竹塘鄉", postalCode: "525" },
+      { name: "二林鎮", postalCode: "526" },
+      { name: "大城鄉", postalCode: "527" },
+      { name: "芳苑鄉", postalCode: "528" },
+      { name: "二水鄉", postalCode: "530" },
+    ],
+  },
+  {
+    name: "南投縣",
+    districts: [
+      { name: "南投市", postalCode: "540" },
+      { name: "中寮鄉", postalCode: "541" },
+      { name: "草屯鎮", postalCode: "542" },
+      { name: "國姓鄉", postalCode: "544" },
+      { name: "埔里鎮", postalCode: "545" },
+      { name: "仁愛鄉", postalCode: "546" },
+      { name: "名間鄉", postalCode: "551" },
+      { name: "集集鎮", postalCode: "552" },
+      { name: "水里鄉", postalCode: "553" },
+      { name: "魚池鄉", postalCode: "555" },
+      { name: "信義鄉", postalCode: "556" },
+      { name: "竹山鎮", postalCode: "557" },
+      { name: "鹿谷鄉", postalCode: "558" },
+    ],
+  },
+  {
+    name: "嘉義市",
+    districts: [
+      { name: "東區", postalCode: "600" },
+      { name: "西區", postalCode: "600" },
+    ],
+  },
+  {
+    name: "嘉義縣",
+    districts: [
+      { name: "番路鄉", postalCode: "602" },
+      { name: "梅山鄉", postalCode: "603" },
+      { name: "竹崎鄉", postalCode: "604" },
+      { name: "阿里山鄉", postalCode: "605" },
+      { name: "中埔鄉", postalCode: "606" },
+      { name: "大埔鄉", postalCode: "607" },
+      { name: "水上鄉", postalCode: "608" },
+      { name: "鹿草鄉", postalCode: "611" },
+      { name: "太保市", postalCode: "612" },
+      { name: "朴子市", postalCode: "613" },
+      { name: "東石鄉", postalCode: "614" },
+      { name: "六腳鄉", postalCode: "615" },
+      { name: "新港鄉", postalCode: "616" },
+      { name: "民雄鄉", postalCode: "621" },
+      { name: "大林鎮", postalCode: "622" },
+      { name: "溪口鄉", postalCode: "623" },
+      { name: "義竹鄉", postalCode: "624" },
+      { name: "布袋鎮", postalCode: "625" },
+    ],
+  },
+  {
+    name: "雲林縣",
+    districts: [
+      { name: "斗南鎮", postalCode: "630" },
+      { name: "大埤鄉", postalCode: "631" },
+      { name: "虎尾鎮", postalCode: "632" },
+      { name: "土庫鎮", postalCode: "633" },
+      { name: "褒忠鄉", postalCode: "634" },
+      { name: "東勢鄉", postalCode: "635" },
+      { name: "臺西鄉", postalCode: "636" },
+      { name: "崙背鄉", postalCode: "637" },
+      { name: "麥寮鄉", postalCode: "638" },
+      { name: "斗六市", postalCode: "640" },
+      { name: "林內鄉", postalCode: "643" },
+      { name: "古坑鄉", postalCode: "646" },
+      { name: "莿桐鄉", postalCode: "647" },
+      { name: "西螺鎮", postalCode: "648" },
+      { name: "二崙鄉", postalCode: "649" },
+      { name: "北港鎮", postalCode: "651" },
+      { name: "水林鄉", postalCode: "652" },
+      { name: "口湖鄉", postalCode: "653" },
+      { name: "四湖鄉", postalCode: "654" },
+      { name: "元長鄉", postalCode: "655" },
+    ],
+  },
+  {
+    name: "臺南市",
+    districts: [
+      { name: "中西區", postalCode: "700" },
+      { name: "東區", postalCode: "701" },
+      { name: "南區", postalCode: "702" },
+      { name: "北區", postalCode: "704" },
+      { name: "安平區", postalCode: "708" },
+      { name: "安南區", postalCode: "709" },
+      { name: "永康區", postalCode: "710" },
+      { name: "歸仁區", postalCode: "711" },
+      { name: "新化區", postalCode: "712" },
+      { name: "左鎮區", postalCode: "713" },
+      { name: "玉井區", postalCode: "714" },
+      { name: "楠西區", postalCode: "715" },
+      { name: "南化區", postalCode: "716" },
+      { name: "仁德區", postalCode: "717" },
+      { name: "關廟區", postalCode: "718" },
+      { name: "龍崎區", postalCode: "719" },
+      { name: "官田區", postalCode: "720" },
+      { name: "麻豆區", postalCode: "721" },
+      { name: "佳里區", postalCode: "722" },
+      { name: "西港區", postalCode: "723" },
+      { name: "七股區", postalCode: "724" },
+      { name: "將軍區", postalCode: "725" },
+      { name: "學甲區", postalCode: "726" },
+      { name: "北門區", postalCode: "727" },
+      { name: "新營區", postalCode: "730" },
+      { name: "後壁區", postalCode: "731" },
+      { name: "白河區", postalCode: "732" },
+      { name: "東山區", postalCode: "733" },
+      { name: "六甲區", postalCode: "734" },
+      { name: "下營區", postalCode: "735" },
+      { name: "柳營區", postalCode: "736" },
+      { name: "鹽水區", postalCode: "737" },
+      { name: "善化區", postalCode: "741" },
+      { name: "大內區", postalCode: "742" },
+      { name: "山上區", postalCode: "743" },
+      { name: "新市區", postalCode: "744" },
+      { name: "安定區", postalCode: "745" },
+    ],
+  },
+  {
+    name: "高雄市",
+    districts: [
+      { name: "新興區", postalCode: "800" },
+      { name: "前金區", postalCode: "801" },
+      { name: "苓雅區", postalCode: "802" },
+      { name: "鹽埕區", postalCode: "803" },
+      { name: "鼓山區", postalCode: "804" },
+      { name: "旗津區", postalCode: "805" },
+      { name: "前鎮區", postalCode: "806" },
+      { name: "三民區", postalCode: "807" },
+      { name: "楠梓區", postalCode: "811" },
+      { name: "小港區", postalCode: "812" },
+      { name: "左營區", postalCode: "813" },
+      { name: "仁武區", postalCode: "814" },
+      { name: "大社區", postalCode: "815" },
+      { name: "岡山區", postalCode: "820" },
+      { name: "路竹區", postalCode: "821" },
+      { name: "阿蓮區", postalCode: "822" },
+      { name: "田寮區", postalCode: "823" },
+      { name: "燕巢區", postalCode: "824" },
+      { name: "橋頭區", postalCode: "825" },
+      { name: "梓官區", postalCode: "826" },
+      { name: "彌陀區", postalCode: "827" },
+      { name: "永安區", postalCode: "828" },
+      { name: "湖內區", postalCode: "829" },
+      { name: "鳳山區", postalCode: "830" },
+      { name: "大寮區", postalCode: "831" },
+      { name: "林園區", postalCode: "832" },
+      { name: "鳥松區", postalCode: "833" },
+      { name: "大樹區", postalCode: "840" },
+      { name: "旗山區", postalCode: "842" },
+      { name: "美濃區", postalCode: "843" },
+      { name: "六龜區", postalCode: "844" },
+      { name: "內門區", postalCode: "845" },
+      { name: "杉林區", postalCode: "846" },
+      { name: "甲仙區", postalCode: "847" },
+      { name: "桃源區", postalCode: "848" },
+      { name: "那瑪夏區", postalCode: "849" },
+      { name: "茂林區", postalCode: "851" },
+      { name: "茄萣區", postalCode: "852" },
+    ],
+  },
+  {
+    name: "澎湖縣",
+    districts: [
+      { name: "馬公市", postalCode: "880" },
+      { name: "西嶼鄉", postalCode: "881" },
+      { name: "望安鄉", postalCode: "882" },
+      { name: "七美鄉", postalCode: "883" },
+      { name: "白沙鄉", postalCode: "884" },
+      { name: "湖西鄉", postalCode: "885" },
+    ],
+  },
+  {
+    name: "金門縣",
+    districts: [
+      { name: "金沙鎮", postalCode: "890" },
+      { name: "金湖鎮", postalCode: "891" },
+      { name: "金寧鄉", postalCode: "892" },
+      { name: "金城鎮", postalCode: "893" },
+      { name: "烈嶼鄉", postalCode: "894" },
+      { name: "烏坵鄉", postalCode: "896" },
+    ],
+  },
+  {
+    name: "屏東縣",
+    districts: [
+      { name: "屏東市", postalCode: "900" },
+      { name: "三地門鄉", postalCode: "901" },
+      { name: "霧臺鄉", postalCode: "902" },
+      { name: "瑪家鄉", postalCode: "903" },
+      { name: "九如鄉", postalCode: "904" },
+      { name: "里港鄉", postalCode: "905" },
+      { name: "高樹鄉", postalCode: "906" },
+      { name: "鹽埔鄉", postalCode: "907" },
+      { name: "長治鄉", postalCode: "908" },
+      { name: "麟洛鄉", postalCode: "909" },
+      { name: "竹田鄉", postalCode: "911" },
+      { name: "內埔鄉", postalCode: "912" },
+      { name: "萬丹鄉", postalCode: "913" },
+      { name: "潮州鎮", postalCode: "920" },
+      { name: "泰武鄉", postalCode: "921" },
+      { name: "來義鄉", postalCode: "922" },
+      { name: "萬巒鄉", postalCode: "923" },
+      { name: "崁頂鄉", postalCode: "924" },
+      { name: "新埤鄉", postalCode: "925" },
+      { name: "南州鄉", postalCode: "926" },
+      { name: "林邊鄉", postalCode: "927" },
+      { name: "東港鎮", postalCode: "928" },
+      { name: "琉球鄉", postalCode: "929" },
+      { name: "佳冬鄉", postalCode: "931" },
+      { name: "新園鄉", postalCode: "932" },
+      { name: "枋寮鄉", postalCode: "940" },
+      { name: "枋山鄉", postalCode: "941" },
+      { name: "春日鄉", postalCode: "942" },
+      { name: "獅子鄉", postalCode: "943" },
+      { name: "車城鄉", postalCode: "944" },
+      { name: "牡丹鄉", postalCode: "945" },
+      { name: "恆春鎮", postalCode: "946" },
+      { name: "滿州鄉", postalCode: "947" },
+    ],
+  },
+  {
+    name: "臺東縣",
+    districts: [
+      { name: "臺東市", postalCode: "950" },
+      { name: "綠島鄉", postalCode: "951" },
+      { name: "蘭嶼鄉", postalCode: "952" },
+      { name: "延平鄉", postalCode: "953" },
+      { name: "卑南鄉", postalCode: "954" },
+      { name: "鹿野鄉", postalCode: "955" },
+      { name: "關山鎮", postalCode: "956" },
+      { name: "海端鄉", postalCode: "957" },
+      { name: "池上鄉", postalCode: "958" },
+      { name: "東河鄉", postalCode: "959" },
+      { name: "成功鎮", postalCode: "961" },
+      { name: "長濱鄉", postalCode: "962" },
+      { name: "太麻里鄉", postalCode: "963" },
+      { name: "金峰鄉", postalCode: "964" },
+      { name: "大武鄉", postalCode: "965" },
+      { name: "達仁鄉", postalCode: "966" },
+    ],
+  },
+  {
+    name: "花蓮縣",
+    districts: [
+      { name: "花蓮市", postalCode: "970" },
+      { name: "新城鄉", postalCode: "971" },
+      { name: "秀林鄉", postalCode: "972" },
+      { name: "吉安鄉", postalCode: "973" },
+      { name: "壽豐鄉", postalCode: "974" },
+      { name: "鳳林鎮", postalCode: "975" },
+      { name: "光復鄉", postalCode: "976" },
+      { name: "豐濱鄉", postalCode: "977" },
+      { name: "瑞穗鄉", postalCode: "978" },
+      { name: "萬榮鄉", postalCode: "979" },
+      { name: "玉里鎮", postalCode: "981" },
+      { name: "卓溪鄉", postalCode: "982" },
+      { name: "富里鄉", postalCode: "983" },
+    ],
+  },
+];
@@ -0,0 +1,27 @@
+import { timingSafeEqual } from "node:crypto";
+import {
+  ORDER_WEBHOOK_SIGNATURE_HEADER,
+  ORDER_WEBHOOK_TIMESTAMP_HEADER,
+  signOrderWebhook,
+} from "payload_app";
+
+// Enough for clock drift between the apps; a captured delivery replayed later is refused
+const MAX_WEBHOOK_AGE_SECONDS = 5 * 60;
+
+/**
+ * Check a webhook body from the admin app against its signature and timestamp headers
+ */
+export function isValidWebhookRequest(request: Request, body: string): boolean {
+  const signature = request.headers.get(ORDER_WEBHOOK_SIGNATURE_HEADER);
+  const timestamp = request.headers.get(ORDER_WEBHOOK_TIMESTAMP_HEADER);
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_WEBHOOK_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = signOrderWebhook(body, timestamp);
+  if (!expected || signature.length !== expected.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
@@ -0,0 +1,54 @@
+import type { APIRoute } from "astro";
+import { payload } from "@/lib/payload";
+import { subscribeToBackInStock } from "@/lib/backInStock";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Sign up for an email when a sold-out variant is restocked.
+ * Body: `{ mappingId, email }`. Answers `{ status }`, where `in_stock` means
+ * the variant can be bought already.
+ */
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+  const body = await request.json().catch(() => null);
+  const mappingId =
+    typeof body?.mappingId === "string" || typeof body?.mappingId === "number"
+      ? String(body.mappingId)
+      : "";
+  const email = typeof body?.email === "string" ? body.email.trim() : "";
+  if (!mappingId) {
+    return json({ error: "Invalid variant" }, 400);
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return json({ error: "Invalid email address" }, 400);
+  }
+
+  const limit = await limitRequest("back-in-stock", {
+    request,
+    clientAddress,
+    identities: [email],
+  });
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  try {
+    const status = await subscribeToBackInStock(await payload(), {
+      mappingId,
+      email,
+    });
+    if (status === "not_found") {
+      return json({ error: "Variant not found" }, 404);
+    }
+    return json({ status });
+  } catch (error) {
+    console.error("[BackInStock] Could not save subscription:", error);
+    return json({ error: "Could not save subscription" }, 500);
+  }
+};
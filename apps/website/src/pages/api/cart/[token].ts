@@ -0,0 +1,78 @@
+import type { APIRoute } from "astro";
+import { payload } from "@/lib/payload";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+import {
+  findCartByToken,
+  loadServerCart,
+  updateCustomerCart,
+} from "@/lib/serverCarts";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+
+const notFound = () => json({ error: "Cart not found" }, 404);
+
+/**
+ * The cart's items at today's prices and stock
+ */
+export const GET: APIRoute = async ({ params, request, clientAddress }) => {
+  const limit = await limitRequest("cart", { request, clientAddress });
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const payloadClient = await payload();
+  const cart = await findCartByToken(payloadClient, params.token || "");
+  if (!cart) return notFound();
+
+  const { items, changes } = await loadServerCart(payloadClient, cart);
+  return json({ kind: cart.kind, items, changes, updatedAt: cart.updatedAt });
+};
+
+/**
+ * Replace a synced cart's items. Shared carts built by staff cannot be changed.
+ */
+export const PUT: APIRoute = async ({ params, request, clientAddress }) => {
+  const limit = await limitRequest("cart", { request, clientAddress });
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.items)) {
+    return json({ error: "Invalid cart" }, 400);
+  }
+
+  const payloadClient = await payload();
+  const cart = await findCartByToken(payloadClient, params.token || "");
+  if (!cart) return notFound();
+  if (cart.kind !== "customer") {
+    return json({ error: "This cart cannot be changed" }, 403);
+  }
+
+  const updated = await updateCustomerCart(payloadClient, cart, body.items);
+  return json({ updatedAt: updated.updatedAt });
+};
+
+/**
+ * Turn cart sync off and forget the synced cart
+ */
+export const DELETE: APIRoute = async ({ params, request, clientAddress }) => {
+  const limit = await limitRequest("cart", { request, clientAddress });
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const payloadClient = await payload();
+  const cart = await findCartByToken(payloadClient, params.token || "");
+  if (!cart) return notFound();
+  if (cart.kind !== "customer") {
+    return json({ error: "This cart cannot be changed" }, 403);
+  }
+
+  await payloadClient.delete({ collection: "carts", id: cart.id });
+  return json({ deleted: true });
+};
@@ -0,0 +1,33 @@
+import type { APIRoute } from "astro";
+import { payload } from "@/lib/payload";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+import { createCustomerCart } from "@/lib/serverCarts";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Turn on cart sync: store the browser's cart and answer with its token
+ */
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+  const limit = await limitRequest("cart", { request, clientAddress });
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!Array.isArray(body?.items)) {
+    return json({ error: "Invalid cart" }, 400);
+  }
+
+  try {
+    const cart = await createCustomerCart(await payload(), body.items);
+    return json({ token: cart.token, updatedAt: cart.updatedAt }, 201);
+  } catch (error) {
+    console.error("[Carts] Could not create cart:", error);
+    return json({ error: "Could not save cart" }, 500);
+  }
+};
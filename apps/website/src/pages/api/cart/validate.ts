@@ -0,0 +1,47 @@
+import type { APIRoute } from "astro";
+import type { CartItem } from "@/cartStore";
+import { payload } from "@/lib/payload";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+import { checkCartItems } from "@/lib/cartRevalidation";
+
+// Same ceiling as a stored cart
+const MAX_CART_LINES = 100;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+
+const isCartItem = (item: unknown): item is CartItem =>
+  Boolean(item) &&
+  typeof item === "object" &&
+  (typeof (item as CartItem).id === "string" ||
+    typeof (item as CartItem).id === "number") &&
+  typeof (item as CartItem).price === "number" &&
+  typeof (item as CartItem).quantity === "number";
+
+/**
+ * Check the whole cart against the catalogue. Answers with one verdict per
+ * line, in the order sent, and `ok` when nothing has to change.
+ */
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+  const limit = await limitRequest("cart-validate", { request, clientAddress });
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const body = await request.json().catch(() => null);
+  const items: unknown[] | null = Array.isArray(body?.items) ? body.items : null;
+  if (!items || items.length > MAX_CART_LINES || !items.every(isCartItem)) {
+    return json({ error: "Invalid cart" }, 400);
+  }
+
+  try {
+    const lines = await checkCartItems(await payload(), items);
+    return json({ ok: lines.every((line) => line.ok), lines });
+  } catch (error) {
+    console.error("[Carts] Could not validate cart:", error);
+    return json({ error: "Could not validate cart" }, 500);
+  }
+};
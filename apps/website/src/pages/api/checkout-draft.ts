@@ -0,0 +1,61 @@
+import type { APIRoute } from "astro";
+import { payload } from "@/lib/payload";
+import { deleteCheckoutDraft, saveCheckoutDraft } from "@/lib/abandonedCheckouts";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+import { pickCheckoutDraftForm } from "@/lib/utils/checkoutDraft";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" ? value : null;
+
+/**
+ * Save the checkout form of a customer who asked for a reminder, or delete it
+ * when they untick the box (`consent: false`). Answers with the draft's id and
+ * token for the browser to send with the next save.
+ */
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+  const limit = await limitRequest("checkout-draft", { request, clientAddress });
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return json({ error: "Invalid draft" }, 400);
+  }
+  const id = optionalString(body.id);
+  const token = optionalString(body.token);
+
+  try {
+    const payloadClient = await payload();
+
+    if (body.consent !== true) {
+      await deleteCheckoutDraft(payloadClient, id, token);
+      return json({ saved: false });
+    }
+
+    const email = optionalString(body.email)?.trim() || "";
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return json({ error: "Invalid email address" }, 400);
+    }
+
+    const draft = await saveCheckoutDraft(payloadClient, {
+      id,
+      token,
+      email,
+      name: optionalString(body.name),
+      phone: optionalString(body.phone),
+      items: body.items,
+      form: pickCheckoutDraftForm(body.form),
+    });
+    return draft ? json({ saved: true, ...draft }) : json({ saved: false });
+  } catch (error) {
+    console.error("[AbandonedCheckouts] Could not save checkout draft:", error);
+    return json({ error: "Could not save draft" }, 500);
+  }
+};
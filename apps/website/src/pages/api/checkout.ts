@@ -1,9 +1,53 @@
 import type { APIRoute } from "astro";
 import { payload } from "@/lib/payload";
-import type { Product } from "payload_app";
+import {
+  CouponCustomerLimitError,
+  CouponUsageLimitError,
+  getSellableQuantity,
+  InsufficientStockError,
+  type Coupon,
+  type Order,
+  type Product,
+} from "payload_app";
 import { sendOrderConfirmationEmail } from "@/lib/email";
 import { compareVariantIds, normalizeVariantId } from "@/lib/utils/variantId";
 import { getVariantPrice, getProductPrice } from "@/lib/utils/pricing";
+import {
+  calculateShippingFee,
+  formatShippingDestination,
+  getMissingShippingFields,
+  SHIPPING_ADDRESS_FIELD_LABELS,
+  type ShippingDetails,
+} from "@/lib/utils/shipping";
+import { getShippingMethod } from "@/lib/payload/shipping";
+import {
+  formatTaiwanAddress,
+  normalizeTaiwanPhone,
+  parseTaiwanAddress,
+  type TaiwanAddress,
+} from "@/lib/utils/taiwanAddress";
+import { parseInvoiceDetails } from "@/lib/utils/eInvoice";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+import { getProductLineStock } from "@/lib/cartRevalidation";
+import {
+  closeCheckoutDrafts,
+  findCheckoutDraft,
+  isRecoveredCheckout,
+} from "@/lib/abandonedCheckouts";
+import {
+  BOT_CHECK_FAILED_MESSAGE,
+  checkFormSubmission,
+  recordRejectedSubmission,
+} from "@/lib/botProtection";
+import { CouponError, evaluateCoupon } from "@/lib/coupons";
+import { getPaymentPagePath, getPaymentProvider } from "@/lib/payments";
+import {
+  findOrderByIdempotencyKey,
+  getIdempotencyKey,
+  getIdempotencyKeyTtlMs,
+  IDEMPOTENCY_HEADER,
+  isIdempotencyKeyConflict,
+} from "@/lib/idempotency";
 
 interface CartItem {
   id: number | string;
@@ -17,6 +61,9 @@ interface CartItem {
   };
 }
 
+const isValidQuantity = (quantity: unknown): quantity is number =>
+  typeof quantity === "number" && Number.isInteger(quantity) && quantity > 0;
+
 // Helper function to normalize IDs (handles Buffer/ObjectId, string, number, or object with id)
 function normalizeId(id: any): string | number {
   // Handle Buffer (MongoDB ObjectId binary format)
@@ -60,7 +107,14 @@ interface CheckoutFormData {
   name: string;
   email: string;
   phone: string;
-  address: string;
+  city?: string;
+  district?: string;
+  street?: string;
+  shippingMethod: string;
+  paymentMethod: string;
+  storeName?: string;
+  storeCode?: string;
+  couponCode?: string;
   note?: string;
   cartItems: CartItem[];
 }
@@ -193,22 +247,18 @@ async function validateAndGetProducts(items: CartItem[]) {
         stockIssues.push(
           `${product.title} - ${item.variant.name}: variant no longer available`,
         );
-      } else if (
-        variantMapping.quantity <= 0 ||
-        variantMapping.quantity < item.quantity
-      ) {
+      } else if (getSellableQuantity(variantMapping) < item.quantity) {
+        // Includes what is left of a backorder or preorder limit
         stockIssues.push(
-          `${product.title} - ${item.variant.name}: requested ${item.quantity}, available ${variantMapping.quantity}`,
+          `${product.title} - ${item.variant.name}: requested ${item.quantity}, available ${getSellableQuantity(variantMapping)}`,
         );
       }
     } else {
-      // Check product total stock for items without variants
-      if (
-        (product.totalStock || 0) <= 0 ||
-        (product.totalStock || 0) < item.quantity
-      ) {
+      // Lines without a variant sell from the default mapping, under its policy
+      const available = getProductLineStock(product);
+      if (available <= 0 || available < item.quantity) {
         stockIssues.push(
-          `${product.title}: requested ${item.quantity}, available ${product.totalStock || 0}`,
+          `${product.title}: requested ${item.quantity}, available ${available}`,
         );
       }
     }
@@ -223,87 +273,21 @@ async function validateAndGetProducts(items: CartItem[]) {
   return products;
 }
 
-async function deductStockFromOrder(cartItems: CartItem[], products: any[]) {
-  const payloadClient = await payload();
-
-  for (const item of cartItems) {
-    const normalizedItemId = normalizeId(item.id);
-    const product = products.find((p) => compareIds(p.id, normalizedItemId));
-    if (!product) continue;
-
-    if (item.variant) {
-      // Find the variant mapping for this product and variant
-      const variantMapping = product.variantMappings?.find((mapping: any) => {
-        const mappingVariantId = mapping.variant?.id;
-        const itemVariantId = item.variant?.id;
-        // Use consistent comparison utility (same as validation)
-        return compareVariantIds(mappingVariantId, itemVariantId);
-      });
-
-      if (variantMapping && typeof variantMapping !== "number") {
-        // Deduct stock from variant mapping
-        const newQuantity = Math.max(
-          0,
-          variantMapping.quantity - item.quantity,
-        );
-
-        await payloadClient.update({
-          collection: "product-variant-mappings",
-          id: variantMapping.id,
-          data: { quantity: newQuantity },
-        });
-      }
-    } else {
-      // Product without variant selected - deduct from default variant mapping if available
-      const defaultMapping = product.variantMappings?.find(
-        (mapping: any) => mapping.isDefault,
-      );
-
-      if (defaultMapping && typeof defaultMapping !== "number") {
-        const newQuantity = Math.max(
-          0,
-          defaultMapping.quantity - item.quantity,
-        );
-
-        await payloadClient.update({
-          collection: "product-variant-mappings",
-          id: defaultMapping.id,
-          data: { quantity: newQuantity },
-        });
-      }
-    }
-  }
-}
-
-async function restoreStockFromOrder(cartItems: CartItem[], products: any[]) {
-  const payloadClient = await payload();
-
-  for (const item of cartItems) {
-    const normalizedItemId = normalizeId(item.id);
-    const product = products.find((p) => compareIds(p.id, normalizedItemId));
-    if (!product) continue;
-
-    if (item.variant) {
-      // Find the variant mapping for this product and variant
-      const variantMapping = product.variantMappings?.find((mapping: any) => {
-        const mappingVariantId = mapping.variant?.id;
-        const itemVariantId = item.variant?.id;
-        // Use consistent comparison utility
-        return compareVariantIds(mappingVariantId, itemVariantId);
-      });
-
-      if (variantMapping && typeof variantMapping !== "number") {
-        // Restore stock to variant mapping
-        const newQuantity = variantMapping.quantity + item.quantity;
-
-        await payloadClient.update({
-          collection: "product-variant-mappings",
-          id: variantMapping.id,
-          data: { quantity: newQuantity },
-        });
-      }
-    }
+// Redirect to the payment page if the order still needs paying, otherwise to the success page.
+// Replays of an earlier submission get the same response.
+function checkoutSuccessResponse(order: Order, replayed = false): Response {
+  const headers: Record<string, string> = {
+    Location:
+      order.status === "awaiting_payment"
+        ? getPaymentPagePath(order)
+        : order.orderNumber
+          ? `/checkout/success?order=${encodeURIComponent(order.orderNumber)}`
+          : "/checkout/success",
+  };
+  if (replayed) {
+    headers["Idempotent-Replayed"] = "true";
   }
+  return new Response(null, { status: 302, headers });
 }
 
 export const GET: APIRoute = async () => {
@@ -324,19 +308,65 @@ export const GET: APIRoute = async () => {
   );
 };
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, clientAddress }) => {
   try {
     const formData = await request.formData();
 
     // Basic form validation
     const name = formData.get("name") as string;
     const email = formData.get("email") as string;
-    const phone = formData.get("phone") as string;
-    const address = formData.get("address") as string;
+    const rawPhone = formData.get("phone") as string;
+    const shippingDetails: ShippingDetails = {
+      storeName: (formData.get("storeName") as string) || undefined,
+      storeCode: (formData.get("storeCode") as string) || undefined,
+    };
+    const shippingMethodId = formData.get("shippingMethod") as string;
+    const paymentMethod = (formData.get("paymentMethod") as string) || "cod";
+    const couponCode = ((formData.get("couponCode") as string) || "").trim();
     const note = formData.get("note") as string;
     const cartItemsString = formData.get("cartItems") as string;
 
-    if (!name || !email || !phone || !address || !cartItemsString) {
+    // Counted before validation so malformed submissions use up the budget too
+    const limit = await limitRequest("checkout", {
+      request,
+      clientAddress,
+      identities: [email, rawPhone && (normalizeTaiwanPhone(rawPhone) || rawPhone)],
+    });
+    if (!limit.allowed) {
+      return tooManyRequests(limit, {
+        error: "下單次數過多，請稍後再試",
+      });
+    }
+
+    const payloadClient = await payload();
+
+    // A retried submission gets the order its key already created. Checked before
+    // the bot check, which would refuse the retry's form token as already used
+    const idempotencyKey = getIdempotencyKey(request);
+    if (idempotencyKey) {
+      const existingOrder = await findOrderByIdempotencyKey(
+        payloadClient,
+        idempotencyKey,
+      );
+      if (existingOrder) {
+        return checkoutSuccessResponse(existingOrder, true);
+      }
+    }
+
+    const botCheck = await checkFormSubmission("checkout", formData);
+    if (!botCheck.ok) {
+      await recordRejectedSubmission("checkout", botCheck.reason, {
+        request,
+        clientAddress,
+        formData,
+      });
+      return new Response(JSON.stringify({ error: BOT_CHECK_FAILED_MESSAGE }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (!name || !email || !rawPhone || !shippingMethodId || !cartItemsString) {
       return new Response(
         JSON.stringify({ error: "Missing required fields" }),
         { status: 400, headers: { "Content-Type": "application/json" } },
@@ -350,12 +380,24 @@ export const POST: APIRoute = async ({ request }) => {
       });
     }
 
+    const phone = normalizeTaiwanPhone(rawPhone);
+    if (!phone) {
+      return new Response(
+        JSON.stringify({ error: "請輸入正確的手機 (09xx-xxx-xxx) 或市話號碼" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
     let cartItems;
     try {
       cartItems = JSON.parse(cartItemsString);
       if (!Array.isArray(cartItems) || cartItems.length === 0) {
         throw new Error("Invalid cart data");
       }
+      // A negative or fractional line would lower the total without taking stock
+      if (!cartItems.every((item) => isValidQuantity(item?.quantity))) {
+        throw new Error("Invalid cart data");
+      }
     } catch {
       return new Response(JSON.stringify({ error: "Invalid cart data" }), {
         status: 400,
@@ -363,24 +405,77 @@ export const POST: APIRoute = async ({ request }) => {
       });
     }
 
-    const payloadClient = await payload();
+    const shippingMethod = await getShippingMethod(shippingMethodId);
+    if (!shippingMethod) {
+      return new Response(
+        JSON.stringify({ error: "請選擇有效的配送方式" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
 
-    // Fetch and validate products
-    const products = await validateAndGetProducts(cartItems);
+    const paymentProvider = getPaymentProvider(paymentMethod);
+    if (!paymentProvider || !paymentProvider.isAvailable()) {
+      return new Response(
+        JSON.stringify({ error: "請選擇有效的付款方式" }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+    if (paymentProvider.method === "cod" && !shippingMethod.supportsCod) {
+      return new Response(
+        JSON.stringify({ error: `${shippingMethod.name} 不支援貨到付款` }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
 
-    // Deduct stock from variant mappings before creating order
-    try {
-      await deductStockFromOrder(cartItems, products);
-    } catch (stockError) {
+    // Home delivery needs a real city/district pair; the postal code comes from our dataset
+    let deliveryAddress: TaiwanAddress | null = null;
+    if (shippingMethod.requiredAddressFields.includes("address")) {
+      deliveryAddress = parseTaiwanAddress({
+        city: formData.get("city") as string,
+        district: formData.get("district") as string,
+        street: formData.get("street") as string,
+      });
+      if (!deliveryAddress) {
+        return new Response(
+          JSON.stringify({ error: "請選擇縣市及鄉鎮市區, 並填寫完整的街道地址" }),
+          { status: 400, headers: { "Content-Type": "application/json" } },
+        );
+      }
+      shippingDetails.address = formatTaiwanAddress(deliveryAddress);
+    }
+
+    const missingShippingFields = getMissingShippingFields(
+      shippingMethod,
+      shippingDetails,
+    );
+    if (missingShippingFields.length > 0) {
       return new Response(
-        JSON.stringify({ error: "Failed to process stock deduction" }),
-        {
-          status: 500,
-          headers: { "Content-Type": "application/json" },
-        },
+        JSON.stringify({
+          error: `請填寫: ${missingShippingFields
+            .map((field) => SHIPPING_ADDRESS_FIELD_LABELS[field])
+            .join(", ")}`,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
       );
     }
 
+    const { invoice, error: invoiceError } = parseInvoiceDetails({
+      type: formData.get("invoiceType") as string,
+      carrierCode: formData.get("invoiceCarrierCode") as string,
+      donationCode: formData.get("invoiceDonationCode") as string,
+      taxId: formData.get("invoiceTaxId") as string,
+      companyName: formData.get("invoiceCompanyName") as string,
+    });
+    if (!invoice) {
+      return new Response(JSON.stringify({ error: invoiceError }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Fetch and validate products
+    const products = await validateAndGetProducts(cartItems);
+
     // Create formatted cart items with actual prices from database
     const formattedCartItems = cartItems.map((item) => {
       const normalizedItemId = normalizeId(item.id);
@@ -406,7 +501,7 @@ export const POST: APIRoute = async ({ request }) => {
             typeof variantMapping.variant === "object"
               ? variantMapping.variant
               : null;
-          priceAtPurchase = getVariantPrice(variantMapping, variant);
+          priceAtPurchase = getVariantPrice(variantMapping, variant, item.quantity);
 
           // Only include variant info if we have valid data
           if (variant?.id && variant?.name) {
@@ -438,28 +533,136 @@ export const POST: APIRoute = async ({ request }) => {
       return cartItem;
     });
 
-    // Calculate total for verification
-    const orderTotal = formattedCartItems.reduce(
+    // Totals come from database prices and the stored shipping method, never from the client
+    const subtotal = formattedCartItems.reduce(
       (sum, item) => sum + item.priceAtPurchase * item.quantity,
       0,
     );
 
-    // Create order in PayloadCMS
-    const orderResponse = await payloadClient.create({
-      collection: "orders",
-      data: {
-        name,
-        email,
-        phone,
-        address,
-        note,
-        cartItems: formattedCartItems as any,
-        totalAmount: orderTotal,
-        status: "pending",
-        orderDate: new Date().toISOString(),
-      },
-      depth: 2,
-    });
+    let discount: { couponId: Coupon["id"]; code: string; amount: number } | null =
+      null;
+    if (couponCode) {
+      try {
+        const { coupon, discount: amount } = await evaluateCoupon(
+          payloadClient,
+          couponCode,
+          {
+            lines: formattedCartItems.map((item) => ({
+              product: products.find((p) => compareIds(p.id, item.product)),
+              lineTotal: item.priceAtPurchase * item.quantity,
+            })),
+            email,
+          },
+        );
+        discount = { couponId: coupon.id, code: coupon.code, amount };
+      } catch (couponError) {
+        if (couponError instanceof CouponError) {
+          return new Response(JSON.stringify({ error: couponError.message }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+        throw couponError;
+      }
+    }
+
+    // Free shipping thresholds apply to what the customer pays for the items
+    const discountedSubtotal = subtotal - (discount?.amount || 0);
+    const shippingFee = calculateShippingFee(shippingMethod, discountedSubtotal);
+
+    // The reminder draft this checkout continues, if the customer kept one
+    const checkoutDraft = await findCheckoutDraft(
+      payloadClient,
+      formData.get("checkoutDraftId") as string,
+      formData.get("checkoutDraftToken") as string,
+    );
+
+    // Create order in PayloadCMS. The Orders collection reserves stock for every
+    // line in the same transaction and rejects the whole order if any line is short.
+    let orderResponse;
+    try {
+      orderResponse = await payloadClient.create({
+        collection: "orders",
+        data: {
+          name,
+          email,
+          phone,
+          address: formatShippingDestination(shippingMethod, shippingDetails),
+          deliveryAddress: deliveryAddress ?? undefined,
+          shipping: {
+            method: shippingMethod.id,
+            methodName: shippingMethod.name,
+            storeName: shippingDetails.storeName?.trim() || null,
+            storeCode: shippingDetails.storeCode?.trim() || null,
+            fee: shippingFee,
+          },
+          note,
+          cartItems: formattedCartItems as any,
+          subtotal,
+          discount: discount
+            ? {
+                coupon: discount.couponId,
+                code: discount.code,
+                amount: discount.amount,
+              }
+            : undefined,
+          totalAmount: discountedSubtotal + shippingFee,
+          status: paymentProvider.initialStatus,
+          payment: { method: paymentProvider.method },
+          invoice,
+          orderDate: new Date().toISOString(),
+          // Left out rather than null without a key: the field is unique
+          idempotencyKey: idempotencyKey ?? undefined,
+          idempotencyKeyExpiresAt: idempotencyKey
+            ? new Date(Date.now() + getIdempotencyKeyTtlMs()).toISOString()
+            : undefined,
+          recoveredFrom: isRecoveredCheckout(checkoutDraft)
+            ? checkoutDraft.id
+            : undefined,
+        },
+        depth: 2,
+      });
+    } catch (orderError) {
+      // A concurrent request with the same key won the race
+      if (idempotencyKey && isIdempotencyKeyConflict(orderError)) {
+        const existingOrder = await findOrderByIdempotencyKey(
+          payloadClient,
+          idempotencyKey,
+        );
+        if (existingOrder) {
+          return checkoutSuccessResponse(existingOrder, true);
+        }
+        return new Response(
+          JSON.stringify({
+            error: `This order is already being processed (${IDEMPOTENCY_HEADER}: ${idempotencyKey})`,
+          }),
+          { status: 409, headers: { "Content-Type": "application/json" } },
+        );
+      }
+      // Another order took the coupon's last use after we checked it
+      if (orderError instanceof CouponUsageLimitError) {
+        return new Response(
+          JSON.stringify({ error: "此優惠碼已達使用上限" }),
+          { status: 409, headers: { "Content-Type": "application/json" } },
+        );
+      }
+      // The customer's own earlier order with this coupon was placed meanwhile
+      if (orderError instanceof CouponCustomerLimitError) {
+        return new Response(
+          JSON.stringify({ error: "您已達此優惠碼的使用次數上限" }),
+          { status: 409, headers: { "Content-Type": "application/json" } },
+        );
+      }
+      if (orderError instanceof InsufficientStockError) {
+        return new Response(JSON.stringify({ error: orderError.message }), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      throw orderError;
+    }
+
+    await closeCheckoutDrafts(payloadClient, orderResponse, checkoutDraft);
 
     // Send order confirmation emails
     try {
@@ -469,13 +672,7 @@ export const POST: APIRoute = async ({ request }) => {
       // Continue with checkout even if email fails
     }
 
-    // Redirect to success page
-    return new Response(null, {
-      status: 302,
-      headers: {
-        Location: "/checkout/success",
-      },
-    });
+    return checkoutSuccessResponse(orderResponse);
   } catch (error) {
     console.error("[Checkout] Error processing checkout:", error);
     
@@ -1,7 +1,13 @@
 import type { APIRoute } from "astro";
 import { sendContactFormEmail } from "@/lib/email";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+import {
+  BOT_CHECK_FAILED_MESSAGE,
+  checkFormSubmission,
+  recordRejectedSubmission,
+} from "@/lib/botProtection";
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, clientAddress }) => {
   try {
     const formData = await request.formData();
 
@@ -24,6 +30,31 @@ export const POST: APIRoute = async ({ request }) => {
       );
     }
 
+    const limit = await limitRequest("contact", {
+      request,
+      clientAddress,
+      identities: [email],
+    });
+    if (!limit.allowed) {
+      return tooManyRequests(limit, {
+        success: false,
+        message: "送出次數過多，請稍後再試。",
+      });
+    }
+
+    const botCheck = await checkFormSubmission("contact", formData);
+    if (!botCheck.ok) {
+      await recordRejectedSubmission("contact", botCheck.reason, {
+        request,
+        clientAddress,
+        formData,
+      });
+      return new Response(
+        JSON.stringify({ success: false, message: BOT_CHECK_FAILED_MESSAGE }),
+        { status: 400, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
     await sendContactFormEmail({
       name,
       email,
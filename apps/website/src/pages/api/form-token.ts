@@ -0,0 +1,38 @@
+import type { APIRoute } from "astro";
+import {
+  BOT_CHECK_FAILED_MESSAGE,
+  renewFormChallenge,
+  type ProtectedForm,
+} from "@/lib/botProtection";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+  });
+
+const PROTECTED_FORMS: ProtectedForm[] = ["checkout", "contact"];
+
+/**
+ * Renew a form's bot check token before posting it again.
+ * Body: `{ form, token }`. Answers `{ token, difficulty }`.
+ */
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+  const limit = await limitRequest("form-token", { request, clientAddress });
+  if (!limit.allowed) {
+    return tooManyRequests(limit);
+  }
+
+  const body = await request.json().catch(() => null);
+  const form = PROTECTED_FORMS.find((candidate) => candidate === body?.form);
+  const challenge =
+    form && typeof body?.token === "string"
+      ? await renewFormChallenge(form, body.token)
+      : null;
+  if (!challenge) {
+    return json({ error: BOT_CHECK_FAILED_MESSAGE }, 400);
+  }
+  return json(challenge);
+};
@@ -0,0 +1,31 @@
+import type { APIRoute } from "astro";
+import { payload } from "@/lib/payload";
+import { applyCardPaymentResult } from "@/lib/payments/card";
+export const prerender = false;
+
+/**
+ * Server-to-server payment result from the card gateway.
+ * The gateway retries until it gets "1|OK".
+ */
+export const POST: APIRoute = async ({ request }) => {
+  const params = Object.fromEntries(
+    [...(await request.formData())].map(([key, value]) => [key, String(value)]),
+  );
+
+  try {
+    const result = await applyCardPaymentResult(await payload(), params);
+    if (result.outcome === "invalid") {
+      return new Response("0|CheckMacValue Error", { status: 400 });
+    }
+    if (result.outcome === "failed") {
+      console.warn(
+        `[Payments] Card payment for ${result.order.orderNumber} not recorded: ${result.message}`,
+      );
+    }
+    // Unknown orders and failed payments are acknowledged too; retrying won't change them
+    return new Response("1|OK");
+  } catch (error) {
+    console.error("[Payments] Error handling card notification:", error);
+    return new Response("0|Error", { status: 500 });
+  }
+};
@@ -0,0 +1,52 @@
+import type { APIRoute } from "astro";
+import { ORDER_NUMBER_PATTERN } from "payload_app";
+import { buildOrderTrackingUrl } from "@/lib/orderTracking";
+import { payload } from "@/lib/payload";
+import { getPaymentPagePath } from "@/lib/payments";
+import { applyCardPaymentResult } from "@/lib/payments/card";
+export const prerender = false;
+
+/**
+ * Order lookup for a return that could not be matched to a payment. The posted
+ * order number is not trusted, so the customer confirms it with their contact details.
+ */
+function unconfirmedPaymentPath(orderNumber: string | undefined): string {
+  const params = new URLSearchParams({ error: "payment" });
+  if (orderNumber && ORDER_NUMBER_PATTERN.test(orderNumber)) {
+    params.set("order", orderNumber);
+  }
+  return `/orders/track?${params}`;
+}
+
+/**
+ * The customer's browser coming back from the card gateway
+ */
+export const POST: APIRoute = async ({ request, redirect }) => {
+  let params: Record<string, string> = {};
+  try {
+    params = Object.fromEntries(
+      [...(await request.formData())].map(([key, value]) => [key, String(value)]),
+    );
+
+    const result = await applyCardPaymentResult(await payload(), params);
+    switch (result.outcome) {
+      case "paid":
+        return redirect(
+          `/checkout/success?order=${encodeURIComponent(result.order.orderNumber || "")}`,
+          303,
+        );
+      case "failed":
+        // Let the customer try again while the order still awaits payment
+        if (result.order.status === "awaiting_payment") {
+          return redirect(`${getPaymentPagePath(result.order)}&error=1`, 303);
+        }
+        // Otherwise show where the order stands (e.g. cancelled meanwhile)
+        return redirect(buildOrderTrackingUrl(result.order) || "/orders/track", 303);
+      default:
+        return redirect(unconfirmedPaymentPath(params.CustomField1), 303);
+    }
+  } catch (error) {
+    console.error("[Payments] Error handling card return:", error);
+    return redirect(unconfirmedPaymentPath(params.CustomField1), 303);
+  }
+};
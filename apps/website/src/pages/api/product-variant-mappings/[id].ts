@@ -115,7 +115,7 @@ export const DELETE: APIRoute = async ({ params }) => {
         });
 
         const totalStock = remainingMappings.docs.reduce(
-          (sum: number, mapping: any) => sum + (mapping.quantity || 0),
+          (sum: number, mapping: any) => sum + Math.max(0, mapping.quantity || 0),
           0,
         );
 
@@ -1,5 +1,7 @@
 import type { APIRoute } from "astro";
 import { payload } from "@/lib/payload";
+import { getOnHandQuantity, getSellableQuantity } from "payload_app";
+import { getVariantPrice } from "@/lib/utils/pricing";
 
 export const GET: APIRoute = async ({ params }) => {
   try {
@@ -219,15 +221,21 @@ export const GET: APIRoute = async ({ params }) => {
           return null;
         }
 
-        const price = Number(mapping.priceOverride || variant.price || 0);
-        const stock = Number(mapping.quantity || 0);
+        // Base unit price; quantity price breaks are applied in the cart and at checkout
+        const price = getVariantPrice(mapping, variant);
+        // What can be ordered, including backorders and preorders
+        const stock = getSellableQuantity(mapping);
 
         const variantData = {
           id: String(mapping.id),
           variantId: String(variant.id),
           name: variant.name || "",
           price,
+          priceTiers: mapping.priceTiers || [],
           stock: stock,
+          onHand: getOnHandQuantity(mapping),
+          inventoryPolicy: mapping.inventoryPolicy || "deny",
+          preorderShipDate: mapping.preorderShipDate || null,
           sku: variant.sku || "",
           isDefault: mapping.isDefault || false,
           availableForSale: stock > 0,
@@ -1,10 +1,25 @@
 import type { APIRoute } from "astro";
 import { payload } from "@/lib/payload";
+import { getSellableQuantity } from "payload_app";
 import { compareVariantIds, normalizeVariantId } from "@/lib/utils/variantId";
-import { getProductPrice, isValidPrice } from "@/lib/utils/pricing";
+import {
+  getProductPrice,
+  getVariantPrice,
+  isValidPrice,
+} from "@/lib/utils/pricing";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+import { getProductLineStock } from "@/lib/cartRevalidation";
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, clientAddress }) => {
   try {
+    const limit = await limitRequest("validate-cart-item", {
+      request,
+      clientAddress,
+    });
+    if (!limit.allowed) {
+      return tooManyRequests(limit, { ok: false, error: "Too many requests" });
+    }
+
     const body = await request.json().catch(() => null);
     const productId = body?.productId as number | string | undefined;
     const variantId = body?.variantId as string | number | undefined;
@@ -173,12 +188,9 @@ export const POST: APIRoute = async ({ request }) => {
         ? (variantMapping.isActive === true || variantMapping.isActive === "true" || variantMapping.isActive === 1 || String(variantMapping.isActive).toLowerCase() === "true")
         : true; // Default to true if not specified (assuming active if not explicitly set to false)
       
-      // Convert quantity to number and check if it's greater than 0
-      // Handle cases where quantity might be undefined, null, or a string
-      const quantity = variantMapping.quantity !== undefined && variantMapping.quantity !== null
-        ? Number(variantMapping.quantity)
-        : 0;
-      const hasStock = !isNaN(quantity) && quantity > 0;
+      // In stock, or still within its backorder or preorder limit
+      const sellable = getSellableQuantity(variantMapping);
+      const hasStock = sellable > 0;
       
       const available = isActive && hasStock;
 
@@ -192,9 +204,7 @@ export const POST: APIRoute = async ({ request }) => {
         );
       }
 
-      const variantPrice = Number(
-        variantMapping.priceOverride || variant?.price || 0,
-      );
+      const variantPrice = getVariantPrice(variantMapping, variant);
       if (!isValidPrice(variantPrice)) {
         return new Response(
           JSON.stringify({ ok: false, error: "Invalid variant price" }),
@@ -208,7 +218,8 @@ export const POST: APIRoute = async ({ request }) => {
         name: String(variant?.name || ""),
         sku: variant?.sku || undefined,
         price: variantPrice,
-        stock: Number(variantMapping.quantity || 0),
+        priceTiers: variantMapping.priceTiers || [],
+        stock: sellable,
       };
       return new Response(JSON.stringify(responsePayload), {
         status: 200,
@@ -216,9 +227,9 @@ export const POST: APIRoute = async ({ request }) => {
       });
     }
 
-    // No variant specified; validate product-level availability
-    const totalStock = Number(product.totalStock || 0);
-    const available = Boolean(product.published) && totalStock > 0;
+    // No variant specified; the default mapping's policy decides
+    const available =
+      Boolean(product.published) && getProductLineStock(product) > 0;
     if (!available) {
       return new Response(
         JSON.stringify({
@@ -0,0 +1,69 @@
+import type { APIRoute } from "astro";
+import { payload } from "@/lib/payload";
+import { CouponError, evaluateCoupon, normalizeCouponCode } from "@/lib/coupons";
+import { limitRequest, tooManyRequests } from "@/lib/rateLimit";
+import { getCartItemUnitPrice } from "@/lib/utils/pricing";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Preview a discount code for the checkout form.
+ * Uses the cart's displayed prices; /api/checkout recomputes with database prices.
+ * The per-customer limit is left to /api/checkout: checking it here would tell
+ * anyone whether an email address has ordered with the code.
+ */
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+  const limit = await limitRequest("validate-coupon", { request, clientAddress });
+  if (!limit.allowed) {
+    return tooManyRequests(limit, { ok: false, error: "嘗試次數過多，請稍後再試" });
+  }
+
+  const body = await request.json().catch(() => null);
+  const code = typeof body?.code === "string" ? normalizeCouponCode(body.code) : "";
+  const cartItems = Array.isArray(body?.cartItems) ? body.cartItems : [];
+
+  if (!code || cartItems.length === 0) {
+    return json({ ok: false, error: "請輸入優惠碼" }, 400);
+  }
+
+  try {
+    const payloadClient = await payload();
+    const productIds = cartItems.map((item: any) => item.id);
+    const products = await payloadClient.find({
+      collection: "products",
+      where: {
+        and: [{ id: { in: productIds } }, { published: { equals: true } }],
+      },
+      depth: 0,
+      limit: productIds.length,
+      select: { category: true, brand: true },
+    });
+
+    const lines = cartItems.flatMap((item: any) => {
+      const product = products.docs.find((p) => String(p.id) === String(item.id));
+      return product
+        ? [{ product, lineTotal: getCartItemUnitPrice(item) * item.quantity || 0 }]
+        : [];
+    });
+
+    const { coupon, discount } = await evaluateCoupon(payloadClient, code, {
+      lines,
+    });
+    return json({
+      ok: true,
+      code: coupon.code,
+      description: coupon.description || null,
+      discount,
+    });
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return json({ ok: false, error: error.message }, 400);
+    }
+    console.error("[Coupon] Error validating coupon:", error);
+    return json({ ok: false, error: "無法驗證優惠碼，請稍後再試" }, 500);
+  }
+};
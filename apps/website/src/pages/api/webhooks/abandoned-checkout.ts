@@ -0,0 +1,80 @@
+import type { APIRoute } from "astro";
+import type { AbandonedCheckout } from "payload_app";
+import { payload } from "@/lib/payload";
+import {
+  buildCartRecoveryUrl,
+  loadCheckoutDraftCart,
+} from "@/lib/abandonedCheckouts";
+import { sendAbandonedCheckoutEmail } from "@/lib/email";
+import { isValidWebhookRequest } from "@/lib/webhooks";
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Called by the admin app's reminder job for each draft that has gone quiet
+ */
+export const POST: APIRoute = async ({ request }) => {
+  const body = await request.text();
+  if (!isValidWebhookRequest(request, body)) {
+    return json({ error: "Invalid signature" }, 401);
+  }
+
+  let id = "";
+  try {
+    const event = JSON.parse(body);
+    if (event.event === "checkout.abandoned") id = String(event.id);
+  } catch {
+    // Falls through to the 400 below
+  }
+  if (!id) {
+    return json({ error: "Invalid event" }, 400);
+  }
+
+  const payloadClient = await payload();
+  let draft: AbandonedCheckout;
+  try {
+    draft = await payloadClient.findByID({
+      collection: "abandoned-checkouts",
+      id,
+      depth: 0,
+    });
+  } catch {
+    return json({ error: "Draft not found" }, 404);
+  }
+
+  // Already reminded, or the customer ordered in the meantime
+  if (draft.status !== "open") {
+    return json({ sent: false });
+  }
+
+  const { items } = await loadCheckoutDraftCart(payloadClient, draft);
+  if (items.length === 0) {
+    await payloadClient.update({
+      collection: "abandoned-checkouts",
+      id: draft.id,
+      data: { status: "expired" },
+      depth: 0,
+    });
+    return json({ sent: false });
+  }
+
+  try {
+    await sendAbandonedCheckoutEmail(draft, items, buildCartRecoveryUrl(draft));
+  } catch (error) {
+    console.error(`[AbandonedCheckouts] Failed to send reminder for ${draft.id}:`, error);
+    return json({ error: "Email failed" }, 502);
+  }
+
+  await payloadClient.update({
+    collection: "abandoned-checkouts",
+    id: draft.id,
+    data: { status: "reminded", reminderSentAt: new Date().toISOString() },
+    depth: 0,
+  });
+  return json({ sent: true });
+};
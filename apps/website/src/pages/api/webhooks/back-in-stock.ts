@@ -0,0 +1,73 @@
+import type { APIRoute } from "astro";
+import type { BackInStockSubscription } from "payload_app";
+import { payload } from "@/lib/payload";
+import {
+  buildBackInStockUnsubscribeUrl,
+  describeSubscription,
+} from "@/lib/backInStock";
+import { sendBackInStockEmail } from "@/lib/email";
+import { isValidWebhookRequest } from "@/lib/webhooks";
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Called by the admin app's back-in-stock job for each waiting subscriber
+ */
+export const POST: APIRoute = async ({ request }) => {
+  const body = await request.text();
+  if (!isValidWebhookRequest(request, body)) {
+    return json({ error: "Invalid signature" }, 401);
+  }
+
+  let id = "";
+  try {
+    const event = JSON.parse(body);
+    if (event.event === "stock.back_in_stock") id = String(event.id);
+  } catch {
+    // Falls through to the 400 below
+  }
+  if (!id) {
+    return json({ error: "Invalid event" }, 400);
+  }
+
+  const payloadClient = await payload();
+  let subscription: BackInStockSubscription;
+  try {
+    subscription = await payloadClient.findByID({
+      collection: "back-in-stock-subscriptions",
+      id,
+      depth: 2,
+    });
+  } catch {
+    return json({ error: "Subscription not found" }, 404);
+  }
+
+  // Already notified of this restock, or unsubscribed in the meantime
+  if (subscription.status !== "waiting") {
+    return json({ sent: false });
+  }
+
+  try {
+    await sendBackInStockEmail(
+      subscription,
+      describeSubscription(subscription),
+      buildBackInStockUnsubscribeUrl(subscription),
+    );
+  } catch (error) {
+    console.error(`[BackInStock] Failed to notify ${subscription.id}:`, error);
+    return json({ error: "Email failed" }, 502);
+  }
+
+  await payloadClient.update({
+    collection: "back-in-stock-subscriptions",
+    id: subscription.id,
+    data: { status: "notified", notifiedAt: new Date().toISOString() },
+    depth: 0,
+  });
+  return json({ sent: true });
+};
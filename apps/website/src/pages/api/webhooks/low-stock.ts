@@ -0,0 +1,47 @@
+import type { APIRoute } from "astro";
+import type { LowStockMapping } from "payload_app";
+import { sendLowStockAlertEmail, sendLowStockDigestEmail } from "@/lib/email";
+import { isValidWebhookRequest } from "@/lib/webhooks";
+export const prerender = false;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+/**
+ * Called by the admin app's stock alert jobs. The figures come in the signed
+ * body, so nothing is read back from the database here.
+ */
+export const POST: APIRoute = async ({ request }) => {
+  const body = await request.text();
+  if (!isValidWebhookRequest(request, body)) {
+    return json({ error: "Invalid signature" }, 401);
+  }
+
+  let event: {
+    event?: string;
+    mapping?: LowStockMapping;
+    mappings?: LowStockMapping[];
+  };
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return json({ error: "Invalid event" }, 400);
+  }
+
+  try {
+    if (event.event === "stock.low" && event.mapping) {
+      await sendLowStockAlertEmail(event.mapping);
+    } else if (event.event === "stock.digest" && Array.isArray(event.mappings)) {
+      await sendLowStockDigestEmail(event.mappings);
+    } else {
+      return json({ error: "Invalid event" }, 400);
+    }
+  } catch (error) {
+    console.error(`[LowStock] Failed to send ${event.event} email:`, error);
+    return json({ error: "Email failed" }, 502);
+  }
+  return json({ sent: true });
+};
@@ -0,0 +1,63 @@
+import type { APIRoute } from "astro";
+import { ORDER_NUMBER_PATTERN } from "payload_app";
+import { payload } from "@/lib/payload";
+import { findOrderByNumber } from "@/lib/orderTracking";
+import { sendOrderShippedEmail } from "@/lib/email";
+import { isValidWebhookRequest } from "@/lib/webhooks";
+export const prerender = false;
+
+/**
+ * Called by the Orders collection when an order becomes shipped
+ */
+export const POST: APIRoute = async ({ request }) => {
+  const body = await request.text();
+  if (!isValidWebhookRequest(request, body)) {
+    return new Response(JSON.stringify({ error: "Invalid signature" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  let orderNumber = "";
+  try {
+    const event = JSON.parse(body);
+    if (event.event === "order.shipped") orderNumber = String(event.orderNumber);
+  } catch {
+    // Falls through to the 400 below
+  }
+  if (!ORDER_NUMBER_PATTERN.test(orderNumber)) {
+    return new Response(JSON.stringify({ error: "Invalid event" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const order = await findOrderByNumber(await payload(), orderNumber);
+  if (!order) {
+    return new Response(JSON.stringify({ error: "Order not found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  // The admin's transaction may not have committed yet; the sender retries
+  if (order.status !== "shipped") {
+    return new Response(JSON.stringify({ error: "Order is not shipped" }), {
+      status: 409,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    await sendOrderShippedEmail(order);
+  } catch (error) {
+    console.error(`[Orders] Failed to send shipped email for ${orderNumber}:`, error);
+    return new Response(JSON.stringify({ error: "Email failed" }), {
+      status: 502,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ sent: true }), {
+    headers: { "Content-Type": "application/json" },
+  });
+};
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  checkFormSubmission,
+  createFormChallenge,
+  renewFormChallenge,
+} from "@/lib/botProtection";
+import {
+  FORM_TOKEN_FIELD,
+  HONEYPOT_FIELD,
+  PROOF_OF_WORK_FIELD,
+  solveProofOfWork,
+} from "@/lib/utils/botProtection";
+
+const SECOND = 1000;
+
+function formWith(fields: Record<string, string>): FormData {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) formData.set(name, value);
+  return formData;
+}
+
+describe("form tokens", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubEnv("BOT_PROTECTION_SECRET", "test-secret");
+    vi.stubEnv("BOT_PROOF_OF_WORK_BITS", "0");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts a token it signed once the form could have been filled in", async () => {
+    const { token } = createFormChallenge("contact");
+    vi.advanceTimersByTime(10 * SECOND);
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({ [FORM_TOKEN_FIELD]: token }),
+      ),
+    ).toEqual({
+      ok: true,
+    });
+  });
+
+  it("rejects a token posted sooner than a person could fill the form", async () => {
+    const { token } = createFormChallenge("checkout");
+    vi.advanceTimersByTime(2 * SECOND);
+    expect(
+      await checkFormSubmission(
+        "checkout",
+        formWith({ [FORM_TOKEN_FIELD]: token }),
+      ),
+    ).toEqual({
+      ok: false,
+      reason: "too_fast",
+    });
+  });
+
+  it("rejects an expired token", async () => {
+    const { token } = createFormChallenge("contact");
+    vi.advanceTimersByTime(25 * 60 * 60 * SECOND);
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({ [FORM_TOKEN_FIELD]: token }),
+      ),
+    ).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+  });
+
+  it("rejects tokens that were altered, signed for another form or with another key", async () => {
+    const { token } = createFormChallenge("contact");
+    vi.advanceTimersByTime(10 * SECOND);
+    const [issuedAt, difficulty, nonce, signature] = token.split(".");
+
+    const backdated = [
+      Number(issuedAt) - 60 * SECOND,
+      difficulty,
+      nonce,
+      signature,
+    ].join(".");
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({ [FORM_TOKEN_FIELD]: backdated }),
+      ),
+    ).toEqual({ ok: false, reason: "invalid_token" });
+    expect(
+      await checkFormSubmission(
+        "checkout",
+        formWith({ [FORM_TOKEN_FIELD]: token }),
+      ),
+    ).toEqual({
+      ok: false,
+      reason: "invalid_token",
+    });
+
+    vi.stubEnv("BOT_PROTECTION_SECRET", "another-secret");
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({ [FORM_TOKEN_FIELD]: token }),
+      ),
+    ).toEqual({
+      ok: false,
+      reason: "invalid_token",
+    });
+  });
+
+  it("rejects posts without a token or with the honeypot filled", async () => {
+    expect(await checkFormSubmission("contact", formWith({}))).toEqual({
+      ok: false,
+      reason: "missing_token",
+    });
+    const { token } = createFormChallenge("contact");
+    vi.advanceTimersByTime(10 * SECOND);
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({
+          [FORM_TOKEN_FIELD]: token,
+          [HONEYPOT_FIELD]: "https://spam.example",
+        }),
+      ),
+    ).toEqual({ ok: false, reason: "honeypot" });
+  });
+
+  it("requires the proof-of-work the token asks for", async () => {
+    vi.stubEnv("BOT_PROOF_OF_WORK_BITS", "4");
+    const { token, difficulty } = createFormChallenge("contact");
+    expect(difficulty).toBe(4);
+    vi.advanceTimersByTime(10 * SECOND);
+
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({ [FORM_TOKEN_FIELD]: token }),
+      ),
+    ).toEqual({
+      ok: false,
+      reason: "proof_of_work",
+    });
+    const solution = await solveProofOfWork(token, difficulty);
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({
+          [FORM_TOKEN_FIELD]: token,
+          [PROOF_OF_WORK_FIELD]: solution,
+        }),
+      ),
+    ).toEqual({ ok: true });
+  });
+
+  it("accepts each token once", async () => {
+    const { token } = createFormChallenge("contact");
+    vi.advanceTimersByTime(10 * SECOND);
+    const formData = formWith({ [FORM_TOKEN_FIELD]: token });
+
+    expect(await checkFormSubmission("contact", formData)).toEqual({
+      ok: true,
+    });
+    expect(await checkFormSubmission("contact", formData)).toEqual({
+      ok: false,
+      reason: "replayed",
+    });
+  });
+
+  it("renews a used token for another post, expiring with the first", async () => {
+    const { token } = createFormChallenge("contact");
+    vi.advanceTimersByTime(10 * SECOND);
+    await checkFormSubmission(
+      "contact",
+      formWith({ [FORM_TOKEN_FIELD]: token }),
+    );
+
+    expect(await renewFormChallenge("checkout", token)).toBeNull();
+    const renewed = await renewFormChallenge("contact", token);
+    expect(renewed?.token).not.toBe(token);
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({ [FORM_TOKEN_FIELD]: renewed!.token }),
+      ),
+    ).toEqual({ ok: true });
+
+    const later = createFormChallenge("contact");
+    vi.advanceTimersByTime(25 * 60 * 60 * SECOND);
+    expect(await renewFormChallenge("contact", later.token)).toBeNull();
+  });
+
+  it("renews a token once, and refuses it once renewed", async () => {
+    const { token } = createFormChallenge("contact");
+    vi.advanceTimersByTime(10 * SECOND);
+
+    expect(await renewFormChallenge("contact", token)).not.toBeNull();
+    expect(await renewFormChallenge("contact", token)).toBeNull();
+    expect(
+      await checkFormSubmission(
+        "contact",
+        formWith({ [FORM_TOKEN_FIELD]: token }),
+      ),
+    ).toEqual({ ok: false, reason: "replayed" });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import type { Product } from "payload_app";
+import { getProductLineStock } from "@/lib/cartRevalidation";
+
+const product = (fields: Partial<Product>) => fields as Product;
+
+describe("stock for lines without a variant", () => {
+  it("sells what the default mapping's backorder limit allows", () => {
+    expect(
+      getProductLineStock(
+        product({
+          totalStock: 0,
+          variantMappings: [
+            { id: "a", isDefault: false, quantity: 4 },
+            {
+              id: "b",
+              isDefault: true,
+              quantity: 0,
+              inventoryPolicy: "backorder",
+              backorderLimit: 5,
+            },
+          ] as Product["variantMappings"],
+        }),
+      ),
+    ).toBe(5);
+  });
+
+  it("stops at 0 for a default mapping that denies", () => {
+    expect(
+      getProductLineStock(
+        product({
+          totalStock: 4,
+          variantMappings: [
+            { id: "a", isDefault: false, quantity: 4 },
+            { id: "b", isDefault: true, quantity: 0, inventoryPolicy: "deny" },
+          ] as Product["variantMappings"],
+        }),
+      ),
+    ).toBe(0);
+  });
+
+  it("falls back to totalStock without a default mapping", () => {
+    expect(getProductLineStock(product({ totalStock: 3 }))).toBe(3);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateCheckMacValue,
+  verifyCheckMacValue,
+} from "@/lib/payments/checkMacValue";
+
+// ECPay's published staging example
+const keys = { hashKey: "pwFHCqoQZGmho4w6", hashIV: "EkRm7iFT261dpevs" };
+const params = {
+  ChoosePayment: "ALL",
+  EncryptType: "1",
+  ItemName: "Apple iphone 15",
+  MerchantID: "3002607",
+  MerchantTradeDate: "2023/03/12 15:30:23",
+  MerchantTradeNo: "ecpay20230312153023",
+  PaymentType: "aio",
+  ReturnURL: "https://www.ecpay.com.tw/receive.php",
+  TotalAmount: "30000",
+  TradeDesc: "促銷方案",
+};
+const expected =
+  "6C51C9E6888DE861FD62FB1DD17029FC742634498FD813DC43D4243B5685B840";
+
+describe("CheckMacValue", () => {
+  it("matches the gateway's own example", () => {
+    expect(generateCheckMacValue(params, keys)).toBe(expected);
+  });
+
+  it("ignores parameter order and an existing CheckMacValue", () => {
+    const reversed = Object.fromEntries(Object.entries(params).reverse());
+    expect(
+      generateCheckMacValue({ ...reversed, CheckMacValue: "stale" }, keys),
+    ).toBe(expected);
+  });
+
+  it("accepts a correctly signed notification in either case", () => {
+    expect(
+      verifyCheckMacValue({ ...params, CheckMacValue: expected }, keys),
+    ).toBe(true);
+    expect(
+      verifyCheckMacValue(
+        { ...params, CheckMacValue: expected.toLowerCase() },
+        keys,
+      ),
+    ).toBe(true);
+  });
+
+  it("rejects tampered, unsigned or wrongly keyed notifications", () => {
+    expect(
+      verifyCheckMacValue(
+        { ...params, TotalAmount: "1", CheckMacValue: expected },
+        keys,
+      ),
+    ).toBe(false);
+    expect(verifyCheckMacValue(params, keys)).toBe(false);
+    expect(
+      verifyCheckMacValue({ ...params, CheckMacValue: "short" }, keys),
+    ).toBe(false);
+    expect(
+      verifyCheckMacValue(
+        { ...params, CheckMacValue: expected },
+        { ...keys, hashIV: "another-hash-iv" },
+      ),
+    ).toBe(false);
+  });
+});
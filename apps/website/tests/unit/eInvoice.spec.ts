@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  isValidCitizenCarrier,
+  isValidDonationCode,
+  isValidMobileBarcode,
+  isValidTaxId,
+  parseInvoiceDetails,
+} from "@/lib/utils/eInvoice";
+
+describe("e-invoice checks", () => {
+  it("accepts tax IDs whose weighted digit sum is divisible by 5", () => {
+    expect(isValidTaxId("04595257")).toBe(true);
+    expect(isValidTaxId("22099131")).toBe(true);
+  });
+
+  it("accepts either reading of a 7 in the seventh digit", () => {
+    expect(isValidTaxId("10458575")).toBe(true);
+    expect(isValidTaxId("10458574")).toBe(true);
+    expect(isValidTaxId("10458573")).toBe(false);
+  });
+
+  it("rejects tax IDs with a wrong checksum or format", () => {
+    expect(isValidTaxId("12345678")).toBe(false);
+    expect(isValidTaxId("04595258")).toBe(false);
+    expect(isValidTaxId("0459525")).toBe(false);
+    expect(isValidTaxId("0459525a")).toBe(false);
+  });
+
+  it("checks carrier and donation code formats", () => {
+    expect(isValidMobileBarcode("/AB+1-2.")).toBe(true);
+    expect(isValidMobileBarcode("AB12345")).toBe(false);
+    expect(isValidMobileBarcode("/ab12345")).toBe(false);
+    expect(isValidCitizenCarrier("AB12345678901234")).toBe(true);
+    expect(isValidCitizenCarrier("A123456789012345")).toBe(false);
+    expect(isValidDonationCode("919")).toBe(true);
+    expect(isValidDonationCode("25885")).toBe(true);
+    expect(isValidDonationCode("12")).toBe(false);
+  });
+
+  it("normalizes the fields the chosen type uses and drops the rest", () => {
+    expect(
+      parseInvoiceDetails({
+        type: "mobile_carrier",
+        carrierCode: " /abc1234 ",
+        taxId: "04595257",
+      }),
+    ).toEqual({
+      invoice: { type: "mobile_carrier", carrierCode: "/ABC1234" },
+      error: null,
+    });
+    expect(
+      parseInvoiceDetails({
+        type: "company",
+        taxId: "04595257",
+        companyName: " ",
+      }),
+    ).toEqual({
+      invoice: { type: "company", taxId: "04595257", companyName: undefined },
+      error: null,
+    });
+    expect(parseInvoiceDetails({})).toEqual({
+      invoice: { type: "personal" },
+      error: null,
+    });
+  });
+
+  it("returns an error for invalid details", () => {
+    expect(
+      parseInvoiceDetails({ type: "company", taxId: "12345678" }).error,
+    ).toBeTruthy();
+    expect(
+      parseInvoiceDetails({ type: "donation", donationCode: "abc" }).error,
+    ).toBeTruthy();
+    expect(parseInvoiceDetails({ type: "unknown" }).error).toBeTruthy();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyPriceTiers,
+  getApplicablePriceTier,
+  getCartItemUnitPrice,
+} from "@/lib/utils/pricing";
+
+const tiers = [
+  { minQuantity: 10, discountPercent: 15 },
+  { minQuantity: 3, discountPercent: 5 },
+  { minQuantity: 5, discountPercent: 10 },
+];
+
+describe("quantity price breaks", () => {
+  it("picks the highest break the quantity reaches, in any order", () => {
+    expect(getApplicablePriceTier(tiers, 3)).toEqual({
+      minQuantity: 3,
+      discountPercent: 5,
+    });
+    expect(getApplicablePriceTier(tiers, 7)).toEqual({
+      minQuantity: 5,
+      discountPercent: 10,
+    });
+    expect(getApplicablePriceTier(tiers, 10)).toEqual({
+      minQuantity: 10,
+      discountPercent: 15,
+    });
+  });
+
+  it("has no break below the first one or without breaks", () => {
+    expect(getApplicablePriceTier(tiers, 2)).toBeNull();
+    expect(getApplicablePriceTier([], 50)).toBeNull();
+    expect(getApplicablePriceTier(null, 50)).toBeNull();
+  });
+
+  it("discounts the unit price and rounds to cents", () => {
+    expect(applyPriceTiers(200, tiers, 1)).toBe(200);
+    expect(applyPriceTiers(200, tiers, 5)).toBe(180);
+    expect(applyPriceTiers(99.99, tiers, 3)).toBe(94.99);
+    expect(applyPriceTiers(33.33, tiers, 10)).toBe(28.33);
+  });
+
+  it("prices cart lines from their stored base price", () => {
+    expect(
+      getCartItemUnitPrice({
+        price: 100,
+        quantity: 4,
+        variant: { priceTiers: tiers },
+      }),
+    ).toBe(95);
+    expect(
+      getCartItemUnitPrice({ price: 100, quantity: 4, variant: null }),
+    ).toBe(100);
+  });
+});
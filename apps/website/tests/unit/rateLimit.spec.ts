@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  MemoryRateLimitStore,
+  getClientIp,
+  limitRequest,
+  rateLimit,
+  setRateLimitStore,
+} from "@/lib/rateLimit";
+
+const budget = { limit: 2, windowMs: 60 * 1000 };
+
+describe("rate limit window", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("allows the budget and refuses the rest of the window", async () => {
+    expect(await rateLimit("key", budget)).toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfterSeconds: 60,
+    });
+    expect((await rateLimit("key", budget)).allowed).toBe(true);
+
+    vi.advanceTimersByTime(15 * 1000);
+    expect(await rateLimit("key", budget)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 45,
+    });
+  });
+
+  it("starts a new window once the old one ends", async () => {
+    for (let i = 0; i < 3; i++) await rateLimit("key", budget);
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect(await rateLimit("key", budget)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    });
+  });
+
+  it("counts each key separately", async () => {
+    for (let i = 0; i < 3; i++) await rateLimit("one", budget);
+    expect((await rateLimit("two", budget)).allowed).toBe(true);
+  });
+
+  it("refuses a request when any of its budgets is spent", async () => {
+    vi.stubEnv("RATE_LIMIT_CONTACT_IP", "100/3600");
+    vi.stubEnv("RATE_LIMIT_CONTACT_IDENTITY", "1/3600");
+    const request = new Request("https://example.com/api/contact", {
+      method: "POST",
+    });
+    const send = (email: string) =>
+      limitRequest("contact", {
+        request,
+        clientAddress: "203.0.113.7",
+        identities: [email],
+      });
+
+    expect((await send("Someone@Example.com")).allowed).toBe(true);
+    const denied = await send(" someone@example.com ");
+    expect(denied).toMatchObject({ allowed: false, retryAfterSeconds: 3600 });
+    expect((await send("other@example.com")).allowed).toBe(true);
+  });
+});
+
+describe("client IP", () => {
+  const request = (forwardedFor?: string) =>
+    new Request("https://example.com/api/cart", {
+      headers: forwardedFor ? { "X-Forwarded-For": forwardedFor } : {},
+    });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("ignores X-Forwarded-For without a trusted proxy", () => {
+    expect(getClientIp(request("198.51.100.1"), "203.0.113.7")).toBe(
+      "203.0.113.7",
+    );
+  });
+
+  it("takes the address the outermost trusted proxy saw", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "1");
+    expect(getClientIp(request("198.51.100.1, 203.0.113.7"), "10.0.0.2")).toBe(
+      "203.0.113.7",
+    );
+
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "2");
+    expect(
+      getClientIp(request("198.51.100.1, 203.0.113.7, 10.0.0.3"), "10.0.0.2"),
+    ).toBe("203.0.113.7");
+  });
+
+  it("falls back to the connection without a forwarded address", () => {
+    vi.stubEnv("TRUSTED_PROXY_HOPS", "1");
+    expect(getClientIp(request(), "203.0.113.7")).toBe("203.0.113.7");
+  });
+});
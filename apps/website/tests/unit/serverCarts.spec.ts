@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import type { Payload } from "payload";
+import { createCustomerCart } from "@/lib/serverCarts";
+
+// Postgres hands back numeric ids; the browser may send them as strings
+const products = [
+  {
+    id: 7,
+    title: "Vitamin C",
+    variantMappings: [{ id: 31, variant: { id: 12, name: "60 tablets" } }],
+  },
+  { id: 8, title: "Zinc", variantMappings: [] },
+];
+
+function createClient() {
+  return {
+    find: async () => ({ docs: products }),
+    create: async ({ data }: { data: unknown }) => data,
+  } as unknown as Payload;
+}
+
+describe("server carts", () => {
+  it("keeps lines whose products have numeric ids", async () => {
+    const cart = await createCustomerCart(createClient(), [
+      { id: "7", quantity: 2, variant: { id: 12, mappingId: "31" } },
+      { id: 8, quantity: 1, variant: null },
+    ]);
+
+    expect(cart.items).toEqual([
+      { product: 7, variant: 31, quantity: 2 },
+      { product: 8, variant: null, quantity: 1 },
+    ]);
+  });
+
+  it("drops lines for products or variants that no longer exist", async () => {
+    const cart = await createCustomerCart(createClient(), [
+      { id: 9, quantity: 1 },
+      { id: 7, quantity: 1, variant: { id: 99 } },
+    ]);
+
+    expect(cart.items).toEqual([]);
+  });
+});
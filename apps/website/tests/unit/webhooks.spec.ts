@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import {
+  ORDER_WEBHOOK_SIGNATURE_HEADER,
+  ORDER_WEBHOOK_TIMESTAMP_HEADER,
+  signOrderWebhook,
+} from "payload_app";
+import { isValidWebhookRequest } from "@/lib/webhooks";
+
+const body = JSON.stringify({
+  event: "order.shipped",
+  orderNumber: "PR-20261019-00042",
+});
+
+function delivery(
+  timestamp: string,
+  signature = signOrderWebhook(body, timestamp),
+) {
+  return new Request("https://example.com/api/webhooks/order-shipped", {
+    method: "POST",
+    headers: {
+      [ORDER_WEBHOOK_SIGNATURE_HEADER]: signature || "",
+      [ORDER_WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    },
+    body,
+  });
+}
+
+const now = () => String(Math.floor(Date.now() / 1000));
+
+describe("webhook signatures", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubEnv("ORDER_WEBHOOK_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts a fresh delivery signed with the shared secret", () => {
+    expect(isValidWebhookRequest(delivery(now()), body)).toBe(true);
+  });
+
+  it("refuses a captured delivery replayed later", () => {
+    const request = delivery(now());
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    expect(isValidWebhookRequest(request, body)).toBe(false);
+  });
+
+  it("refuses a delivery whose timestamp was changed", () => {
+    const signedAt = now();
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    const request = delivery(now(), signOrderWebhook(body, signedAt));
+    expect(isValidWebhookRequest(request, body)).toBe(false);
+  });
+
+  it("refuses a changed body, a missing timestamp or another secret", () => {
+    expect(isValidWebhookRequest(delivery(now()), `${body} `)).toBe(false);
+    expect(isValidWebhookRequest(delivery(""), body)).toBe(false);
+
+    const request = delivery(now());
+    vi.stubEnv("ORDER_WEBHOOK_SECRET", "another-secret");
+    expect(isValidWebhookRequest(request, body)).toBe(false);
+  });
+});